@@ -0,0 +1,134 @@
+/**
+ * Analyzer - Common contract between data sources and the scoring engine
+ *
+ * Every data source returns a result carrying its source name, a 0-100 risk
+ * score, the factors that add up to it and optional structured findings. Sources register with the
+ * ScoringEngine as an Analyzer declaring how much their risk score weighs
+ * and how much their data adds to the confidence, so new detectors
+ * (third-party APIs, simulators, bytecode scanners) plug into scoring
+ * without changes to the engine.
+ *
+ * Usage:
+ * ```typescript
+ * class GoPlusChecker implements Analyzer<GoPlusResult> {
+ *   readonly source = "goplus";
+ *   readonly description = "Token security flags from GoPlus";
+ *   readonly type = "api";
+ *   readonly weight = 0.2;
+ *
+ *   confidence(result: GoPlusResult): number {
+ *     return result.is_open_source ? 0.05 : 0;
+ *   }
+ * }
+ *
+ * engine.register(new GoPlusChecker());
+ * ```
+ */
+
+/**
+ * How serious a finding is
+ */
+export type FindingSeverity = "info" | "warning" | "critical";
+
+/**
+ * Area of risk a finding belongs to
+ */
+export type FindingCategory =
+  | "honeypot"
+  | "tax"
+  | "holders"
+  | "liquidity"
+  | "contract"
+  | "ownership"
+  | "trading"
+  | "deployer";
+
+/**
+ * Value backing a finding (percentages, addresses, counts...)
+ */
+export type FindingEvidence = string | number | boolean | null | string[];
+
+/**
+ * A single issue reported by a data source
+ */
+export interface Finding {
+  /** Stable machine-readable identifier, e.g. "HIGH_SELL_TAX" */
+  code: string;
+  /** How serious the finding is */
+  severity: FindingSeverity;
+  /** Area of risk */
+  category: FindingCategory;
+  /** Values the finding is based on, by name */
+  evidence: Record<string, FindingEvidence>;
+  /** Data source that produced it */
+  source: string;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * One factor behind a source's risk score
+ */
+export interface RiskContribution {
+  /** What was measured, e.g. "blacklist" or "sell_tax" */
+  factor: string;
+  /** Raw value the points are based on */
+  value: FindingEvidence;
+  /** Risk points it added (negative for the cap at 100) */
+  points: number;
+}
+
+/**
+ * Add up risk contributions into a 0-100 risk score
+ *
+ * Points above 100 are taken back by a "cap" contribution, so the returned
+ * factors always add up to the score.
+ */
+export function sumRiskContributions(
+  contributions: RiskContribution[]
+): Pick<AnalyzerResult, "risk_score" | "risk_factors"> {
+  const total = contributions.reduce((sum, contribution) => sum + contribution.points, 0);
+  const riskScore = Math.max(0, Math.min(100, total));
+
+  return {
+    risk_score: riskScore,
+    risk_factors:
+      riskScore === total ? contributions : [...contributions, { factor: "cap", value: 100, points: riskScore - total }],
+  };
+}
+
+/**
+ * Fields the scoring engine reads from every source's result
+ */
+export interface AnalyzerResult {
+  /** Data source identifier (matches the registered Analyzer's source) */
+  source: string;
+  /** Numerical risk score 0-100 (higher = more dangerous) */
+  risk_score: number;
+  /** Factors behind risk_score; their points add up to it */
+  risk_factors?: RiskContribution[];
+  /** Sell verdict, for sources that test whether the token can be sold */
+  is_honeypot?: boolean | null;
+  /** Issues found, rendered into the safety result's warnings */
+  findings?: Finding[];
+  /** Error message if the source failed or was skipped */
+  error?: string;
+}
+
+/**
+ * A data source the scoring engine aggregates
+ */
+export interface Analyzer<TResult extends AnalyzerResult = AnalyzerResult> {
+  /** Source name of the results it produces */
+  readonly source: string;
+  /** What the source checks (listed in the agent manifest) */
+  readonly description: string;
+  /** Where its data comes from: a third-party API or the chain's RPC */
+  readonly type: "api" | "rpc";
+  /** Relative weight of its risk score in the safety score (0 = warnings only) */
+  readonly weight: number;
+  /**
+   * Confidence a successful result adds for the quality of its data (0-1, usually ≤ 0.2)
+   */
+  confidence?(result: TResult): number;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, test } from "bun:test";
+import { Web3 } from "web3";
+import { analyzeBytecode, extractSelectors, parseMinimalProxy } from "./bytecode-analyzer";
+
+const abi = new Web3().eth.abi;
+
+const MINT = abi.encodeFunctionSignature("mint(address,uint256)").slice(2);
+const TRANSFER = abi.encodeFunctionSignature("transfer(address,uint256)").slice(2);
+
+// ERC-1155 balanceOf(address,uint256) has a leading zero byte: 0x00fdd58e
+const BALANCE_OF_1155 = "fdd58e";
+
+// Opcodes used to assemble test dispatchers
+const DUP1 = "80";
+const DUP2 = "81";
+const EQ = "14";
+const AND = "16";
+const JUMPI = "57";
+const PUSH2_DEST = "610040";
+const STOP = "00";
+
+const IMPLEMENTATION = "0xbebebebebebebebebebebebebebebebebebebebe";
+const minimalProxy = (implementation: string) =>
+  `0x363d3d373d3d3d363d73${implementation.slice(2)}5af43d82803e903d91602b57fd5bf3`;
+
+describe("extractSelectors", () => {
+  test("finds PUSH4 selectors compared with EQ, directly or after a DUP", () => {
+    const code = "0x" + [DUP1, "63" + MINT, EQ, PUSH2_DEST, JUMPI, "63" + TRANSFER, DUP2, EQ, PUSH2_DEST, JUMPI].join("");
+
+    expect(extractSelectors(code)).toEqual([`0x${MINT}`, `0x${TRANSFER}`]);
+  });
+
+  test("pads PUSH3 selectors that have a leading zero byte", () => {
+    const code = "0x" + [DUP1, "62" + BALANCE_OF_1155, EQ, PUSH2_DEST, JUMPI].join("");
+
+    expect(extractSelectors(code)).toEqual(["0x00fdd58e"]);
+  });
+
+  test("ignores selector-like bytes inside PUSH32 data", () => {
+    // PUSH32 whose data holds "PUSH4 <mint> EQ" followed by padding
+    const data = ("63" + MINT + EQ).padEnd(64, "0");
+    const code = "0x" + ["7f" + data, STOP].join("");
+
+    expect(extractSelectors(code)).toEqual([]);
+  });
+
+  test("ignores PUSH4 constants that are not compared with EQ", () => {
+    const code = "0x" + ["63ffffffff", AND, "63" + MINT, DUP1, DUP1, EQ].join("");
+
+    expect(extractSelectors(code)).toEqual([]);
+  });
+
+  test("returns each selector once", () => {
+    const branch = [DUP1, "63" + MINT, EQ, PUSH2_DEST, JUMPI].join("");
+
+    expect(extractSelectors("0x" + branch + branch)).toEqual([`0x${MINT}`]);
+  });
+});
+
+describe("analyzeBytecode", () => {
+  test("combines a proxy's and its implementation's selectors", () => {
+    const proxy = "0x" + [DUP1, "63" + TRANSFER, EQ].join("");
+    const implementation = "0x" + [DUP1, "63" + MINT, EQ].join("");
+
+    const analysis = analyzeBytecode(proxy, implementation);
+
+    expect(analysis.selectors).toEqual([`0x${TRANSFER}`, `0x${MINT}`]);
+    expect(analysis.dangerous_functions).toEqual([
+      { selector: `0x${MINT}`, signature: "mint(address,uint256)", capability: "mint" },
+    ]);
+    expect(analysis.capabilities).toEqual(["mint"]);
+  });
+});
+
+describe("parseMinimalProxy", () => {
+  test("returns the implementation of an EIP-1167 proxy", () => {
+    expect(parseMinimalProxy(minimalProxy(IMPLEMENTATION))).toBe(IMPLEMENTATION);
+    expect(parseMinimalProxy(minimalProxy(IMPLEMENTATION).toUpperCase().replace("0X", "0x"))).toBe(IMPLEMENTATION);
+  });
+
+  test("rejects code that only resembles a minimal proxy", () => {
+    expect(parseMinimalProxy(minimalProxy(IMPLEMENTATION) + "00")).toBeNull();
+    expect(parseMinimalProxy(minimalProxy(IMPLEMENTATION).replace("5af4", "5af1"))).toBeNull();
+    expect(parseMinimalProxy("0x" + [DUP1, "63" + MINT, EQ].join(""))).toBeNull();
+  });
+});
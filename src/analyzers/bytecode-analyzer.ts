@@ -0,0 +1,258 @@
+/**
+ * Bytecode Analysis - Function selectors from EVM bytecode
+ *
+ * Disassembles deployed bytecode, pulls the 4-byte function selectors out of
+ * the Solidity/Vyper dispatcher (`PUSH4 <selector> EQ` comparisons) and
+ * matches them against a curated database of privileged or dangerous
+ * functions (minting, pausing, blacklists, fee and limit setters, ...).
+ *
+ * Features:
+ * - Correct PUSH1-PUSH32 immediate skipping (no false matches inside push data)
+ * - Selectors derived from signatures with keccak256, not hard-coded hex
+ * - Works on unverified contracts (no source or ABI required)
+ * - EIP-1167 minimal proxy detection
+ */
+
+import { eth } from "web3";
+
+/**
+ * Privileged capability a contract exposes
+ */
+export type ContractCapability =
+  | "mint"
+  | "pause"
+  | "blacklist"
+  | "whitelist"
+  | "fee_control"
+  | "fee_exclusion"
+  | "max_tx_control"
+  | "trading_control"
+  | "cooldown_control"
+  | "ownership";
+
+/**
+ * A known function signature flagged as dangerous
+ */
+export interface DangerousSignature {
+  /** Canonical signature, e.g. "mint(address,uint256)" */
+  signature: string;
+  /** Capability the function grants */
+  capability: ContractCapability;
+}
+
+/**
+ * A dangerous function found in a contract's dispatcher
+ */
+export interface DangerousFunction extends DangerousSignature {
+  /** 4-byte selector (0x-prefixed hex) */
+  selector: string;
+}
+
+/**
+ * Result of analyzing a contract's bytecode
+ */
+export interface BytecodeAnalysis {
+  /** All dispatcher selectors found */
+  selectors: string[];
+  /** Known dangerous functions present */
+  dangerous_functions: DangerousFunction[];
+  /** Distinct capabilities of the dangerous functions */
+  capabilities: ContractCapability[];
+}
+
+/**
+ * Curated dangerous function signatures
+ */
+export const DANGEROUS_SIGNATURES: DangerousSignature[] = [
+  // Supply inflation
+  { signature: "mint(address,uint256)", capability: "mint" },
+  { signature: "mint(uint256)", capability: "mint" },
+  { signature: "mintTo(address,uint256)", capability: "mint" },
+  { signature: "issue(uint256)", capability: "mint" },
+
+  // Transfer freezes
+  { signature: "pause()", capability: "pause" },
+  { signature: "unpause()", capability: "pause" },
+  { signature: "setPaused(bool)", capability: "pause" },
+
+  // Per-address bans
+  { signature: "blacklist(address)", capability: "blacklist" },
+  { signature: "addToBlacklist(address)", capability: "blacklist" },
+  { signature: "removeFromBlacklist(address)", capability: "blacklist" },
+  { signature: "setBlacklist(address,bool)", capability: "blacklist" },
+  { signature: "blacklistAddress(address,bool)", capability: "blacklist" },
+  { signature: "isBlacklisted(address)", capability: "blacklist" },
+  { signature: "addBot(address)", capability: "blacklist" },
+  { signature: "addBots(address[])", capability: "blacklist" },
+  { signature: "setBots(address[],bool)", capability: "blacklist" },
+  { signature: "blockBots(address[])", capability: "blacklist" },
+  { signature: "addBlackList(address)", capability: "blacklist" },
+  { signature: "removeBlackList(address)", capability: "blacklist" },
+
+  // Allow-lists (trading limited to approved wallets)
+  { signature: "setWhitelist(address,bool)", capability: "whitelist" },
+  { signature: "addToWhitelist(address)", capability: "whitelist" },
+  { signature: "removeFromWhitelist(address)", capability: "whitelist" },
+  { signature: "setWhitelistEnabled(bool)", capability: "whitelist" },
+
+  // Adjustable taxes
+  { signature: "setFee(uint256)", capability: "fee_control" },
+  { signature: "setFees(uint256,uint256)", capability: "fee_control" },
+  { signature: "setTax(uint256)", capability: "fee_control" },
+  { signature: "setTaxFeePercent(uint256)", capability: "fee_control" },
+  { signature: "setBuyFee(uint256)", capability: "fee_control" },
+  { signature: "setSellFee(uint256)", capability: "fee_control" },
+  { signature: "updateFees(uint256,uint256)", capability: "fee_control" },
+  { signature: "updateBuyFees(uint256,uint256,uint256)", capability: "fee_control" },
+  { signature: "updateSellFees(uint256,uint256,uint256)", capability: "fee_control" },
+  { signature: "setTaxes(uint256,uint256)", capability: "fee_control" },
+  { signature: "setBuyTax(uint256)", capability: "fee_control" },
+  { signature: "setSellTax(uint256)", capability: "fee_control" },
+  { signature: "setLiquidityFeePercent(uint256)", capability: "fee_control" },
+
+  // Fee whitelists
+  { signature: "excludeFromFee(address)", capability: "fee_exclusion" },
+  { signature: "includeInFee(address)", capability: "fee_exclusion" },
+  { signature: "excludeFromFees(address,bool)", capability: "fee_exclusion" },
+
+  // Transaction and wallet limits
+  { signature: "setMaxTx(uint256)", capability: "max_tx_control" },
+  { signature: "setMaxTxAmount(uint256)", capability: "max_tx_control" },
+  { signature: "setMaxTxPercent(uint256)", capability: "max_tx_control" },
+  { signature: "setMaxWallet(uint256)", capability: "max_tx_control" },
+  { signature: "setMaxWalletSize(uint256)", capability: "max_tx_control" },
+  { signature: "updateMaxTxnAmount(uint256)", capability: "max_tx_control" },
+  { signature: "updateMaxWalletAmount(uint256)", capability: "max_tx_control" },
+
+  // Trading switches
+  { signature: "enableTrading()", capability: "trading_control" },
+  { signature: "openTrading()", capability: "trading_control" },
+  { signature: "setTradingEnabled(bool)", capability: "trading_control" },
+  { signature: "setTrading(bool)", capability: "trading_control" },
+  { signature: "startTrading()", capability: "trading_control" },
+
+  // Cooldowns between trades
+  { signature: "setCooldownEnabled(bool)", capability: "cooldown_control" },
+  { signature: "setCooldown(uint256)", capability: "cooldown_control" },
+  { signature: "setTransferDelayEnabled(bool)", capability: "cooldown_control" },
+
+  // Ownership
+  { signature: "renounceOwnership()", capability: "ownership" },
+  { signature: "transferOwnership(address)", capability: "ownership" },
+];
+
+// Selector → signature lookup, computed once
+const DANGEROUS_SELECTORS: Map<string, DangerousSignature> = new Map(
+  DANGEROUS_SIGNATURES.map((entry) => [
+    eth.abi.encodeFunctionSignature(entry.signature).toLowerCase(),
+    entry,
+  ])
+);
+
+const OP_PUSH1 = 0x60;
+const OP_PUSH3 = 0x62;
+const OP_PUSH4 = 0x63;
+const OP_PUSH32 = 0x7f;
+const OP_DUP1 = 0x80;
+const OP_DUP16 = 0x8f;
+const OP_EQ = 0x14;
+
+/**
+ * A disassembled instruction (only what selector extraction needs)
+ */
+interface Instruction {
+  opcode: number;
+  /** Immediate data of PUSH instructions (hex, no prefix) */
+  push?: string;
+}
+
+/**
+ * Disassemble bytecode into instructions, skipping PUSH immediates
+ */
+function disassemble(code: string): Instruction[] {
+  const hex = code.startsWith("0x") ? code.slice(2) : code;
+  const instructions: Instruction[] = [];
+
+  for (let i = 0; i + 2 <= hex.length; ) {
+    const opcode = parseInt(hex.slice(i, i + 2), 16);
+    i += 2;
+
+    if (opcode >= OP_PUSH1 && opcode <= OP_PUSH32) {
+      const size = (opcode - OP_PUSH1 + 1) * 2;
+      instructions.push({ opcode, push: hex.slice(i, i + size) });
+      i += size;
+    } else {
+      instructions.push({ opcode });
+    }
+  }
+
+  return instructions;
+}
+
+/**
+ * Extract dispatcher function selectors from bytecode
+ *
+ * A selector is a PUSH4 (or PUSH3 for selectors with a leading zero byte)
+ * compared with EQ right away, optionally after a DUP.
+ *
+ * @param code - Deployed bytecode (0x-prefixed hex)
+ * @returns Unique selectors in order of appearance
+ */
+export function extractSelectors(code: string): string[] {
+  const instructions = disassemble(code);
+  const selectors = new Set<string>();
+
+  for (let i = 0; i < instructions.length; i++) {
+    const { opcode, push } = instructions[i]!;
+    if ((opcode !== OP_PUSH4 && opcode !== OP_PUSH3) || !push) continue;
+
+    const next = instructions[i + 1];
+    const afterDup =
+      next && next.opcode >= OP_DUP1 && next.opcode <= OP_DUP16 ? instructions[i + 2] : next;
+
+    if (afterDup?.opcode === OP_EQ) {
+      selectors.add(`0x${push.padStart(8, "0").toLowerCase()}`);
+    }
+  }
+
+  return Array.from(selectors);
+}
+
+/**
+ * Match a contract's selectors against the dangerous signature database
+ *
+ * @param codes - Deployed bytecode (0x-prefixed hex); pass a proxy's and its
+ *   implementation's code together to analyze the combined interface
+ * @returns Selectors, dangerous functions and capabilities
+ */
+export function analyzeBytecode(...codes: string[]): BytecodeAnalysis {
+  const selectors = Array.from(new Set(codes.flatMap((code) => extractSelectors(code))));
+  const dangerousFunctions: DangerousFunction[] = [];
+
+  for (const selector of selectors) {
+    const match = DANGEROUS_SELECTORS.get(selector);
+    if (match) {
+      dangerousFunctions.push({ selector, ...match });
+    }
+  }
+
+  return {
+    selectors,
+    dangerous_functions: dangerousFunctions,
+    capabilities: Array.from(new Set(dangerousFunctions.map((fn) => fn.capability))),
+  };
+}
+
+// EIP-1167: 363d3d373d3d3d363d73 <20-byte implementation> 5af43d82803e903d91602b57fd5bf3
+const MINIMAL_PROXY_PATTERN = /^(?:0x)?363d3d373d3d3d363d73([0-9a-f]{40})5af43d82803e903d91602b57fd5bf3$/i;
+
+/**
+ * Implementation address of an EIP-1167 minimal proxy
+ *
+ * @param code - Deployed bytecode (0x-prefixed hex)
+ * @returns The implementation address, or null if the code is not a minimal proxy
+ */
+export function parseMinimalProxy(code: string): string | null {
+  const match = code.match(MINIMAL_PROXY_PATTERN);
+  return match ? `0x${match[1]!.toLowerCase()}` : null;
+}
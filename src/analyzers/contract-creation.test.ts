@@ -0,0 +1,103 @@
+import { describe, expect, test } from "bun:test";
+import { Web3 } from "web3";
+import { StubRpcError, stubProvider } from "../rpc/stub-provider";
+import { findContractCreation, getCreateAddress } from "./contract-creation";
+
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const LATEST_BLOCK = 1_000_000;
+
+/**
+ * Chain where TOKEN has code from `createdAt` on
+ *
+ * Historical blocks below `prunedBelow` fail like on a pruned node.
+ */
+const codeChain = (createdAt: number, queried: number[], prunedBelow = 0) =>
+  new Web3(
+    stubProvider((request) => {
+      const params = request.params ?? [];
+
+      switch (request.method) {
+        case "eth_blockNumber":
+          return "0x" + LATEST_BLOCK.toString(16);
+        case "eth_getCode": {
+          const block = Number(params[1]);
+          queried.push(block);
+          if (block < prunedBelow) throw new StubRpcError(-32000, "missing trie node");
+          return block >= createdAt ? "0x6080" : "0x";
+        }
+        case "eth_getBlockByNumber":
+          return {
+            number: params[0],
+            hash: "0x" + "ab".repeat(32),
+            parentHash: "0x" + "cd".repeat(32),
+            timestamp: "0x" + (1_600_000_000 + Number(params[0])).toString(16),
+            transactions: [],
+          };
+        default:
+          throw new Error(`Unexpected ${request.method}`);
+      }
+    })
+  );
+
+describe("getCreateAddress", () => {
+  const web3 = new Web3();
+  const sender = "0x6ac7ea33f8831ea9dcc53393aaa88b25a785dbf0";
+
+  // Expected addresses from an independent RLP encoder (@ethereumjs/rlp) and keccak256
+  test.each([
+    [0, "0xcd234a471b72ba2f1ccf0a70fcaba648a5eecd8d"],
+    [1, "0x343c43a37d37dff08ae8c4a11544c718abb4fcf8"],
+    [2, "0xf778b86fa74e846c4f0a1fbd1335fe81c00a0c91"],
+    [3, "0xfffd933a0bc612844eaf0c6fe3e5b8e9b6c1d19c"],
+    [0x7f, "0x06d9a77f5e4b311bae8d559db9cdb4df94104aa0"],
+    [0x80, "0x08e190dcb7b73f5fcdabb43e102215c83659a76d"],
+    [0xff, "0x3ef7c1a519e4b4431e317d7839340e3139b03c65"],
+    [0x100, "0x3837c1ae70354f670550c746580199ac6a73cb0a"],
+    [0xffff, "0x65260eecff4edebabe134f76f1f39a91defde56c"],
+    [0x10000, "0xf666a819b370d38f44f2573464da3fba8479b917"],
+  ])("nonce %i", (nonce, expected) => {
+    expect(getCreateAddress(web3, sender, nonce)).toBe(expected);
+  });
+
+  test("accepts checksummed senders", () => {
+    expect(getCreateAddress(web3, web3.utils.toChecksumAddress(sender), 0)).toBe(
+      "0xcd234a471b72ba2f1ccf0a70fcaba648a5eecd8d"
+    );
+  });
+});
+
+describe("findContractCreation", () => {
+  test("binary-searches the first block with code", async () => {
+    const queried: number[] = [];
+    const web3 = codeChain(123_457, queried);
+
+    const creation = await findContractCreation(web3, TOKEN);
+
+    expect(creation).toEqual({ block: 123_457, timestamp: 1_600_123_457 });
+    // The latest block, then one lookup per halving of [0, 1,000,000]
+    expect(queried[0]).toBe(LATEST_BLOCK);
+    expect(queried.length).toBeLessThanOrEqual(21);
+  });
+
+  test("finds contracts created in the genesis and latest blocks", async () => {
+    const genesis = await findContractCreation(codeChain(0, []), TOKEN);
+    const latest = await findContractCreation(codeChain(LATEST_BLOCK, []), TOKEN, BigInt(LATEST_BLOCK));
+
+    expect(genesis?.block).toBe(0);
+    expect(latest?.block).toBe(LATEST_BLOCK);
+  });
+
+  test("returns null for an address without code", async () => {
+    const queried: number[] = [];
+    const web3 = codeChain(LATEST_BLOCK + 1, queried);
+
+    expect(await findContractCreation(web3, TOKEN)).toBeNull();
+    expect(queried).toEqual([LATEST_BLOCK]);
+  });
+
+  test("returns null when historical state is unavailable", async () => {
+    const web3 = codeChain(123_457, [], LATEST_BLOCK - 128);
+
+    expect(await findContractCreation(web3, TOKEN)).toBeNull();
+  });
+});
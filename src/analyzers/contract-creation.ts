@@ -0,0 +1,184 @@
+/**
+ * Contract Creation - When a contract was deployed
+ *
+ * Finds the block a contract was created in by binary-searching `eth_getCode`
+ * over historical blocks: the code is empty before the creation block and
+ * present from then on. Needs an RPC with historical state (archive node);
+ * pruned nodes fail the historical lookups and no block is returned.
+ *
+ * Features:
+ * - O(log n) RPC calls (about 25 on mainnet-sized chains)
+ * - Creation block timestamp for age calculations
+ * - Deployer of contracts created directly by a transaction
+ * - First activity of an account (binary search over its nonce)
+ * - CREATE addresses of an account's deployments
+ */
+
+import type { Web3 } from "web3";
+
+/**
+ * When a contract was created
+ */
+export interface ContractCreation {
+  /** Block the contract was created in */
+  block: number;
+  /** Block timestamp (unix seconds) */
+  timestamp: number;
+}
+
+/**
+ * Find the block a contract was created in
+ *
+ * @param web3 - Web3 instance of the contract's chain
+ * @param address - Contract address
+ * @param latestBlock - Upper bound of the search (defaults to the current block)
+ * @returns Creation block and timestamp, or null if the contract has no code
+ *   or historical state is unavailable
+ *
+ * @example
+ * ```typescript
+ * const creation = await findContractCreation(web3, "0x...");
+ * if (creation) {
+ *   console.log(`Deployed ${Date.now() / 1000 - creation.timestamp}s ago`);
+ * }
+ * ```
+ */
+export async function findContractCreation(
+  web3: Web3,
+  address: string,
+  latestBlock?: bigint
+): Promise<ContractCreation | null> {
+  try {
+    let high = latestBlock ?? (await web3.eth.getBlockNumber());
+    const hasCode = async (block: bigint) => {
+      const code = await web3.eth.getCode(address, block);
+      return Boolean(code && code !== "0x");
+    };
+
+    if (!(await hasCode(high))) return null;
+
+    // Invariant: code exists at `high`, not at `low - 1`
+    let low = 0n;
+    while (low < high) {
+      const mid = (low + high) / 2n;
+      if (await hasCode(mid)) {
+        high = mid;
+      } else {
+        low = mid + 1n;
+      }
+    }
+
+    const block = await web3.eth.getBlock(high);
+    return { block: Number(high), timestamp: Number(block.timestamp) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the account that deployed a contract
+ *
+ * Looks for the contract-creation transaction in the creation block. Contracts
+ * deployed by a factory contract have no such transaction and return null.
+ *
+ * @param web3 - Web3 instance of the contract's chain
+ * @param address - Contract address
+ * @param block - Creation block (from findContractCreation)
+ * @returns Deployer address and transaction hash, or null if not found
+ */
+export async function findDeployer(
+  web3: Web3,
+  address: string,
+  block: number
+): Promise<{ deployer: string; transaction_hash: string } | null> {
+  try {
+    const { transactions } = await web3.eth.getBlock(block, true);
+    const target = address.toLowerCase();
+
+    for (const transaction of transactions) {
+      if (typeof transaction === "string" || transaction.to) continue;
+
+      const receipt = await web3.eth.getTransactionReceipt(String(transaction.hash));
+      if (String(receipt.contractAddress ?? "").toLowerCase() === target) {
+        return {
+          deployer: web3.utils.toChecksumAddress(String(transaction.from)),
+          transaction_hash: String(transaction.hash),
+        };
+      }
+    }
+
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Find the block of an account's first outgoing transaction
+ *
+ * Binary-searches the account nonce over historical blocks (archive RPC).
+ *
+ * @param web3 - Web3 instance of the account's chain
+ * @param address - Account address
+ * @param latestBlock - Upper bound of the search (defaults to the current block)
+ * @returns Block and timestamp of the first transaction, or null if the
+ *   account never sent one or historical state is unavailable
+ */
+export async function findFirstActivity(
+  web3: Web3,
+  address: string,
+  latestBlock?: bigint
+): Promise<ContractCreation | null> {
+  try {
+    let high = latestBlock ?? (await web3.eth.getBlockNumber());
+    const hasSent = async (block: bigint) => BigInt(await web3.eth.getTransactionCount(address, block)) > 0n;
+
+    if (!(await hasSent(high))) return null;
+
+    let low = 0n;
+    while (low < high) {
+      const mid = (low + high) / 2n;
+      if (await hasSent(mid)) {
+        high = mid;
+      } else {
+        low = mid + 1n;
+      }
+    }
+
+    const block = await web3.eth.getBlock(high);
+    return { block: Number(high), timestamp: Number(block.timestamp) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Address of the contract an account creates with a given nonce (CREATE)
+ *
+ * keccak256(rlp([sender, nonce])), last 20 bytes
+ *
+ * @param web3 - Web3 instance (for keccak256)
+ * @param sender - Deploying account
+ * @param nonce - Account nonce of the deployment transaction
+ * @returns Lowercase contract address
+ */
+export function getCreateAddress(web3: Web3, sender: string, nonce: number): string {
+  const senderHex = sender.toLowerCase().replace(/^0x/, "");
+
+  // RLP: 0x80 is the empty string (nonce 0), bytes below 0x80 encode themselves
+  let nonceHex: string;
+  if (nonce === 0) {
+    nonceHex = "80";
+  } else if (nonce < 0x80) {
+    nonceHex = nonce.toString(16).padStart(2, "0");
+  } else {
+    const bytes = nonce.toString(16);
+    const padded = bytes.length % 2 ? "0" + bytes : bytes;
+    nonceHex = (0x80 + padded.length / 2).toString(16) + padded;
+  }
+
+  const payload = "94" + senderHex + nonceHex;
+  const encoded = (0xc0 + payload.length / 2).toString(16) + payload;
+
+  return "0x" + web3.utils.keccak256("0x" + encoded).slice(-40);
+}
@@ -0,0 +1,117 @@
+import { describe, expect, test } from "bun:test";
+import { Web3 } from "web3";
+import { StubRpcError, stubProvider } from "../rpc/stub-provider";
+import { HolderIndexer } from "./holder-indexer";
+
+const abi = new Web3().eth.abi;
+
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const HOLDER = "0x2222222222222222222222222222222222222222";
+const CREATION_BLOCK = 1_000;
+const LATEST_BLOCK = 100_999;
+
+const TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+const topic = (address: string) => abi.encodeParameter("address", address);
+
+/**
+ * Chain whose eth_getLogs rejects ranges wider than `maxRange`
+ *
+ * Every accepted range holds one mint to HOLDER.
+ */
+const logChain = (maxRange: number, ranges: Array<[number, number]>, payloads?: unknown[]) =>
+  stubProvider(
+    (request) => {
+      const params = request.params ?? [];
+
+      switch (request.method) {
+        case "eth_blockNumber":
+          return "0x" + LATEST_BLOCK.toString(16);
+        case "eth_getCode":
+          return Number(params[1]) >= CREATION_BLOCK ? "0x6080" : "0x";
+        case "eth_getBlockByNumber":
+          return {
+            number: params[0],
+            hash: "0x" + "ab".repeat(32),
+            parentHash: "0x" + "cd".repeat(32),
+            timestamp: "0x64",
+            transactions: [],
+          };
+        case "eth_getLogs": {
+          const from = Number(params[0].fromBlock);
+          const to = Number(params[0].toBlock);
+          ranges.push([from, to]);
+          if (to - from + 1 > maxRange) {
+            throw new StubRpcError(-32005, "block range too large");
+          }
+          return [
+            {
+              address: TOKEN,
+              blockNumber: "0x" + from.toString(16),
+              topics: [TRANSFER_TOPIC, topic("0x0000000000000000000000000000000000000000"), topic(HOLDER)],
+              data: abi.encodeParameter("uint256", BigInt(to - from + 1)),
+              logIndex: "0x0",
+              transactionIndex: "0x0",
+              transactionHash: "0x" + "ef".repeat(32),
+              blockHash: "0x" + "ab".repeat(32),
+              removed: false,
+            },
+          ];
+        }
+        default:
+          throw new Error(`Unexpected ${request.method}`);
+      }
+    },
+    { payloads }
+  );
+
+const indexerFor = (maxRange: number, ranges: Array<[number, number]>, maxRequests = 200) =>
+  new HolderIndexer({ 1: logChain(maxRange, ranges) }, { chunkSize: 10_000, maxRequests, timeout: 5_000 });
+
+describe("HolderIndexer", () => {
+  test("replays the whole history in configured chunks", async () => {
+    const ranges: Array<[number, number]> = [];
+    const result = await indexerFor(10_000, ranges).indexToken(TOKEN, 1);
+
+    expect(result.error).toBeUndefined();
+    expect(result.from_block).toBe(CREATION_BLOCK);
+    expect(result.holder_count).toBe(1);
+    expect(result.transfer_count).toBe(10);
+    expect(ranges).toHaveLength(10);
+  });
+
+  test("does not charge rejected ranges to the request budget", async () => {
+    const ranges: Array<[number, number]> = [];
+    // 100,000 blocks at 5,000 per request: 20 requests, within a budget of 25
+    const result = await indexerFor(5_000, ranges, 25).indexToken(TOKEN, 1);
+
+    expect(result.error).toBeUndefined();
+    expect(result.transfer_count).toBe(20);
+  });
+
+  test("widens the range again after it shrank", async () => {
+    const ranges: Array<[number, number]> = [];
+    await indexerFor(5_000, ranges).indexToken(TOKEN, 1);
+
+    const successful = ranges.filter(([from, to]) => to - from + 1 <= 5_000);
+    const rejected = ranges.filter(([from, to]) => to - from + 1 > 5_000);
+
+    // Every rejection is a probe back at the configured size after a few successes
+    expect(rejected.length).toBeGreaterThan(1);
+    expect(rejected.every(([from, to]) => to - from + 1 === 10_000)).toBe(true);
+    expect(successful).toHaveLength(20);
+  });
+
+  test("reuses a creation block it is given instead of looking it up", async () => {
+    const ranges: Array<[number, number]> = [];
+    const payloads: Array<{ method: string }> = [];
+    const indexer = new HolderIndexer({ 1: logChain(10_000, ranges, payloads) }, { chunkSize: 10_000, timeout: 5_000 });
+
+    const result = await indexer.indexToken(TOKEN, 1, { creation: { block: 50_000 } });
+    const methods = payloads.map((payload) => payload.method);
+
+    expect(result.from_block).toBe(50_000);
+    expect(ranges[0]![0]).toBe(50_000);
+    expect(methods).not.toContain("eth_getCode");
+    expect(methods).not.toContain("eth_getBlockByNumber");
+  });
+});
@@ -0,0 +1,465 @@
+/**
+ * Holder Distribution - Balances rebuilt from Transfer logs
+ *
+ * Replays every ERC20 `Transfer` event since the token's creation block
+ * through chunked `eth_getLogs` calls to rebuild holder balances, then
+ * measures how concentrated the circulating supply is. Burn addresses, LP
+ * pools and LP lockers are excluded: their balances are not held by anyone
+ * who can sell.
+ *
+ * Features:
+ * - Adaptive chunk size (halved when the RPC rejects a block range, grown
+ *   back after consecutive successes)
+ * - Request budget so long-lived tokens fail fast instead of scanning for minutes
+ *   (retries of rejected ranges have their own budget)
+ * - Top-N concentration, Gini coefficient and deployer share
+ * - Works when honeypot.is is unavailable
+ */
+
+import { Web3 } from "web3";
+import type { RpcProvider } from "../rpc/rpc-pool";
+import { sumRiskContributions, type Analyzer, type AnalyzerResult } from "./analyzer";
+import { findContractCreation, findDeployer } from "./contract-creation";
+
+/**
+ * An address left out of the distribution
+ */
+export interface ExcludedAddress {
+  /** Address */
+  address: string;
+  /** Why it is excluded ("program": a Solana program-derived account such as an escrow) */
+  label: "burn" | "lp" | "locker" | "program";
+}
+
+/**
+ * A holder and its share of the circulating supply
+ */
+export interface HolderBalance {
+  /** Holder address */
+  address: string;
+  /** Balance in base units (decimal string) */
+  balance: string;
+  /** Share of the circulating supply in percent */
+  percent: number;
+}
+
+/**
+ * Result structure from holder indexing
+ */
+export interface HolderDistribution extends AnalyzerResult {
+  /** Data source identifier */
+  source: string;
+  /** Numerical concentration risk score 0-100 (higher = more dangerous) */
+  risk_score: number;
+  /** Addresses with a non-zero balance (excluded addresses not counted) */
+  holder_count: number | null;
+  /** Share of circulating supply held by the top 10 holders */
+  top_10_holders_percent: number | null;
+  /** Largest holders, biggest first */
+  top_holders: HolderBalance[];
+  /** Gini coefficient of holder balances (0 = equal, 1 = one holder owns everything) */
+  gini: number | null;
+  /** Deployer (when known) */
+  deployer?: string;
+  /** Deployer's share of the circulating supply */
+  deployer_share_percent?: number;
+  /** Sum of non-excluded balances, in base units (decimal string) */
+  circulating_supply?: string;
+  /** Addresses left out of the distribution */
+  excluded: ExcludedAddress[];
+  /** First block scanned (the token's creation block) */
+  from_block?: number;
+  /** Last block scanned */
+  to_block?: number;
+  /** Number of Transfer events replayed */
+  transfer_count?: number;
+  /** Error message if indexing failed */
+  error?: string;
+}
+
+/**
+ * Configuration options for HolderIndexer
+ */
+export interface HolderIndexerOptions {
+  /** Blocks per eth_getLogs call to start with (default 10000) */
+  chunkSize?: number;
+  /** Maximum eth_getLogs calls per token, not counting retries (default 200) */
+  maxRequests?: number;
+  /** Maximum retries of rejected block ranges per token (default 50) */
+  maxRetries?: number;
+  /** Number of top holders returned (default 10) */
+  topHolders?: number;
+  /** RPC request timeout in milliseconds */
+  timeout?: number;
+  /** Weight of concentration risk in the safety score (default 0: rated separately as centralization_risk) */
+  weight?: number;
+  /** Whether to enable verbose logging */
+  verbose?: boolean;
+}
+
+/**
+ * HolderIndexer - Rebuilds token holder balances from Transfer events
+ *
+ * Usage:
+ * ```typescript
+ * const indexer = new HolderIndexer({ 1: "https://eth.llamarpc.com" });
+ * const result = await indexer.indexToken("0x...", 1, {
+ *   exclude: [{ address: "0x...pair", label: "lp" }],
+ * });
+ *
+ * console.log(`Top 10 hold ${result.top_10_holders_percent}%, Gini ${result.gini}`);
+ * ```
+ */
+export class HolderIndexer implements Analyzer<HolderDistribution> {
+  readonly source = "holders";
+  readonly description = "Holder distribution rebuilt from Transfer logs (full analyses)";
+  readonly type = "rpc";
+  readonly weight: number;
+  private web3Instances: Map<number, Web3> = new Map();
+  private readonly chunkSize: number;
+  private readonly maxRequests: number;
+  private readonly maxRetries: number;
+  private readonly topHolders: number;
+  private readonly timeout: number;
+  private readonly verbose: boolean;
+
+  /** keccak256("Transfer(address,address,uint256)") */
+  private readonly TRANSFER_TOPIC = "0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef";
+
+  /** Smallest block range tried before giving up */
+  private readonly MIN_CHUNK_SIZE = 100;
+
+  /** Consecutive successful requests before the block range is doubled again */
+  private readonly GROW_AFTER = 3;
+
+  private readonly BURN_ADDRESSES = [
+    "0x0000000000000000000000000000000000000000",
+    "0x000000000000000000000000000000000000dead",
+  ];
+
+  /**
+   * Initialize indexer with RPC URLs for different chains
+   *
+   * @param rpcUrls - Mapping of chain ID to RPC endpoint URL or pool
+   * @param options - Configuration options
+   */
+  constructor(rpcUrls: Record<number, RpcProvider>, options: HolderIndexerOptions = {}) {
+    this.chunkSize = options.chunkSize || 10000;
+    this.maxRequests = options.maxRequests || 200;
+    this.maxRetries = options.maxRetries ?? 50;
+    this.topHolders = options.topHolders || 10;
+    this.timeout = options.timeout || 15000;
+    this.weight = options.weight ?? 0;
+    this.verbose = options.verbose || false;
+
+    for (const [chainIdStr, rpcUrl] of Object.entries(rpcUrls)) {
+      const chainId = Number(chainIdStr);
+
+      try {
+        this.web3Instances.set(chainId, new Web3(rpcUrl));
+      } catch (error: any) {
+        console.error(`Error initializing Web3 for chain ${chainId}: ${error.message}`);
+      }
+    }
+
+    this.log(`Initialized with ${this.web3Instances.size} chain(s)`);
+  }
+
+  /**
+   * Rebuild balances from Transfer logs and measure concentration
+   *
+   * @param tokenAddress - Token contract address
+   * @param chainId - Blockchain network ID
+   * @param options - Extra addresses to exclude (LP pools, lockers), and the
+   *   creation block and deployer if already known (skips looking them up again)
+   * @returns Promise resolving to the holder distribution
+   */
+  async indexToken(
+    tokenAddress: string,
+    chainId: number,
+    options: { exclude?: ExcludedAddress[]; creation?: { block: number; deployer?: string } } = {}
+  ): Promise<HolderDistribution> {
+    const web3 = this.web3Instances.get(chainId);
+
+    if (!web3) {
+      return this.errorResponse(`Chain ${chainId} not configured`);
+    }
+
+    if (!web3.utils.isAddress(tokenAddress)) {
+      return this.errorResponse("Invalid Ethereum address format");
+    }
+
+    const excluded = this.mergeExcluded(options.exclude ?? []);
+    this.log(`Indexing holders of ${tokenAddress} on chain ${chainId}`);
+
+    try {
+      const latest = await this.withTimeout(() => web3.eth.getBlockNumber(), this.timeout);
+      const creation = options.creation ?? (await findContractCreation(web3, tokenAddress, latest));
+      if (!creation) {
+        return { ...this.errorResponse("Token creation block unknown (archive RPC required)"), excluded };
+      }
+
+      const scan = await this.replayTransfers(web3, tokenAddress, BigInt(creation.block), latest);
+      if (!scan) {
+        return {
+          ...this.errorResponse(`History too long to index within ${this.maxRequests} log requests`),
+          excluded,
+          from_block: creation.block,
+        };
+      }
+
+      const deployer = options.creation
+        ? options.creation.deployer
+        : (await findDeployer(web3, tokenAddress, creation.block))?.deployer;
+      const distribution = this.measure(scan.balances, excluded, deployer);
+
+      const result: HolderDistribution = {
+        source: "holders",
+        ...distribution,
+        deployer,
+        excluded,
+        from_block: creation.block,
+        to_block: Number(latest),
+        transfer_count: scan.transferCount,
+      };
+
+      this.log("Holder indexing complete:", {
+        token: tokenAddress,
+        chainId,
+        holders: result.holder_count,
+        top_10: result.top_10_holders_percent,
+        gini: result.gini,
+      });
+
+      return result;
+    } catch (error: any) {
+      console.error(`Holder indexing error for ${tokenAddress}:`, error.message);
+      return { ...this.errorResponse(`Indexing failed: ${error.message}`), excluded };
+    }
+  }
+
+  /**
+   * Build a result for an indexing run that was intentionally not run
+   */
+  skippedResult(reason: string): HolderDistribution {
+    return this.errorResponse(reason);
+  }
+
+  /**
+   * Check if a specific chain is supported
+   */
+  isChainSupported(chainId: number): boolean {
+    return this.web3Instances.has(chainId);
+  }
+
+  /**
+   * Replay Transfer events into a balance map
+   *
+   * @returns Balances per lowercase address, or null when the request budget ran out
+   */
+  private async replayTransfers(
+    web3: Web3,
+    token: string,
+    fromBlock: bigint,
+    toBlock: bigint
+  ): Promise<{ balances: Map<string, bigint>; transferCount: number } | null> {
+    const balances = new Map<string, bigint>();
+    let transferCount = 0;
+    const maxChunk = BigInt(this.chunkSize);
+    let chunk = maxChunk;
+    let requests = 0;
+    let retries = 0;
+    let streak = 0;
+
+    for (let start = fromBlock; start <= toBlock; ) {
+      if (requests >= this.maxRequests) return null;
+
+      const end = start + chunk - 1n < toBlock ? start + chunk - 1n : toBlock;
+      let logs;
+      try {
+        logs = await this.withTimeout(
+          () =>
+            web3.eth.getPastLogs({
+              address: token,
+              topics: [this.TRANSFER_TOPIC],
+              fromBlock: start,
+              toBlock: end,
+            }),
+          this.timeout
+        );
+      } catch (error: any) {
+        // Most providers cap the block range or result size: retry with a smaller range
+        if (chunk <= BigInt(this.MIN_CHUNK_SIZE) || retries >= this.maxRetries) throw error;
+        retries++;
+        streak = 0;
+        chunk /= 2n;
+        this.log(`getLogs failed (${error.message}), retrying with ${chunk} blocks`);
+        continue;
+      }
+
+      requests++;
+      // The range keeps getting through: widen it again, up to the configured size
+      if (++streak >= this.GROW_AFTER && chunk < maxChunk) {
+        chunk = chunk * 2n < maxChunk ? chunk * 2n : maxChunk;
+        streak = 0;
+      }
+
+      for (const log of logs) {
+        // ERC721 shares the event signature but indexes the token ID (4 topics)
+        if (typeof log === "string" || log.topics?.length !== 3) continue;
+
+        const from = this.topicToAddress(String(log.topics[1]));
+        const to = this.topicToAddress(String(log.topics[2]));
+        const value = log.data && log.data !== "0x" ? BigInt(String(log.data)) : 0n;
+
+        balances.set(from, (balances.get(from) ?? 0n) - value);
+        balances.set(to, (balances.get(to) ?? 0n) + value);
+        transferCount++;
+      }
+
+      start = end + 1n;
+    }
+
+    return { balances, transferCount };
+  }
+
+  /**
+   * Concentration figures over non-excluded positive balances
+   */
+  private measure(
+    balances: Map<string, bigint>,
+    excluded: ExcludedAddress[],
+    deployer?: string
+  ): Pick<
+    HolderDistribution,
+    "risk_score" | "risk_factors" | "holder_count" | "top_10_holders_percent" | "top_holders" | "gini" | "deployer_share_percent" | "circulating_supply"
+  > {
+    const skip = new Set(excluded.map((entry) => entry.address));
+    const holders = Array.from(balances.entries())
+      .filter(([address, balance]) => balance > 0n && !skip.has(address))
+      .sort((a, b) => (b[1] > a[1] ? 1 : b[1] < a[1] ? -1 : 0));
+
+    const circulating = holders.reduce((sum, [, balance]) => sum + balance, 0n);
+    if (circulating === 0n) {
+      return {
+        risk_score: 50,
+        holder_count: 0,
+        top_10_holders_percent: null,
+        top_holders: [],
+        gini: null,
+        circulating_supply: "0",
+      };
+    }
+
+    const share = (balance: bigint) => Number((balance * 1_000_000n) / circulating) / 10_000;
+    const top10 = share(holders.slice(0, 10).reduce((sum, [, balance]) => sum + balance, 0n));
+    const deployerBalance = deployer ? balances.get(deployer.toLowerCase()) ?? 0n : undefined;
+
+    return {
+      ...sumRiskContributions([
+        { factor: "top_10_holders_percent", value: top10, points: this.concentrationToScore(top10) },
+      ]),
+      holder_count: holders.length,
+      top_10_holders_percent: top10,
+      top_holders: holders.slice(0, this.topHolders).map(([address, balance]) => ({
+        address: Web3.utils.toChecksumAddress(address),
+        balance: balance.toString(),
+        percent: share(balance),
+      })),
+      gini: this.gini(holders.map(([, balance]) => balance), circulating),
+      deployer_share_percent:
+        deployerBalance !== undefined && !skip.has(deployer!.toLowerCase())
+          ? share(deployerBalance > 0n ? deployerBalance : 0n)
+          : undefined,
+      circulating_supply: circulating.toString(),
+    };
+  }
+
+  /**
+   * Gini coefficient of balances (computed on shares to stay within double precision)
+   */
+  private gini(balances: bigint[], total: bigint): number {
+    const n = balances.length;
+    if (n < 2) return n === 1 ? 1 : 0;
+
+    // G = 2·Σ(i·xᵢ) / (n·Σxᵢ) − (n+1)/n with xᵢ ascending and i from 1; Σ shares = 1
+    const shares = balances.map((balance) => Number((balance * 1_000_000_000n) / total) / 1e9).sort((a, b) => a - b);
+    const weighted = shares.reduce((sum, x, i) => sum + (i + 1) * x, 0);
+
+    return Math.round(((2 * weighted) / n - (n + 1) / n) * 10000) / 10000;
+  }
+
+  /**
+   * Convert top-10 concentration to a risk score (0-100, higher = more dangerous)
+   */
+  private concentrationToScore(top10Percent: number): number {
+    if (top10Percent > 90) return 90;
+    if (top10Percent > 75) return 70;
+    if (top10Percent > 50) return 45;
+    if (top10Percent > 30) return 20;
+    return 5;
+  }
+
+  /**
+   * Burn addresses plus caller exclusions, lowercased and deduplicated
+   */
+  private mergeExcluded(extra: ExcludedAddress[]): ExcludedAddress[] {
+    const merged = new Map<string, ExcludedAddress>();
+    for (const entry of [
+      ...this.BURN_ADDRESSES.map((address) => ({ address, label: "burn" as const })),
+      ...extra,
+    ]) {
+      const address = entry.address.toLowerCase();
+      if (!merged.has(address)) merged.set(address, { address, label: entry.label });
+    }
+    return Array.from(merged.values());
+  }
+
+  /**
+   * Address from an indexed event topic
+   */
+  private topicToAddress(topic: string): string {
+    return "0x" + topic.slice(-40).toLowerCase();
+  }
+
+  /**
+   * Execute function with timeout
+   */
+  private async withTimeout<T>(fn: () => Promise<T>, timeoutMs: number): Promise<T> {
+    return Promise.race([
+      fn(),
+      new Promise<T>((_, reject) =>
+        setTimeout(() => reject(new Error("Operation timeout")), timeoutMs)
+      ),
+    ]);
+  }
+
+  /**
+   * Create error response with default values
+   */
+  private errorResponse(error: string): HolderDistribution {
+    return {
+      source: "holders",
+      risk_score: 50,
+      holder_count: null,
+      top_10_holders_percent: null,
+      top_holders: [],
+      gini: null,
+      excluded: [],
+      error,
+    };
+  }
+
+  /**
+   * Conditional logging based on verbose flag
+   */
+  private log(message: string, data?: any): void {
+    if (this.verbose) {
+      if (data) {
+        console.log(`[HolderIndexer] ${message}`, data);
+      } else {
+        console.log(`[HolderIndexer] ${message}`);
+      }
+    }
+  }
+}
@@ -16,10 +16,12 @@
  * - Graceful degradation
  */
 
+import { sumRiskContributions, type Analyzer, type AnalyzerResult } from "./analyzer";
+
 /**
  * Result structure from honeypot analysis
  */
-export interface HoneypotCheckResult {
+export interface HoneypotCheckResult extends AnalyzerResult {
   /** Data source identifier */
   source: string;
   /** Risk level: very_low, low, medium, high, very_high, honeypot, unknown */
@@ -79,6 +81,8 @@ export interface HoneypotCheckerOptions {
   maxRetries?: number;
   /** Initial retry delay in milliseconds */
   retryDelay?: number;
+  /** Weight of honeypot.is in the safety score (default 0.45) */
+  weight?: number;
   /** Whether to enable verbose logging */
   verbose?: boolean;
 }
@@ -96,7 +100,11 @@ export interface HoneypotCheckerOptions {
  * }
  * ```
  */
-export class HoneypotChecker {
+export class HoneypotChecker implements Analyzer<HoneypotCheckResult> {
+  readonly source = "honeypot.is";
+  readonly description = "Honeypot detection and token simulation";
+  readonly type = "api";
+  readonly weight: number;
   private readonly baseUrl: string;
   private readonly timeout: number;
   private readonly maxRetries: number;
@@ -108,9 +116,22 @@ export class HoneypotChecker {
     this.timeout = options.timeout || 10000;
     this.maxRetries = options.maxRetries || 2;
     this.retryDelay = options.retryDelay || 1000;
+    this.weight = options.weight ?? 0.45;
     this.verbose = options.verbose || false;
   }
 
+  /**
+   * Confidence added by honeypot.is data: verified source, an active holder
+   * base and real liquidity make its simulation representative
+   */
+  confidence(result: HoneypotCheckResult): number {
+    let confidence = 0;
+    if (result.contract_verified) confidence += 0.1;
+    if ((result.holder_count ?? 0) > 100) confidence += 0.05;
+    if ((result.metadata?.liquidity_usd ?? 0) > 10000) confidence += 0.05;
+    return confidence;
+  }
+
   /**
    * Check if a token is a honeypot
    * 
@@ -158,6 +179,14 @@ export class HoneypotChecker {
     return this.errorResponse("Unexpected error in retry logic");
   }
 
+  /**
+   * Build a result for a check that was intentionally not run
+   * (treated like a failed source by the scoring engine)
+   */
+  skippedResult(reason: string): HoneypotCheckResult {
+    return this.errorResponse(reason);
+  }
+
   /**
    * Make HTTP request to honeypot.is API
    */
@@ -234,7 +263,7 @@ export class HoneypotChecker {
       const result: HoneypotCheckResult = {
         source: "honeypot.is",
         risk_level: risk,
-        risk_score: riskScore,
+        ...sumRiskContributions([{ factor: "risk_level", value: risk, points: riskScore }]),
         is_honeypot: Boolean(honeypotResult.isHoneypot),
         buy_tax: buyTax,
         sell_tax: sellTax,
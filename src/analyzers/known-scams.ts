@@ -0,0 +1,49 @@
+/**
+ * Known Scams - Operator-maintained list of scam tokens and deployers
+ *
+ * Loaded from a JSON file (`KNOWN_SCAMS_FILE`) containing an array of
+ * addresses, either as plain strings or as objects with an `address` field
+ * (extra fields such as `label` or `chain_id` are allowed and ignored):
+ *
+ * ```json
+ * ["0xabc...", { "address": "0xdef...", "label": "rug pull 2024-03" }]
+ * ```
+ */
+
+import { readFileSync } from "fs";
+
+/**
+ * Load known scam addresses from a JSON file
+ *
+ * @param path - Path to the JSON file (an empty list when omitted)
+ * @returns Lowercase addresses; invalid entries are skipped with a warning
+ */
+export function loadKnownScams(path: string | undefined): Set<string> {
+  const addresses = new Set<string>();
+  if (!path) return addresses;
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error: any) {
+    console.warn(`Could not load known scams from ${path}: ${error.message}`);
+    return addresses;
+  }
+
+  if (!Array.isArray(entries)) {
+    console.warn(`Ignoring known scams file ${path}: expected a JSON array`);
+    return addresses;
+  }
+
+  for (const entry of entries) {
+    const address = typeof entry === "string" ? entry : (entry as { address?: unknown })?.address;
+
+    if (typeof address === "string" && /^0x[0-9a-fA-F]{40}$/.test(address)) {
+      addresses.add(address.toLowerCase());
+    } else {
+      console.warn(`Ignoring invalid known scam entry: ${JSON.stringify(entry)}`);
+    }
+  }
+
+  return addresses;
+}
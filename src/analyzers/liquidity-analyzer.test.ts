@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test";
+import { Web3 } from "web3";
+import { StubRpcError, stubProvider } from "../rpc/stub-provider";
+import { type LiquidityChainConfig, LiquidityAnalyzer } from "./liquidity-analyzer";
+
+const abi = new Web3().eth.abi;
+
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const WETH = "0x2222222222222222222222222222222222222222";
+const USDC = "0x3333333333333333333333333333333333333333";
+const FACTORY = "0x4444444444444444444444444444444444444444";
+
+const WETH_POOL = "0x5555555555555555555555555555555555555555";
+const USDC_POOL = "0x6666666666666666666666666666666666666666";
+const PRICE_PAIR = "0x7777777777777777777777777777777777777777";
+
+const CONFIG: LiquidityChainConfig = {
+  v2Factories: [{ name: "Test V2", address: FACTORY }],
+  v3Factories: [],
+  quoteTokens: [WETH, USDC],
+  lockers: [],
+};
+
+const SELECTORS = {
+  getPair: abi.encodeFunctionSignature("getPair(address,address)"),
+  balanceOf: abi.encodeFunctionSignature("balanceOf(address)"),
+  decimals: abi.encodeFunctionSignature("decimals()"),
+  symbol: abi.encodeFunctionSignature("symbol()"),
+  totalSupply: abi.encodeFunctionSignature("totalSupply()"),
+};
+
+const pairKey = (a: string, b: string) => [a, b].sort().join(":");
+
+/**
+ * Chain serving pairs and balances from fixed tables
+ *
+ * LP supplies are keyed `<pair>:supply`; a `null` balance reverts.
+ */
+const poolChain = (pairs: Record<string, string>, balances: Record<string, bigint | null>) =>
+  stubProvider((request) => {
+    if (request.method === "eth_blockNumber") return "0x100";
+    if (request.method === "eth_getCode") return "0x";
+    if (request.method !== "eth_call") throw new Error(`Unexpected ${request.method}`);
+
+    const to = String(request.params![0].to).toLowerCase();
+    const data = String(request.params![0].input ?? request.params![0].data);
+    const selector = data.slice(0, 10);
+    const args = "0x" + data.slice(10);
+
+    switch (selector) {
+      case SELECTORS.getPair: {
+        const decoded = abi.decodeParameters(["address", "address"], args) as any;
+        const pair = pairs[pairKey(decoded[0].toLowerCase(), decoded[1].toLowerCase())];
+        return abi.encodeParameter("address", pair ?? "0x0000000000000000000000000000000000000000");
+      }
+      case SELECTORS.balanceOf: {
+        const holder = String(abi.decodeParameter("address", args)).toLowerCase();
+        const balance = balances[`${to}:${holder}`];
+        if (balance === null) throw new StubRpcError(3, "execution reverted");
+        return abi.encodeParameter("uint256", balance ?? 0n);
+      }
+      case SELECTORS.decimals:
+        return abi.encodeParameter("uint8", to === USDC ? 6 : 18);
+      case SELECTORS.symbol:
+        return abi.encodeParameter("string", to === USDC ? "USDC" : "WETH");
+      case SELECTORS.totalSupply:
+        return abi.encodeParameter("uint256", balances[`${to}:supply`] ?? 0n);
+      default:
+        throw new Error(`Unexpected call ${selector} to ${to}`);
+    }
+  });
+
+const analyzerFor = (pairs: Record<string, string>, balances: Record<string, bigint | null>) =>
+  new LiquidityAnalyzer({ 1: poolChain(pairs, balances) }, { chains: { 1: CONFIG } });
+
+describe("LiquidityAnalyzer", () => {
+  // WETH pool: most of the supply but 1 WETH; USDC pool: few tokens but 30,000 USDC
+  const balances = {
+    [`${TOKEN}:${WETH_POOL}`]: 900_000n * 10n ** 18n,
+    [`${WETH}:${WETH_POOL}`]: 10n ** 18n,
+    [`${TOKEN}:${USDC_POOL}`]: 1_000n * 10n ** 18n,
+    [`${USDC}:${USDC_POOL}`]: 30_000n * 10n ** 6n,
+    // 3,000 USDC per WETH
+    [`${WETH}:${PRICE_PAIR}`]: 100n * 10n ** 18n,
+    [`${USDC}:${PRICE_PAIR}`]: 300_000n * 10n ** 6n,
+  };
+  const pairs = {
+    [pairKey(TOKEN, WETH)]: WETH_POOL,
+    [pairKey(TOKEN, USDC)]: USDC_POOL,
+    [pairKey(USDC, WETH)]: PRICE_PAIR,
+  };
+
+  test("picks the pool with the deepest quote-side liquidity", async () => {
+    const result = await analyzerFor(pairs, balances).analyzeToken(TOKEN, 1);
+
+    expect(result.error).toBeUndefined();
+    expect(result.primary_pool?.toLowerCase()).toBe(USDC_POOL);
+    expect(result.pools.map((pool) => pool.address.toLowerCase())).toEqual([USDC_POOL, WETH_POOL]);
+    expect(result.pools[0]!.quote_reserve_native).toBe((10n ** 19n).toString());
+    expect(result.pools[1]!.quote_reserve_native).toBe((10n ** 18n).toString());
+  });
+
+  test("prefers the wrapped native pool when stables cannot be priced", async () => {
+    const { [pairKey(USDC, WETH)]: _unpriced, ...withoutPricePair } = pairs;
+    const result = await analyzerFor(withoutPricePair, balances).analyzeToken(TOKEN, 1);
+
+    expect(result.primary_pool?.toLowerCase()).toBe(WETH_POOL);
+    expect(result.pools[1]!.quote_reserve_native).toBeUndefined();
+  });
+
+  test("keeps a pool whose LP balances cannot all be read", async () => {
+    const result = await analyzerFor(pairs, {
+      ...balances,
+      [`${WETH_POOL}:supply`]: 1_000n,
+      [`${WETH_POOL}:0x000000000000000000000000000000000000dead`]: null,
+    }).analyzeToken(TOKEN, 1);
+
+    const pool = result.pools.find((pool) => pool.address.toLowerCase() === WETH_POOL);
+    expect(pool).toBeDefined();
+    expect(pool!.lp_burned_percent).toBeUndefined();
+    expect(pool!.lp_locked_percent).toBe(0);
+  });
+});
@@ -0,0 +1,593 @@
+/**
+ * Liquidity Analysis - DEX pool discovery and LP lock/burn detection
+ *
+ * Finds a token's Uniswap V2- and V3-style pools through known factory
+ * contracts, reads their reserves and works out how much of the liquidity
+ * can be pulled: V2 LP tokens sent to burn addresses or held by known locker
+ * contracts cannot be redeemed by the deployer.
+ *
+ * Features:
+ * - V2 pairs (getPair) and V3 pools (getPool, all common fee tiers)
+ * - Pairs against the wrapped native currency and major stablecoins
+ * - Primary pool by quote-side liquidity, valued in wrapped native
+ * - Burned and locked LP share per V2 pair
+ * - Pool age from the pool's creation block (needs an archive RPC)
+ * - Rug-pull risk score from first-party data
+ */
+
+import { Web3 } from "web3";
+import type { RpcProvider } from "../rpc/rpc-pool";
+import { sumRiskContributions, type Analyzer, type AnalyzerResult, type RiskContribution } from "./analyzer";
+import { findContractCreation } from "./contract-creation";
+import { formatTokenAmount, parseUint256 } from "./token-amounts";
+
+/**
+ * Pool factories, quote tokens and lockers of one chain
+ */
+export interface LiquidityChainConfig {
+  /** Uniswap V2-style factories (getPair) */
+  v2Factories: Array<{ name: string; address: string }>;
+  /** Uniswap V3-style factories (getPool) */
+  v3Factories: Array<{ name: string; address: string }>;
+  /** Tokens pools are looked up against (wrapped native first) */
+  quoteTokens: string[];
+  /** LP locker contracts (LP tokens they hold count as locked) */
+  lockers: Array<{ name: string; address: string }>;
+}
+
+/**
+ * A discovered liquidity pool
+ */
+export interface PoolInfo {
+  /** Pool address */
+  address: string;
+  /** DEX name */
+  dex: string;
+  /** Pool type */
+  version: "v2" | "v3";
+  /** V3 fee tier in hundredths of a bip (e.g. 3000 = 0.3%) */
+  fee?: number;
+  /** Token the analyzed token is paired with */
+  quote_token: string;
+  /** Quote token symbol */
+  quote_symbol?: string;
+  /** Analyzed token held by the pool, in base units (decimal string) */
+  token_reserve: string;
+  /** Quote token held by the pool, in base units (decimal string) */
+  quote_reserve: string;
+  /** Quote reserve adjusted for the quote token's decimals */
+  quote_reserve_formatted?: string;
+  /** Quote reserve valued in wrapped native base units (decimal string; unset if unpriced) */
+  quote_reserve_native?: string;
+  /** Share of LP tokens sent to burn addresses (V2 only) */
+  lp_burned_percent?: number;
+  /** Share of LP tokens held by known lockers (V2 only) */
+  lp_locked_percent?: number;
+  /** Lockers holding LP tokens */
+  lockers?: string[];
+  /** Block the pool was created in */
+  created_block?: number;
+  /** Pool age in seconds */
+  age_seconds?: number;
+}
+
+/**
+ * Result structure from liquidity analysis
+ */
+export interface LiquidityAnalysis extends AnalyzerResult {
+  /** Data source identifier */
+  source: string;
+  /** Numerical rug-pull risk score 0-100 (higher = more dangerous) */
+  risk_score: number;
+  /** Pools with liquidity, deepest quote-side liquidity first */
+  pools: PoolInfo[];
+  /** Pool with the deepest quote-side liquidity */
+  primary_pool?: string;
+  /** Burned share of the primary pool's LP tokens (V2 only) */
+  lp_burned_percent?: number;
+  /** Locked share of the primary pool's LP tokens (V2 only) */
+  lp_locked_percent?: number;
+  /** Age of the oldest pool in seconds */
+  pool_age_seconds?: number;
+  /** Error message if the analysis failed */
+  error?: string;
+}
+
+/**
+ * Configuration options for LiquidityAnalyzer
+ */
+export interface LiquidityAnalyzerOptions {
+  /** Factories, quote tokens and lockers per chain (see `ChainRegistry.liquidityConfig()`) */
+  chains?: Record<number, LiquidityChainConfig>;
+  /** RPC request timeout in milliseconds */
+  timeout?: number;
+  /** Weight of rug-pull risk in the safety score (default 0: rated separately as liquidity_risk) */
+  weight?: number;
+  /** Whether to enable verbose logging */
+  verbose?: boolean;
+}
+
+/**
+ * LiquidityAnalyzer - Finds a token's DEX pools and checks whether liquidity can be pulled
+ *
+ * Usage:
+ * ```typescript
+ * const analyzer = new LiquidityAnalyzer(registry.rpcUrls(), { chains: registry.liquidityConfig() });
+ * const result = await analyzer.analyzeToken("0x...", 1);
+ *
+ * console.log(`Primary pool: ${result.primary_pool}`);
+ * console.log(`LP burned: ${result.lp_burned_percent}%, locked: ${result.lp_locked_percent}%`);
+ * ```
+ */
+export class LiquidityAnalyzer implements Analyzer<LiquidityAnalysis> {
+  readonly source = "liquidity";
+  readonly description = "DEX pool discovery and LP burn/lock detection (full analyses)";
+  readonly type = "rpc";
+  readonly weight: number;
+  private web3Instances: Map<number, Web3> = new Map();
+  private readonly chains: Record<number, LiquidityChainConfig>;
+  private readonly timeout: number;
+  private readonly verbose: boolean;
+
+  /**
+   * Factory, pool and ERC20 functions used for discovery
+   */
+  private readonly POOL_ABI = [
+    {
+      inputs: [{ name: "tokenA", type: "address" }, { name: "tokenB", type: "address" }],
+      name: "getPair",
+      outputs: [{ name: "", type: "address" }],
+      stateMutability: "view",
+      type: "function",
+    },
+    {
+      inputs: [
+        { name: "tokenA", type: "address" },
+        { name: "tokenB", type: "address" },
+        { name: "fee", type: "uint24" },
+      ],
+      name: "getPool",
+      outputs: [{ name: "", type: "address" }],
+      stateMutability: "view",
+      type: "function",
+    },
+    { inputs: [], name: "totalSupply", outputs: [{ name: "", type: "uint256" }], stateMutability: "view", type: "function" },
+    {
+      inputs: [{ name: "account", type: "address" }],
+      name: "balanceOf",
+      outputs: [{ name: "", type: "uint256" }],
+      stateMutability: "view",
+      type: "function",
+    },
+    { inputs: [], name: "decimals", outputs: [{ name: "", type: "uint8" }], stateMutability: "view", type: "function" },
+    { inputs: [], name: "symbol", outputs: [{ name: "", type: "string" }], stateMutability: "view", type: "function" },
+  ] as const;
+
+  /** V3 fee tiers probed per quote token */
+  private readonly V3_FEE_TIERS = [100, 500, 3000, 10000];
+
+  /** LP tokens held here can never be redeemed */
+  private readonly BURN_ADDRESSES = [
+    "0x0000000000000000000000000000000000000000",
+    "0x000000000000000000000000000000000000dead",
+  ];
+
+  private readonly ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+  /**
+   * Initialize analyzer with RPC URLs for different chains
+   *
+   * @param rpcUrls - Mapping of chain ID to RPC endpoint URL or pool
+   * @param options - Configuration options
+   */
+  constructor(rpcUrls: Record<number, RpcProvider>, options: LiquidityAnalyzerOptions = {}) {
+    this.chains = options.chains ?? {};
+    this.timeout = options.timeout || 5000;
+    this.weight = options.weight ?? 0;
+    this.verbose = options.verbose || false;
+
+    for (const [chainIdStr, rpcUrl] of Object.entries(rpcUrls)) {
+      const chainId = Number(chainIdStr);
+      if (!this.chains[chainId]) continue;
+
+      try {
+        this.web3Instances.set(chainId, new Web3(rpcUrl));
+      } catch (error: any) {
+        console.error(`Error initializing Web3 for chain ${chainId}: ${error.message}`);
+      }
+    }
+
+    this.log(`Initialized with ${this.web3Instances.size} chain(s)`);
+  }
+
+  /**
+   * Discover a token's pools and analyze their liquidity
+   *
+   * @param tokenAddress - Token contract address
+   * @param chainId - Blockchain network ID
+   * @returns Promise resolving to the liquidity analysis
+   */
+  async analyzeToken(tokenAddress: string, chainId: number): Promise<LiquidityAnalysis> {
+    const web3 = this.web3Instances.get(chainId);
+    const config = this.chains[chainId];
+
+    if (!web3 || !config) {
+      return this.errorResponse(`Liquidity analysis not configured for chain ${chainId}`);
+    }
+
+    if (!web3.utils.isAddress(tokenAddress)) {
+      return this.errorResponse("Invalid Ethereum address format");
+    }
+
+    const token = tokenAddress.toLowerCase();
+    this.log(`Discovering pools for ${token} on chain ${chainId}`);
+
+    try {
+      const quoteTokens = config.quoteTokens.filter((quote) => quote.toLowerCase() !== token);
+      const candidates = await this.discoverPools(web3, config, token, quoteTokens);
+
+      const pools = (
+        await Promise.all(candidates.map((candidate) => this.readPool(web3, config, token, candidate)))
+      ).filter((pool): pool is PoolInfo => pool !== null && BigInt(pool.token_reserve) > 0n);
+
+      // Rank by what can actually be withdrawn: the token side of a pool is
+      // trivially inflated, the quote side is what a rug pull takes out
+      await this.valueQuoteReserves(web3, config, token, pools);
+      pools.sort((a, b) => this.compareLiquidity(config, a, b));
+
+      const primary = pools[0];
+      if (!primary) {
+        return { source: "liquidity", ...this.riskScore(undefined), pools: [] };
+      }
+
+      // Only the primary pool's age is looked up: it costs ~25 historical getCode calls
+      const latest = await this.withTimeout(() => web3.eth.getBlockNumber(), this.timeout);
+      const creation = await findContractCreation(web3, primary.address, latest);
+      if (creation) {
+        primary.created_block = creation.block;
+        primary.age_seconds = Math.max(0, Math.floor(Date.now() / 1000) - creation.timestamp);
+      }
+
+      const result: LiquidityAnalysis = {
+        source: "liquidity",
+        ...this.riskScore(primary),
+        pools,
+        primary_pool: primary.address,
+        lp_burned_percent: primary.lp_burned_percent,
+        lp_locked_percent: primary.lp_locked_percent,
+        pool_age_seconds: primary.age_seconds,
+      };
+
+      this.log("Liquidity analysis complete:", {
+        token,
+        chainId,
+        pools: pools.length,
+        primary_pool: result.primary_pool,
+        risk_score: result.risk_score,
+      });
+
+      return result;
+    } catch (error: any) {
+      console.error(`Liquidity analysis error for ${tokenAddress}:`, error.message);
+      return this.errorResponse(`Analysis failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Build a result for an analysis that was intentionally not run
+   */
+  skippedResult(reason: string): LiquidityAnalysis {
+    return this.errorResponse(reason);
+  }
+
+  /**
+   * Known LP locker contracts of a chain
+   */
+  getLockers(chainId: number): Array<{ name: string; address: string }> {
+    return this.chains[chainId]?.lockers ?? [];
+  }
+
+  /**
+   * Check if a specific chain is supported
+   */
+  isChainSupported(chainId: number): boolean {
+    return this.web3Instances.has(chainId);
+  }
+
+  /**
+   * Ask every factory for a pool against every quote token
+   */
+  private async discoverPools(
+    web3: Web3,
+    config: LiquidityChainConfig,
+    token: string,
+    quoteTokens: string[]
+  ): Promise<Array<{ address: string; dex: string; version: "v2" | "v3"; fee?: number; quote: string }>> {
+    const lookups: Array<Promise<{ address: string; dex: string; version: "v2" | "v3"; fee?: number; quote: string } | null>> = [];
+
+    for (const quote of quoteTokens) {
+      for (const factory of config.v2Factories) {
+        const contract: any = new web3.eth.Contract(this.POOL_ABI as any, factory.address);
+        lookups.push(
+          this.lookupPool(() => contract.methods.getPair(token, quote).call()).then((address) =>
+            address ? { address, dex: factory.name, version: "v2" as const, quote } : null
+          )
+        );
+      }
+
+      for (const factory of config.v3Factories) {
+        const contract: any = new web3.eth.Contract(this.POOL_ABI as any, factory.address);
+        for (const fee of this.V3_FEE_TIERS) {
+          lookups.push(
+            this.lookupPool(() => contract.methods.getPool(token, quote, fee).call()).then((address) =>
+              address ? { address, dex: factory.name, version: "v3" as const, fee, quote } : null
+            )
+          );
+        }
+      }
+    }
+
+    const found = await Promise.all(lookups);
+    return found.filter((pool) => pool !== null);
+  }
+
+  /**
+   * Pool address from a factory lookup (null when the factory has none)
+   */
+  private async lookupPool(call: () => Promise<unknown>): Promise<string | null> {
+    try {
+      const address = String(await this.withTimeout(call, this.timeout)).toLowerCase();
+      return address === this.ZERO_ADDRESS ? null : address;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Read reserves and LP distribution of a pool
+   */
+  private async readPool(
+    web3: Web3,
+    config: LiquidityChainConfig,
+    token: string,
+    candidate: { address: string; dex: string; version: "v2" | "v3"; fee?: number; quote: string }
+  ): Promise<PoolInfo | null> {
+    const tokenContract: any = new web3.eth.Contract(this.POOL_ABI as any, token);
+    const quoteContract: any = new web3.eth.Contract(this.POOL_ABI as any, candidate.quote);
+
+    try {
+      // Pool balances work for V2 and V3 alike (V2 reserves may lag by unsynced transfers)
+      const [tokenReserve, quoteReserve, quoteDecimals, quoteSymbol] = await Promise.allSettled([
+        this.withTimeout(() => tokenContract.methods.balanceOf(candidate.address).call(), this.timeout),
+        this.withTimeout(() => quoteContract.methods.balanceOf(candidate.address).call(), this.timeout),
+        this.withTimeout(() => quoteContract.methods.decimals().call(), this.timeout),
+        this.withTimeout(() => quoteContract.methods.symbol().call(), this.timeout),
+      ]);
+
+      const tokenAmount = tokenReserve.status === "fulfilled" ? parseUint256(tokenReserve.value) : undefined;
+      const quoteAmount = quoteReserve.status === "fulfilled" ? parseUint256(quoteReserve.value) : undefined;
+      if (tokenAmount === undefined || quoteAmount === undefined) return null;
+
+      const pool: PoolInfo = {
+        address: web3.utils.toChecksumAddress(candidate.address),
+        dex: candidate.dex,
+        version: candidate.version,
+        fee: candidate.fee,
+        quote_token: web3.utils.toChecksumAddress(candidate.quote),
+        quote_symbol: quoteSymbol.status === "fulfilled" ? String(quoteSymbol.value) : undefined,
+        token_reserve: tokenAmount.toString(),
+        quote_reserve: quoteAmount.toString(),
+        quote_reserve_formatted:
+          quoteDecimals.status === "fulfilled"
+            ? formatTokenAmount(quoteAmount, Number(quoteDecimals.value))
+            : undefined,
+      };
+
+      // V3 liquidity is held as NFT positions: there is no LP token to burn or lock
+      if (candidate.version === "v2") {
+        Object.assign(pool, await this.readLpDistribution(web3, config, candidate.address));
+      }
+
+      return pool;
+    } catch (error: any) {
+      this.log(`Could not read pool ${candidate.address}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Value each pool's quote reserve in wrapped native base units
+   *
+   * Stablecoins are priced from their pair against the wrapped native
+   * currency on the first V2 factory; pools whose quote token cannot be
+   * priced keep `quote_reserve_native` unset.
+   */
+  private async valueQuoteReserves(
+    web3: Web3,
+    config: LiquidityChainConfig,
+    token: string,
+    pools: PoolInfo[]
+  ): Promise<void> {
+    const wrappedNative = config.quoteTokens[0]?.toLowerCase();
+    const factory = config.v2Factories[0];
+    if (!wrappedNative || wrappedNative === token) return;
+
+    const quotes = [...new Set(pools.map((pool) => pool.quote_token.toLowerCase()))];
+    const prices = new Map<string, { native: bigint; quote: bigint }>();
+
+    await Promise.all(
+      quotes.map(async (quote) => {
+        if (quote === wrappedNative) {
+          prices.set(quote, { native: 1n, quote: 1n });
+          return;
+        }
+        if (!factory) return;
+
+        const contract: any = new web3.eth.Contract(this.POOL_ABI as any, factory.address);
+        const pair = await this.lookupPool(() => contract.methods.getPair(quote, wrappedNative).call());
+        if (!pair) return;
+
+        const balanceOf = (asset: string) => {
+          const erc20: any = new web3.eth.Contract(this.POOL_ABI as any, asset);
+          return this.withTimeout(() => erc20.methods.balanceOf(pair).call(), this.timeout)
+            .then(parseUint256)
+            .catch(() => undefined);
+        };
+        const [native, quoteBalance] = await Promise.all([balanceOf(wrappedNative), balanceOf(quote)]);
+        if (native && quoteBalance) {
+          prices.set(quote, { native, quote: quoteBalance });
+        }
+      })
+    );
+
+    for (const pool of pools) {
+      const price = prices.get(pool.quote_token.toLowerCase());
+      if (price) {
+        pool.quote_reserve_native = ((BigInt(pool.quote_reserve) * price.native) / price.quote).toString();
+      }
+    }
+  }
+
+  /**
+   * Order pools by quote-side liquidity: priced pools by their value in
+   * wrapped native, then unpriced ones by quote token preference and reserve
+   */
+  private compareLiquidity(config: LiquidityChainConfig, a: PoolInfo, b: PoolInfo): number {
+    const compare = (x: bigint, y: bigint) => (x > y ? -1 : x < y ? 1 : 0);
+
+    if (a.quote_reserve_native !== undefined && b.quote_reserve_native !== undefined) {
+      return compare(BigInt(a.quote_reserve_native), BigInt(b.quote_reserve_native));
+    }
+    if (a.quote_reserve_native !== undefined) return -1;
+    if (b.quote_reserve_native !== undefined) return 1;
+
+    const preference = (pool: PoolInfo) =>
+      config.quoteTokens.findIndex((quote) => quote.toLowerCase() === pool.quote_token.toLowerCase());
+    return preference(a) - preference(b) || compare(BigInt(a.quote_reserve), BigInt(b.quote_reserve));
+  }
+
+  /**
+   * Burned and locked share of a V2 pair's LP tokens
+   *
+   * Reads that fail leave their share unset rather than dropping the pool.
+   */
+  private async readLpDistribution(
+    web3: Web3,
+    config: LiquidityChainConfig,
+    pair: string
+  ): Promise<Pick<PoolInfo, "lp_burned_percent" | "lp_locked_percent" | "lockers">> {
+    const lp: any = new web3.eth.Contract(this.POOL_ABI as any, pair);
+    const balanceOf = async (holder: string) =>
+      parseUint256(await this.withTimeout(() => lp.methods.balanceOf(holder).call(), this.timeout)) ?? 0n;
+
+    const [supplyResult, ...balanceResults] = await Promise.allSettled([
+      this.withTimeout(() => lp.methods.totalSupply().call(), this.timeout).then(parseUint256),
+      ...this.BURN_ADDRESSES.map(balanceOf),
+      ...config.lockers.map((locker) => balanceOf(locker.address)),
+    ]);
+    const burnResults = balanceResults.slice(0, this.BURN_ADDRESSES.length);
+    const lockerResults = balanceResults.slice(this.BURN_ADDRESSES.length);
+
+    if (supplyResult.status === "rejected") {
+      this.log(`Could not read LP supply of ${pair}: ${supplyResult.reason?.message}`);
+      return {};
+    }
+    const totalSupply = supplyResult.value;
+    if (!totalSupply) return {};
+
+    // A share is only known when every balance behind it was read
+    const sum = (results: PromiseSettledResult<bigint | undefined>[]) =>
+      results.reduce<bigint | undefined>(
+        (total, result) =>
+          total !== undefined && result.status === "fulfilled" ? total + (result.value ?? 0n) : undefined,
+        0n
+      );
+    const burned = sum(burnResults);
+    const locked = sum(lockerResults);
+    if (burned === undefined || locked === undefined) {
+      this.log(`Could not read every LP balance of ${pair}`);
+    }
+
+    return {
+      lp_burned_percent: burned === undefined ? undefined : this.percent(burned, totalSupply),
+      lp_locked_percent: locked === undefined ? undefined : this.percent(locked, totalSupply),
+      lockers: config.lockers
+        .filter((_, i) => {
+          const result = lockerResults[i];
+          return result?.status === "fulfilled" && (result.value ?? 0n) > 0n;
+        })
+        .map((locker) => locker.name),
+    };
+  }
+
+  /**
+   * Rug-pull risk from the primary pool (0-100, higher = more dangerous)
+   * - No pool: nothing to trade against
+   * - V2: by the share of LP tokens that cannot be redeemed
+   * - V3: lock status unknown
+   * - Pools younger than a week add risk
+   */
+  private riskScore(primary: PoolInfo | undefined): Pick<LiquidityAnalysis, "risk_score" | "risk_factors"> {
+    if (!primary) return sumRiskContributions([{ factor: "primary_pool", value: null, points: 70 }]);
+
+    const factors: RiskContribution[] = [];
+    if (primary.version === "v2") {
+      const secured = (primary.lp_burned_percent ?? 0) + (primary.lp_locked_percent ?? 0);
+      const points = secured >= 95 ? 5 : secured >= 80 ? 15 : secured >= 50 ? 40 : 70;
+      factors.push({ factor: "lp_secured_percent", value: secured, points });
+    } else {
+      factors.push({ factor: "pool_version", value: primary.version, points: 50 });
+    }
+
+    const age = primary.age_seconds;
+    if (age !== undefined && age < 7 * 86400) {
+      factors.push({ factor: "pool_age_seconds", value: age, points: age < 86400 ? 20 : 10 });
+    }
+
+    return sumRiskContributions(factors);
+  }
+
+  /**
+   * Share of a total in percent, two decimals
+   */
+  private percent(part: bigint, total: bigint): number {
+    return Number((part * 10000n) / total) / 100;
+  }
+
+  /**
+   * Execute function with timeout
+   */
+  private async withTimeout<T>(fn: () => Promise<T>, timeoutMs: number): Promise<T> {
+    return Promise.race([
+      fn(),
+      new Promise<T>((_, reject) =>
+        setTimeout(() => reject(new Error("Operation timeout")), timeoutMs)
+      ),
+    ]);
+  }
+
+  /**
+   * Create error response with default values
+   */
+  private errorResponse(error: string): LiquidityAnalysis {
+    return {
+      source: "liquidity",
+      risk_score: 50,
+      pools: [],
+      error,
+    };
+  }
+
+  /**
+   * Conditional logging based on verbose flag
+   */
+  private log(message: string, data?: any): void {
+    if (this.verbose) {
+      if (data) {
+        console.log(`[LiquidityAnalyzer] ${message}`, data);
+      } else {
+        console.log(`[LiquidityAnalyzer] ${message}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,64 @@
+import { describe, expect, test } from "bun:test";
+import { Web3 } from "web3";
+import { StubRpcError, stubProvider } from "../rpc/stub-provider";
+import { MulticallBatcher } from "./multicall";
+
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const OWNER = "0x2222222222222222222222222222222222222222";
+const SLOT = "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc";
+
+const CODE: Record<string, string> = { [TOKEN]: "0x6080", [OWNER]: "0x" };
+const STORAGE = "0x" + "00".repeat(12) + "33".repeat(20);
+
+/**
+ * Chain answering state reads, single or batched
+ *
+ * Batch responses come back reversed, the way some endpoints reorder them.
+ */
+const stateChain = (payloads: unknown[], batches = true) =>
+  stubProvider(
+    (request) => {
+      if (request.method === "eth_getCode") return CODE[request.params![0]] ?? "0x";
+      if (request.method === "eth_getStorageAt") return STORAGE;
+      throw new StubRpcError(-32601, "method not found");
+    },
+    { payloads, batches: batches && "reversed" }
+  );
+
+const batcherFor = (payloads: unknown[], batches?: boolean) => new MulticallBatcher(new Web3(stateChain(payloads, batches)));
+
+describe("MulticallBatcher state reads", () => {
+  test("sends concurrent bytecode and storage reads as one JSON-RPC batch", async () => {
+    const payloads: unknown[] = [];
+    const batcher = batcherFor(payloads);
+
+    const [tokenCode, ownerCode, slot] = await Promise.all([
+      batcher.getCode(TOKEN),
+      batcher.getCode(OWNER),
+      batcher.getStorageAt(TOKEN, SLOT),
+    ]);
+
+    expect(tokenCode).toBe("0x6080");
+    expect(ownerCode).toBe("0x");
+    expect(slot).toBe(STORAGE);
+    expect(payloads).toHaveLength(1);
+    expect((payloads[0] as any[]).map((request) => request.method)).toEqual([
+      "eth_getCode",
+      "eth_getCode",
+      "eth_getStorageAt",
+    ]);
+  });
+
+  test("falls back to individual requests when the endpoint rejects batches", async () => {
+    const payloads: unknown[] = [];
+    const batcher = batcherFor(payloads, false);
+
+    const codes = await Promise.all([batcher.getCode(TOKEN), batcher.getCode(OWNER)]);
+    expect(codes).toEqual(["0x6080", "0x"]);
+
+    // Batches are not tried again on this endpoint
+    payloads.length = 0;
+    await Promise.all([batcher.getCode(TOKEN), batcher.getCode(OWNER)]);
+    expect(payloads.every((payload) => !Array.isArray(payload))).toBe(true);
+  });
+});
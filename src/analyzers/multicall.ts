@@ -0,0 +1,281 @@
+/**
+ * Multicall - Batched contract reads through Multicall3
+ *
+ * Collects the read calls issued in the same tick and sends them as a single
+ * `aggregate3` call, so an analysis that fans out into dozens of getters costs
+ * one RPC round trip instead of dozens. Failing calls are reported per call
+ * (allowFailure), just like a reverted `eth_call`.
+ *
+ * State reads Multicall3 cannot make (`eth_getCode`, `eth_getStorageAt`) are
+ * collected the same way and sent as one JSON-RPC batch request.
+ *
+ * Features:
+ * - Automatic batching of concurrent calls (no call-site bookkeeping)
+ * - Batch size limit to stay below RPC gas caps
+ * - Fallback to individual `eth_call`s when Multicall3 is missing or the batch fails
+ * - Bytecode and storage reads batched into a single JSON-RPC request
+ * - Fallback to individual requests when the endpoint rejects batches
+ */
+
+import type { JsonRpcRequest, Web3 } from "web3";
+
+/** Canonical Multicall3 deployment (same address on every supported chain) */
+export const MULTICALL3_ADDRESS = "0xca11bde05977b3631167028862be2a173976ca11";
+
+const AGGREGATE3_ABI = {
+  name: "aggregate3",
+  type: "function",
+  inputs: [
+    {
+      name: "calls",
+      type: "tuple[]",
+      components: [
+        { name: "target", type: "address" },
+        { name: "allowFailure", type: "bool" },
+        { name: "callData", type: "bytes" },
+      ],
+    },
+  ],
+} as const;
+
+/**
+ * Configuration options for MulticallBatcher
+ */
+export interface MulticallOptions {
+  /** Batch through Multicall3 and JSON-RPC batches (default true); false sends every call on its own */
+  enabled?: boolean;
+  /** Maximum calls per aggregate3 and requests per JSON-RPC batch (default 100) */
+  maxBatchSize?: number;
+  /** Whether to enable verbose logging */
+  verbose?: boolean;
+}
+
+/**
+ * A call waiting for the next batch
+ */
+interface PendingCall {
+  target: string;
+  data: string;
+  resolve: (returnData: string) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * A JSON-RPC state read waiting for the next batch
+ */
+interface PendingRequest {
+  method: "eth_getCode" | "eth_getStorageAt";
+  params: string[];
+  resolve: (result: string) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * MulticallBatcher - Coalesces concurrent eth_calls of one chain
+ *
+ * Usage:
+ * ```typescript
+ * const batcher = new MulticallBatcher(web3);
+ *
+ * // Both calls go out in one aggregate3
+ * const [name, symbol] = await Promise.all([
+ *   batcher.call(token, web3.eth.abi.encodeFunctionSignature("name()")),
+ *   batcher.call(token, web3.eth.abi.encodeFunctionSignature("symbol()")),
+ * ]);
+ *
+ * // Both reads go out in one JSON-RPC batch
+ * const [code, slot] = await Promise.all([batcher.getCode(token), batcher.getStorageAt(token, "0x0")]);
+ * ```
+ */
+export class MulticallBatcher {
+  private readonly web3: Web3;
+  private readonly maxBatchSize: number;
+  private readonly verbose: boolean;
+  private queue: PendingCall[] = [];
+  private requests: PendingRequest[] = [];
+  private scheduled = false;
+
+  /** Cleared when the chain turns out to have no Multicall3 */
+  private supported: boolean;
+
+  /** Cleared when the endpoint turns out not to accept JSON-RPC batches */
+  private batchRequests: boolean;
+
+  constructor(web3: Web3, options: MulticallOptions = {}) {
+    this.web3 = web3;
+    this.supported = options.enabled ?? true;
+    this.batchRequests = options.enabled ?? true;
+    this.maxBatchSize = options.maxBatchSize ?? 100;
+    this.verbose = options.verbose || false;
+  }
+
+  /**
+   * Queue a read call for the next batch
+   *
+   * @param target - Contract to call
+   * @param data - ABI-encoded calldata
+   * @returns Return data of the call; rejects if the call reverts
+   */
+  call(target: string, data: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ target, data, resolve, reject });
+      this.schedule();
+    });
+  }
+
+  /**
+   * Queue a bytecode read for the next JSON-RPC batch
+   *
+   * @param address - Account to read
+   * @returns Bytecode at the latest block ("0x" for accounts without code)
+   */
+  getCode(address: string): Promise<string> {
+    return this.request("eth_getCode", [address, "latest"]);
+  }
+
+  /**
+   * Queue a storage slot read for the next JSON-RPC batch
+   *
+   * @param address - Contract to read
+   * @param slot - Storage slot (hex)
+   * @returns 32-byte slot value at the latest block
+   */
+  getStorageAt(address: string, slot: string): Promise<string> {
+    return this.request("eth_getStorageAt", [address, this.web3.utils.numberToHex(slot), "latest"]);
+  }
+
+  /**
+   * Queue a JSON-RPC state read
+   */
+  private request(method: PendingRequest["method"], params: string[]): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.requests.push({ method, params, resolve, reject });
+      this.schedule();
+    });
+  }
+
+  /**
+   * Flush on the next macrotask, unless a flush is already pending
+   */
+  private schedule(): void {
+    if (!this.scheduled) {
+      this.scheduled = true;
+      // Macrotask: lets every call started in the same tick (and its microtasks) join
+      setTimeout(() => this.flush(), 0);
+    }
+  }
+
+  /**
+   * Send the queued calls and state reads
+   */
+  private flush(): void {
+    const queue = this.queue;
+    const requests = this.requests;
+    this.queue = [];
+    this.requests = [];
+    this.scheduled = false;
+
+    for (let i = 0; i < queue.length; i += this.maxBatchSize) {
+      void this.execute(queue.slice(i, i + this.maxBatchSize));
+    }
+    for (let i = 0; i < requests.length; i += this.maxBatchSize) {
+      void this.executeRequests(requests.slice(i, i + this.maxBatchSize));
+    }
+  }
+
+  /**
+   * Run one batch through aggregate3, or call by call as a fallback
+   */
+  private async execute(batch: PendingCall[]): Promise<void> {
+    if (batch.length > 1 && this.supported) {
+      try {
+        const data = this.web3.eth.abi.encodeFunctionCall(AGGREGATE3_ABI, [
+          batch.map(({ target, data }) => [target, true, data]),
+        ]);
+        const raw = String(await this.web3.eth.call({ to: MULTICALL3_ADDRESS, data }));
+
+        if (raw === "0x") {
+          // No contract at the Multicall3 address on this chain
+          this.supported = false;
+          throw new Error("Multicall3 not deployed");
+        }
+
+        const outcomes = this.web3.eth.abi.decodeParameter("(bool,bytes)[]", raw) as unknown as unknown[][];
+        batch.forEach((pending, i) => {
+          const outcome = outcomes[i];
+          if (outcome?.[0]) {
+            pending.resolve(String(outcome[1]));
+          } else {
+            pending.reject(new Error("execution reverted"));
+          }
+        });
+
+        this.log(`Batched ${batch.length} calls`);
+        return;
+      } catch (error: any) {
+        this.log(`aggregate3 failed, falling back to individual calls: ${error.message}`);
+      }
+    }
+
+    await Promise.all(
+      batch.map(({ target, data, resolve, reject }) =>
+        this.web3.eth.call({ to: target, data }).then(
+          (returnData) => resolve(String(returnData)),
+          (error) => reject(error instanceof Error ? error : new Error(String(error)))
+        )
+      )
+    );
+  }
+
+  /**
+   * Send state reads as one JSON-RPC batch, or one by one as a fallback
+   */
+  private async executeRequests(batch: PendingRequest[]): Promise<void> {
+    if (batch.length > 1 && this.batchRequests) {
+      try {
+        const responses = await this.web3.requestManager.sendBatch(
+          batch.map(({ method, params }, id): JsonRpcRequest => ({ jsonrpc: "2.0", id, method, params }))
+        );
+
+        if (!Array.isArray(responses)) {
+          this.batchRequests = false;
+          throw new Error("JSON-RPC batches not supported");
+        }
+
+        // Batch responses may come back in any order
+        const byId = new Map(responses.map((response) => [Number(response.id), response]));
+        batch.forEach((pending, id) => {
+          const response = byId.get(id);
+          if (response && response.error === undefined && "result" in response) {
+            pending.resolve(String(response.result));
+          } else {
+            pending.reject(new Error(response?.error?.message ?? `No response to ${pending.method}`));
+          }
+        });
+
+        this.log(`Batched ${batch.length} requests`);
+        return;
+      } catch (error: any) {
+        this.log(`JSON-RPC batch failed, falling back to individual requests: ${error.message}`);
+      }
+    }
+
+    await Promise.all(
+      batch.map(({ method, params, resolve, reject }) =>
+        this.web3.requestManager.send({ method, params }).then(
+          (result) => resolve(String(result)),
+          (error) => reject(error instanceof Error ? error : new Error(String(error)))
+        )
+      )
+    );
+  }
+
+  /**
+   * Log message if verbose mode enabled
+   */
+  private log(message: string): void {
+    if (this.verbose) {
+      console.log(`[MulticallBatcher] ${message}`);
+    }
+  }
+}
@@ -6,22 +6,239 @@
  * - ERC20 standard compliance checking
  * - Token metadata extraction (name, symbol, decimals, supply)
  * - Code size analysis for anomaly detection
- * - Owner and permission checks
+ * - Function selector extraction for privileged capabilities (mint, pause, fees...)
+ * - Ownership and AccessControl role detection (renounced, EOA, multisig, timelock)
+ * - Proxy resolution (EIP-1967, EIP-1822, beacon, EIP-1167) and upgrade authority
+ * - Creation block, deployer and deployer reputation (separate archive lookup)
+ * - Trading restrictions (blacklists, whitelists, trading switch, limits, cooldowns)
+ * - Fee setters, plus current fees and fee ceilings from public getters (fees kept
+ *   in private variables are not read: their storage slots depend on each contract's layout)
+ * - Contract reads batched through Multicall3, bytecode and storage reads through
+ *   JSON-RPC batches (individual requests as fallback); only the creation lookup's
+ *   binary searches need sequential round trips
  * 
  * Features:
- * - Multi-chain support (7 networks)
- * - Connection pooling and retry logic
+ * - Any EVM chain given an RPC URL or pool (see ChainRegistry for the built-in ones)
+ * - Endpoint failover and rate limiting through RpcPool, plus retry logic
  * - Comprehensive ERC20 validation
  * - Graceful error handling
  * - Detailed logging
  */
 
-import { Web3 } from "web3";
+import { Web3, utils } from "web3";
+import type { RpcProvider } from "../rpc/rpc-pool";
+import { sumRiskContributions, type Analyzer, type AnalyzerResult, type RiskContribution } from "./analyzer";
+import {
+  analyzeBytecode,
+  parseMinimalProxy,
+  type BytecodeAnalysis,
+  type ContractCapability,
+  type DangerousFunction,
+} from "./bytecode-analyzer";
+import {
+  findContractCreation,
+  findDeployer,
+  findFirstActivity,
+  getCreateAddress,
+} from "./contract-creation";
+import { MulticallBatcher } from "./multicall";
+import { formatTokenAmount, parseUint256 } from "./token-amounts";
+
+/**
+ * Kind of account controlling a token
+ */
+export type AccountType = "eoa" | "multisig" | "timelock" | "contract";
+
+/**
+ * Holders of an AccessControl role
+ */
+export interface RoleInfo {
+  /** Role name, e.g. "MINTER_ROLE" */
+  role: string;
+  /** bytes32 role identifier */
+  role_hash: string;
+  /** Accounts found holding the role */
+  holders: Array<{ address: string; type: AccountType }>;
+  /** Whether holders were enumerated (AccessControlEnumerable) or only probed */
+  enumerable: boolean;
+  /** Holders could not be read or probed, so an empty list doesn't mean nobody holds the role */
+  holders_unknown: boolean;
+}
+
+/**
+ * Who controls a token
+ */
+export interface OwnershipInfo {
+  /** Owner from owner() / getOwner() (null if the token exposes neither) */
+  owner: string | null;
+  /** Function the owner was read from */
+  owner_source?: "owner()" | "getOwner()";
+  /** Owner is the zero or dead address */
+  renounced: boolean;
+  /** Kind of account holding ownership (absent when renounced or ownerless) */
+  owner_type?: AccountType;
+  /** Required confirmations of a Safe multisig owner */
+  multisig_threshold?: number;
+  /** Number of signers of a Safe multisig owner */
+  multisig_signers?: number;
+  /** Minimum delay in seconds of a timelock owner */
+  timelock_delay?: number;
+  /** Whether the token implements AccessControl (hasRole) */
+  access_control: boolean;
+  /** Holders of common AccessControl roles */
+  roles: RoleInfo[];
+}
+
+/**
+ * Proxy pattern a token is deployed behind
+ */
+export type ProxyStandard = "eip1967" | "eip1822" | "beacon" | "eip1167";
+
+/**
+ * Account able to replace a proxy's implementation
+ */
+export interface UpgradeAuthority {
+  /** Controlling account (null when it could not be determined) */
+  address: string | null;
+  /** Where the authority was found */
+  via: "admin" | "admin_owner" | "beacon_owner" | "owner" | "admin_role";
+  /** Kind of account (absent when unknown or renounced) */
+  type?: AccountType;
+  /** Authority is the zero or dead address */
+  renounced: boolean;
+  /** Required confirmations of a Safe multisig authority */
+  multisig_threshold?: number;
+  /** Minimum delay in seconds of a timelock authority */
+  timelock_delay?: number;
+}
+
+/**
+ * Proxy resolution result
+ */
+export interface ProxyInfo {
+  /** Whether the token delegates to an implementation contract */
+  is_proxy: boolean;
+  /** Detected proxy pattern */
+  standard?: ProxyStandard;
+  /** Current implementation address */
+  implementation?: string;
+  /** Beacon address (beacon proxies) */
+  beacon?: string;
+  /** EIP-1967 admin slot value (transparent proxies) */
+  admin?: string;
+  /** Whether the implementation can be replaced */
+  upgradeable: boolean;
+  /** Who can replace the implementation */
+  upgrade_authority?: UpgradeAuthority;
+  /** Size of the implementation bytecode */
+  implementation_code_size?: number;
+}
+
+/**
+ * Kind of trading restriction a token can enforce
+ */
+export type RestrictionKind = "blacklist" | "whitelist" | "trading_toggle" | "max_tx" | "max_wallet" | "cooldown";
+
+/**
+ * A trading restriction found in a token
+ */
+export interface TradingRestriction {
+  /** Whether the dispatcher exposes functions for this restriction */
+  present: boolean;
+  /** Signatures of the functions found */
+  functions: string[];
+  /** Current state read from the token's public getters (absent when unreadable) */
+  enabled?: boolean;
+}
+
+/**
+ * Trading restrictions of a token
+ */
+export interface TradingRestrictions {
+  /** Per-wallet bans (bots, blacklists) */
+  blacklist: TradingRestriction;
+  /** Trading limited to approved wallets */
+  whitelist: TradingRestriction;
+  /** Switch that opens or closes trading */
+  trading_toggle: TradingRestriction & {
+    /** Trading can be switched off again after opening */
+    reversible: boolean;
+  };
+  /** Maximum amount per transaction */
+  max_tx: TradingRestriction & {
+    /** Limit in base units (decimal string) */
+    amount?: string;
+    /** Limit as a percentage of total supply */
+    percent_of_supply?: number;
+  };
+  /** Maximum balance per wallet */
+  max_wallet: TradingRestriction & {
+    /** Limit in base units (decimal string) */
+    amount?: string;
+    /** Limit as a percentage of total supply */
+    percent_of_supply?: number;
+  };
+  /** Minimum time between a wallet's trades */
+  cooldown: TradingRestriction & {
+    /** Cooldown in seconds */
+    seconds?: number;
+  };
+}
+
+/**
+ * Whether and how far a token's taxes can be changed
+ */
+export interface TaxControlInfo {
+  /** Fee setter functions found in the dispatcher */
+  setters: string[];
+  /** Someone can still call the setters (setter present, ownership not renounced) */
+  mutable: boolean;
+  /** Current buy fee in percent, read from a recognized public getter */
+  buy_fee?: number;
+  /** Current sell fee in percent, read from a recognized public getter */
+  sell_fee?: number;
+  /** Hard-coded fee ceiling in percent (absent when none was found) */
+  max_fee?: number;
+  /** Getters the fees were read from */
+  fee_getters: string[];
+}
+
+/**
+ * Reputation of the account that deployed a token
+ */
+export interface DeployerInfo {
+  /** Deployer address */
+  address: string;
+  /** Seconds since the deployer's first transaction (archive RPC required) */
+  wallet_age_seconds?: number;
+  /** Number of transactions the deployer has sent */
+  transaction_count: number;
+  /** Nonces checked for other deployments (the most recent ones) */
+  scanned_nonces: number;
+  /** Other tokens created by the deployer within the scanned nonces */
+  tokens_deployed: string[];
+  /** Deployer or its other tokens found in the known-scam list */
+  known_scam_matches: string[];
+  /** Overall deployer risk */
+  risk: "low" | "medium" | "high" | "critical";
+}
+
+/**
+ * When a token was created and who deployed it
+ */
+export interface TokenCreation {
+  /** Creation block */
+  block: number;
+  /** Creation time (unix seconds) */
+  timestamp: number;
+  /** Deployer reputation (unset for factory deployments) */
+  deployer?: DeployerInfo;
+}
 
 /**
  * Result structure from on-chain analysis
  */
-export interface OnChainCheckResult {
+export interface OnChainCheckResult extends AnalyzerResult {
   /** Data source identifier */
   source: string;
   /** Whether address is a smart contract */
@@ -38,8 +255,14 @@ export interface OnChainCheckResult {
   symbol?: string;
   /** Token decimals (typically 18) */
   decimals?: number;
-  /** Total token supply */
-  total_supply?: number;
+  /** Total token supply in base units (uint256 as a decimal string) */
+  total_supply?: string;
+  /** Total supply adjusted for decimals (exact decimal string) */
+  total_supply_formatted?: string;
+  /** Tokens held by the token contract itself, in base units (decimal string) */
+  contract_balance?: string;
+  /** Contract's own balance adjusted for decimals (exact decimal string) */
+  contract_balance_formatted?: string;
   /** Numerical risk score 0-100 (higher = more dangerous) */
   risk_score: number;
   /** Additional validation checks */
@@ -63,11 +286,31 @@ export interface OnChainCheckResult {
     creation_block?: number;
     /** Creator address (if available) */
     creator?: string;
-    /** Whether contract appears pausable */
+    /** Creation time (ISO 8601, if available) */
+    created_at?: string;
+    /** Seconds since creation (if available) */
+    token_age_seconds?: number;
+    /** Whether the dispatcher exposes pause functions */
     is_pausable?: boolean;
-    /** Whether contract appears mintable */
+    /** Whether the dispatcher exposes mint functions */
     is_mintable?: boolean;
+    /** Privileged capabilities found in the bytecode */
+    capabilities?: ContractCapability[];
+    /** Dangerous functions found in the bytecode */
+    dangerous_functions?: DangerousFunction[];
+    /** Number of function selectors in the dispatcher */
+    selector_count?: number;
   };
+  /** Who controls the token */
+  ownership?: OwnershipInfo;
+  /** Proxy pattern and upgrade authority (absent if proxy resolution failed) */
+  proxy?: ProxyInfo;
+  /** Deployer reputation (absent when the deployer is unknown) */
+  deployer?: DeployerInfo;
+  /** Blacklists, whitelists, trading switch, limits and cooldowns */
+  restrictions?: TradingRestrictions;
+  /** Fee setters and ceilings */
+  tax_control?: TaxControlInfo;
   /** Error message if check failed */
   error?: string;
 }
@@ -82,6 +325,14 @@ export interface OnChainAnalyzerOptions {
   maxRetries?: number;
   /** Whether to enable verbose logging */
   verbose?: boolean;
+  /** Known scam token and deployer addresses */
+  knownScams?: Iterable<string>;
+  /** Allow creation block and deployer reputation lookups (default true; needs an archive RPC) */
+  deployerLookup?: boolean;
+  /** Batch contract reads through Multicall3 (default true) */
+  multicall?: boolean;
+  /** Weight of on-chain analysis in the safety score (default 0.3) */
+  weight?: number;
 }
 
 /**
@@ -98,11 +349,21 @@ export interface OnChainAnalyzerOptions {
  * console.log(`Is ERC20: ${result.is_erc20}`);
  * ```
  */
-export class OnChainAnalyzer {
+export class OnChainAnalyzer implements Analyzer<OnChainCheckResult> {
+  readonly source = "onchain";
+  readonly description = "Direct blockchain verification via Web3";
+  readonly type = "rpc";
+  readonly weight: number;
   private web3Instances: Map<number, Web3> = new Map();
+  private multicalls: Map<Web3, MulticallBatcher> = new Map();
   private readonly timeout: number;
   private readonly maxRetries: number;
   private readonly verbose: boolean;
+  private readonly knownScams: Set<string>;
+  private readonly deployerLookup: boolean;
+
+  /** Most recent deployer nonces checked for other deployments */
+  private readonly MAX_DEPLOYER_NONCES = 50;
 
   /**
    * Minimal ERC20 ABI for token analysis
@@ -156,10 +417,180 @@ export class OnChainAnalyzer {
     },
   ] as const;
 
+  /**
+   * Ownership, AccessControl, Safe and timelock functions probed for control info
+   */
+  private readonly CONTROL_ABI = [
+    { inputs: [], name: "owner", outputs: [{ name: "", type: "address" }], stateMutability: "view", type: "function" },
+    { inputs: [], name: "getOwner", outputs: [{ name: "", type: "address" }], stateMutability: "view", type: "function" },
+    {
+      inputs: [{ name: "role", type: "bytes32" }, { name: "account", type: "address" }],
+      name: "hasRole",
+      outputs: [{ name: "", type: "bool" }],
+      stateMutability: "view",
+      type: "function",
+    },
+    {
+      inputs: [{ name: "role", type: "bytes32" }],
+      name: "getRoleMemberCount",
+      outputs: [{ name: "", type: "uint256" }],
+      stateMutability: "view",
+      type: "function",
+    },
+    {
+      inputs: [{ name: "role", type: "bytes32" }, { name: "index", type: "uint256" }],
+      name: "getRoleMember",
+      outputs: [{ name: "", type: "address" }],
+      stateMutability: "view",
+      type: "function",
+    },
+    { inputs: [], name: "getThreshold", outputs: [{ name: "", type: "uint256" }], stateMutability: "view", type: "function" },
+    { inputs: [], name: "getOwners", outputs: [{ name: "", type: "address[]" }], stateMutability: "view", type: "function" },
+    { inputs: [], name: "getMinDelay", outputs: [{ name: "", type: "uint256" }], stateMutability: "view", type: "function" },
+    { inputs: [], name: "delay", outputs: [{ name: "", type: "uint256" }], stateMutability: "view", type: "function" },
+    { inputs: [], name: "implementation", outputs: [{ name: "", type: "address" }], stateMutability: "view", type: "function" },
+  ] as const;
+
+  /**
+   * EIP-1967 / EIP-1822 storage slots
+   */
+  private readonly PROXY_SLOTS = {
+    /** bytes32(uint256(keccak256("eip1967.proxy.implementation")) - 1) */
+    implementation: "0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc",
+    /** bytes32(uint256(keccak256("eip1967.proxy.admin")) - 1) */
+    admin: "0xb53127684a568b3173ae13b9f8a6016e243e63b6e8ee1178d6a717850b5d6103",
+    /** bytes32(uint256(keccak256("eip1967.proxy.beacon")) - 1) */
+    beacon: "0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50",
+    /** keccak256("PROXIABLE") */
+    proxiable: "0xc5f16f0fcc639fa48a6947836d9850f504798523bf8c9a3a87d5876cf622bcf7",
+  } as const;
+
+  /**
+   * AccessControl roles probed for holders
+   */
+  private readonly CONTROL_ROLES: Array<{ role: string; hash: string }> = [
+    { role: "DEFAULT_ADMIN_ROLE", hash: "0x" + "0".repeat(64) },
+    { role: "MINTER_ROLE", hash: utils.keccak256(utils.utf8ToHex("MINTER_ROLE")) },
+    { role: "PAUSER_ROLE", hash: utils.keccak256(utils.utf8ToHex("PAUSER_ROLE")) },
+  ];
+
+  /**
+   * Addresses that mean "nobody" when holding ownership
+   */
+  private readonly NULL_OWNERS = [
+    "0x0000000000000000000000000000000000000000",
+    "0x000000000000000000000000000000000000dead",
+  ];
+
+  /** Role holders enumerated per role at most */
+  private readonly MAX_ROLE_MEMBERS = 3;
+
+  /**
+   * Functions that reveal a trading restriction (setters and public getters)
+   */
+  private readonly RESTRICTION_SIGNATURES: Record<RestrictionKind, string[]> = {
+    blacklist: [
+      "blacklist(address)",
+      "addToBlacklist(address)",
+      "removeFromBlacklist(address)",
+      "setBlacklist(address,bool)",
+      "blacklistAddress(address,bool)",
+      "addBlackList(address)",
+      "removeBlackList(address)",
+      "addBot(address)",
+      "addBots(address[])",
+      "setBots(address[],bool)",
+      "blockBots(address[])",
+      "isBlacklisted(address)",
+      "isBlackListed(address)",
+      "isBot(address)",
+      "bots(address)",
+    ],
+    whitelist: [
+      "setWhitelist(address,bool)",
+      "addToWhitelist(address)",
+      "removeFromWhitelist(address)",
+      "setWhitelistEnabled(bool)",
+      "isWhitelisted(address)",
+      "whitelistEnabled()",
+    ],
+    trading_toggle: [
+      "enableTrading()",
+      "openTrading()",
+      "startTrading()",
+      "setTradingEnabled(bool)",
+      "setTrading(bool)",
+      "tradingEnabled()",
+      "tradingOpen()",
+      "tradingActive()",
+    ],
+    max_tx: [
+      "setMaxTx(uint256)",
+      "setMaxTxAmount(uint256)",
+      "setMaxTxPercent(uint256)",
+      "updateMaxTxnAmount(uint256)",
+      "_maxTxAmount()",
+      "maxTxAmount()",
+      "maxTransactionAmount()",
+    ],
+    max_wallet: [
+      "setMaxWallet(uint256)",
+      "setMaxWalletSize(uint256)",
+      "updateMaxWalletAmount(uint256)",
+      "_maxWalletSize()",
+      "_maxWalletAmount()",
+      "maxWallet()",
+      "maxWalletAmount()",
+    ],
+    cooldown: [
+      "setCooldownEnabled(bool)",
+      "setCooldown(uint256)",
+      "setTransferDelayEnabled(bool)",
+      "cooldownEnabled()",
+      "transferDelayEnabled()",
+      "cooldownTimerInterval()",
+    ],
+  };
+
+  /** Setters that can close trading again after it opened */
+  private readonly REVERSIBLE_TRADING_SETTERS = ["setTradingEnabled(bool)", "setTrading(bool)"];
+
+  /** Getters read for the current state of a restriction */
+  private readonly RESTRICTION_GETTERS: Array<{
+    kind: RestrictionKind;
+    signature: string;
+    field: "enabled" | "amount" | "seconds";
+  }> = [
+    { kind: "whitelist", signature: "whitelistEnabled()", field: "enabled" },
+    { kind: "trading_toggle", signature: "tradingEnabled()", field: "enabled" },
+    { kind: "trading_toggle", signature: "tradingOpen()", field: "enabled" },
+    { kind: "trading_toggle", signature: "tradingActive()", field: "enabled" },
+    { kind: "max_tx", signature: "_maxTxAmount()", field: "amount" },
+    { kind: "max_tx", signature: "maxTxAmount()", field: "amount" },
+    { kind: "max_tx", signature: "maxTransactionAmount()", field: "amount" },
+    { kind: "max_wallet", signature: "_maxWalletSize()", field: "amount" },
+    { kind: "max_wallet", signature: "_maxWalletAmount()", field: "amount" },
+    { kind: "max_wallet", signature: "maxWallet()", field: "amount" },
+    { kind: "max_wallet", signature: "maxWalletAmount()", field: "amount" },
+    { kind: "cooldown", signature: "cooldownEnabled()", field: "enabled" },
+    { kind: "cooldown", signature: "transferDelayEnabled()", field: "enabled" },
+    { kind: "cooldown", signature: "cooldownTimerInterval()", field: "seconds" },
+  ];
+
+  /**
+   * Public getters of common fee layouts (fees in units of the denominator)
+   */
+  private readonly FEE_GETTERS = {
+    buy: ["buyTotalFees()", "buyTax()", "buyFee()", "totalBuyTax()"],
+    sell: ["sellTotalFees()", "sellTax()", "sellFee()", "totalSellTax()"],
+    max: ["MAX_FEE()", "maxFee()", "MAX_TAX()", "maxTax()", "MAX_TOTAL_FEE()"],
+    denominator: ["feeDenominator()", "FEE_DENOMINATOR()", "taxDenominator()"],
+  } as const;
+
   /**
    * Initialize analyzer with RPC URLs for different chains
    * 
-   * @param rpcUrls - Mapping of chain ID to RPC endpoint URL
+   * @param rpcUrls - Mapping of chain ID to RPC endpoint URL or pool
    * @param options - Configuration options
    * 
    * @example
@@ -170,10 +601,13 @@ export class OnChainAnalyzer {
    * }, { verbose: true });
    * ```
    */
-  constructor(rpcUrls: Record<number, string>, options: OnChainAnalyzerOptions = {}) {
+  constructor(rpcUrls: Record<number, RpcProvider>, options: OnChainAnalyzerOptions = {}) {
     this.timeout = options.timeout || 15000;
     this.maxRetries = options.maxRetries || 2;
     this.verbose = options.verbose || false;
+    this.knownScams = new Set(Array.from(options.knownScams ?? [], (address) => address.toLowerCase()));
+    this.deployerLookup = options.deployerLookup ?? true;
+    this.weight = options.weight ?? 0.3;
 
     // Initialize Web3 instances for each chain
     for (const [chainIdStr, rpcUrl] of Object.entries(rpcUrls)) {
@@ -192,6 +626,10 @@ export class OnChainAnalyzer {
           });
         
         this.web3Instances.set(chainId, web3);
+        this.multicalls.set(
+          web3,
+          new MulticallBatcher(web3, { enabled: options.multicall ?? true, verbose: this.verbose })
+        );
       } catch (error: any) {
         console.error(`Error initializing Web3 for chain ${chainId}: ${error.message}`);
       }
@@ -200,11 +638,37 @@ export class OnChainAnalyzer {
     this.log(`Initialized with ${this.web3Instances.size} chain(s)`);
   }
 
+  /**
+   * Fetch a contract's bytecode
+   *
+   * @param tokenAddress - Token contract address
+   * @param chainId - Blockchain network ID
+   * @returns Bytecode hex string ("0x" for EOAs), or null if it could not be fetched
+   */
+  async getCode(tokenAddress: string, chainId: number): Promise<string | null> {
+    const web3 = this.web3Instances.get(chainId);
+
+    if (!web3 || !this.isValidAddress(tokenAddress, web3)) {
+      return null;
+    }
+
+    try {
+      const checksumAddress = web3.utils.toChecksumAddress(tokenAddress);
+      return await this.withRetry(() => web3.eth.getCode(checksumAddress));
+    } catch (error: any) {
+      this.log(`Failed to fetch code for ${tokenAddress}: ${error.message}`);
+      return null;
+    }
+  }
+
   /**
    * Analyze a token on the blockchain
    * 
    * @param tokenAddress - Token contract address
    * @param chainId - Blockchain network ID
+   * @param options - Prefetched bytecode (e.g. from a cache) to skip the getCode call,
+   *   and creation data from `lookupCreation` (not looked up here: it needs
+   *   dozens of archive calls, so callers only fetch it for full analyses)
    * @returns Promise resolving to on-chain analysis result
    * 
    * @example
@@ -219,7 +683,11 @@ export class OnChainAnalyzer {
    * }
    * ```
    */
-  async analyzeToken(tokenAddress: string, chainId: number): Promise<OnChainCheckResult> {
+  async analyzeToken(
+    tokenAddress: string,
+    chainId: number,
+    options: { code?: string; creation?: TokenCreation | null } = {}
+  ): Promise<OnChainCheckResult> {
     const web3 = this.web3Instances.get(chainId);
 
     if (!web3) {
@@ -237,7 +705,7 @@ export class OnChainAnalyzer {
       const checksumAddress = web3.utils.toChecksumAddress(tokenAddress);
 
       // Step 1: Check if address is a contract
-      const code = await this.withRetry(() => web3.eth.getCode(checksumAddress));
+      const code = options.code ?? await this.withRetry(() => web3.eth.getCode(checksumAddress));
       const codeSize = this.getCodeSize(code);
       const hasCode = codeSize > 2; // More than "0x"
 
@@ -254,14 +722,41 @@ export class OnChainAnalyzer {
         };
       }
 
-      // Step 2: Try to interact as ERC20
-      const contract = new web3.eth.Contract(this.ERC20_ABI as any, checksumAddress);
-      const tokenData = await this.readTokenData(contract, web3, checksumAddress);
+      // Step 2: Resolve proxies so the implementation's functions are analyzed too
+      const { proxy, implementationCode } = await this.resolveProxy(web3, checksumAddress, code);
+      const bytecode = implementationCode ? analyzeBytecode(code, implementationCode) : analyzeBytecode(code);
+
+      // Step 3: Try to interact as ERC20
+      const creation = options.creation ?? undefined;
+      const [tokenData, ownership, restrictions, taxControl] = await Promise.all([
+        this.readTokenData(web3, bytecode, checksumAddress),
+        this.readOwnership(web3, bytecode, checksumAddress, creation?.deployer?.address),
+        this.readRestrictions(web3, bytecode, checksumAddress),
+        this.readTaxControl(web3, bytecode, checksumAddress),
+      ]);
+
+      // Setters only matter while someone can still call them
+      taxControl.mutable = taxControl.setters.length > 0 && (!ownership.renounced || ownership.access_control);
+
+      for (const limit of [restrictions.max_tx, restrictions.max_wallet]) {
+        limit.percent_of_supply = this.percentOfSupply(limit.amount, tokenData.total_supply);
+      }
+
+      if (proxy?.upgradeable && !proxy.upgrade_authority) {
+        proxy.upgrade_authority = this.implementationUpgradeAuthority(ownership);
+      }
 
-      // Step 3: Calculate risk score
-      const riskScore = this.calculateRiskScore(tokenData, codeSize);
+      // Step 4: Calculate risk score (a proxy's own code says nothing about the token)
+      const risk = this.calculateRiskScore(
+        tokenData,
+        proxy?.implementation_code_size ?? codeSize,
+        creation?.deployer,
+        ownership,
+        restrictions,
+        taxControl
+      );
 
-      // Step 4: Build result
+      // Step 5: Build result
       const result: OnChainCheckResult = {
         source: "onchain",
         is_contract: true,
@@ -272,9 +767,17 @@ export class OnChainAnalyzer {
         symbol: tokenData.symbol,
         decimals: tokenData.decimals,
         total_supply: tokenData.total_supply,
-        risk_score: riskScore,
+        total_supply_formatted: tokenData.total_supply_formatted,
+        contract_balance: tokenData.contract_balance,
+        contract_balance_formatted: tokenData.contract_balance_formatted,
+        ...risk,
         checks: tokenData.checks,
-        metadata: tokenData.metadata,
+        metadata: { ...tokenData.metadata, ...this.creationMetadata(creation) },
+        ownership,
+        proxy,
+        deployer: creation?.deployer,
+        restrictions,
+        tax_control: taxControl,
       };
 
       if (this.verbose) {
@@ -298,15 +801,18 @@ export class OnChainAnalyzer {
    * Read token data by calling ERC20 functions
    */
   private async readTokenData(
-    contract: any,
     web3: Web3,
+    bytecode: BytecodeAnalysis,
     address: string
   ): Promise<{
     is_erc20: boolean;
     name?: string;
     symbol?: string;
     decimals?: number;
-    total_supply?: number;
+    total_supply?: string;
+    total_supply_formatted?: string;
+    contract_balance?: string;
+    contract_balance_formatted?: string;
     checks: Record<string, boolean>;
     metadata?: Record<string, any>;
   }> {
@@ -323,12 +829,12 @@ export class OnChainAnalyzer {
       // Call all ERC20 functions with timeout protection
       const [nameResult, symbolResult, decimalsResult, supplyResult, balanceResult] =
         await Promise.allSettled([
-          this.withTimeout(() => contract.methods.name().call(), 5000),
-          this.withTimeout(() => contract.methods.symbol().call(), 5000),
-          this.withTimeout(() => contract.methods.decimals().call(), 5000),
-          this.withTimeout(() => contract.methods.totalSupply().call(), 5000),
+          this.withTimeout(() => this.callView(web3, address, this.ERC20_ABI, "name"), 5000),
+          this.withTimeout(() => this.callView(web3, address, this.ERC20_ABI, "symbol"), 5000),
+          this.withTimeout(() => this.callView(web3, address, this.ERC20_ABI, "decimals"), 5000),
+          this.withTimeout(() => this.callView(web3, address, this.ERC20_ABI, "totalSupply"), 5000),
           this.withTimeout(
-            () => contract.methods.balanceOf(address).call(),
+            () => this.callView(web3, address, this.ERC20_ABI, "balanceOf", [address]),
             5000
           ),
         ]);
@@ -337,13 +843,19 @@ export class OnChainAnalyzer {
       const name = nameResult.status === "fulfilled" ? String(nameResult.value) : undefined;
       const symbol = symbolResult.status === "fulfilled" ? String(symbolResult.value) : undefined;
       const decimals = decimalsResult.status === "fulfilled" ? Number(decimalsResult.value) : undefined;
-      const totalSupply = supplyResult.status === "fulfilled" ? Number(supplyResult.value) : undefined;
+      // uint256 values stay BigInt: Number() loses precision and overflows to Infinity
+      const totalSupply = supplyResult.status === "fulfilled" ? parseUint256(supplyResult.value) : undefined;
+      const contractBalance = balanceResult.status === "fulfilled" ? parseUint256(balanceResult.value) : undefined;
+      const format = (amount: bigint | undefined) =>
+        amount !== undefined && decimals !== undefined && Number.isInteger(decimals) && decimals >= 0 && decimals <= 255
+          ? formatTokenAmount(amount, decimals)
+          : undefined;
 
       // Update checks
       checks.has_name = Boolean(name && name.length > 0);
       checks.has_symbol = Boolean(symbol && symbol.length > 0);
       checks.valid_decimals = decimals !== undefined && decimals >= 0 && decimals <= 18;
-      checks.has_supply = totalSupply !== undefined && totalSupply > 0;
+      checks.has_supply = totalSupply !== undefined && totalSupply > 0n;
       checks.has_balance_of = balanceResult.status === "fulfilled";
 
       // Determine if token implements enough of ERC20 to be considered compliant
@@ -353,24 +865,24 @@ export class OnChainAnalyzer {
         checks.valid_decimals &&
         checks.has_supply;
 
-      // Additional metadata checks
-      const metadata: Record<string, any> = {};
-
-      // Try to detect pausable pattern (common in scams)
-      try {
-        const code = await web3.eth.getCode(address);
-        metadata.is_pausable = code.includes("pause") || code.includes("Pause");
-        metadata.is_mintable = code.includes("mint") || code.includes("Mint");
-      } catch (error) {
-        // Ignore metadata errors
-      }
+      // Privileged functions from the bytecode dispatcher (pause/mint are common in scams)
+      const metadata: Record<string, any> = {
+        is_pausable: bytecode.capabilities.includes("pause"),
+        is_mintable: bytecode.capabilities.includes("mint"),
+        capabilities: bytecode.capabilities,
+        dangerous_functions: bytecode.dangerous_functions,
+        selector_count: bytecode.selectors.length,
+      };
 
       return {
         is_erc20: isErc20,
         name,
         symbol,
         decimals,
-        total_supply: totalSupply,
+        total_supply: totalSupply?.toString(),
+        total_supply_formatted: format(totalSupply),
+        contract_balance: contractBalance?.toString(),
+        contract_balance_formatted: format(contractBalance),
         checks,
         metadata,
       };
@@ -383,40 +895,615 @@ export class OnChainAnalyzer {
     }
   }
 
+  /**
+   * Find out who controls the token: owner()/getOwner() and AccessControl roles
+   *
+   * Roles that can't be enumerated are probed with hasRole for the owner and
+   * the deployer (when the creation lookup found one).
+   */
+  private async readOwnership(
+    web3: Web3,
+    bytecode: BytecodeAnalysis,
+    address: string,
+    deployer?: string
+  ): Promise<OwnershipInfo> {
+    const selectors = new Set(bytecode.selectors);
+    const hasSelector = (signature: string) =>
+      selectors.has(web3.eth.abi.encodeFunctionSignature(signature).toLowerCase());
+
+    // Ownable: owner() is standard, getOwner() is the BEP-20 variant
+    const [ownerResult, getOwnerResult] = await Promise.allSettled([
+      this.withTimeout(() => this.callView(web3, address, this.CONTROL_ABI, "owner"), 5000),
+      this.withTimeout(() => this.callView(web3, address, this.CONTROL_ABI, "getOwner"), 5000),
+    ]);
+
+    let owner: string | null = null;
+    let ownerSource: OwnershipInfo["owner_source"];
+    if (ownerResult.status === "fulfilled" && web3.utils.isAddress(String(ownerResult.value))) {
+      owner = web3.utils.toChecksumAddress(String(ownerResult.value));
+      ownerSource = "owner()";
+    } else if (getOwnerResult.status === "fulfilled" && web3.utils.isAddress(String(getOwnerResult.value))) {
+      owner = web3.utils.toChecksumAddress(String(getOwnerResult.value));
+      ownerSource = "getOwner()";
+    }
+
+    const renounced = owner !== null && this.NULL_OWNERS.includes(owner.toLowerCase());
+    const ownership: OwnershipInfo = {
+      owner,
+      owner_source: ownerSource,
+      renounced,
+      access_control: hasSelector("hasRole(bytes32,address)"),
+      roles: [],
+    };
+
+    if (owner && !renounced) {
+      Object.assign(ownership, await this.classifyAccount(web3, owner));
+    }
+
+    // AccessControl: enumerate holders if possible, otherwise probe the owner and deployer
+    if (ownership.access_control) {
+      const enumerable = hasSelector("getRoleMember(bytes32,uint256)");
+      const candidates = [
+        ...new Set(
+          [owner && !renounced ? owner : null, deployer ? web3.utils.toChecksumAddress(deployer) : null].filter(
+            (candidate): candidate is string => candidate !== null
+          )
+        ),
+      ];
+
+      ownership.roles = await Promise.all(
+        this.CONTROL_ROLES.map(async ({ role, hash }): Promise<RoleInfo> => {
+          let members: string[] = [];
+          let holdersUnknown = !enumerable && candidates.length === 0;
+
+          try {
+            if (enumerable) {
+              const count = Number(
+                await this.withTimeout(
+                  () => this.callView(web3, address, this.CONTROL_ABI, "getRoleMemberCount", [hash]),
+                  5000
+                )
+              );
+              const indexes = Array.from({ length: Math.min(count, this.MAX_ROLE_MEMBERS) }, (_, i) => i);
+              members = (
+                await Promise.all(
+                  indexes.map((i) =>
+                    this.withTimeout(
+                      () => this.callView(web3, address, this.CONTROL_ABI, "getRoleMember", [hash, i]),
+                      5000
+                    )
+                  )
+                )
+              ).map(String);
+            } else if (candidates.length > 0) {
+              const held = await Promise.all(
+                candidates.map((candidate) =>
+                  this.withTimeout(
+                    () => this.callView(web3, address, this.CONTROL_ABI, "hasRole", [hash, candidate]),
+                    5000
+                  )
+                )
+              );
+              members = candidates.filter((_, i) => Boolean(held[i]));
+            }
+          } catch (error: any) {
+            holdersUnknown = true;
+            this.log(`Could not read ${role} holders: ${error.message}`);
+          }
+
+          const holders = await Promise.all(
+            members
+              .filter((member) => !this.NULL_OWNERS.includes(member.toLowerCase()))
+              .map(async (member) => ({
+                address: web3.utils.toChecksumAddress(member),
+                type: (await this.classifyAccount(web3, member)).owner_type,
+              }))
+          );
+
+          return { role, role_hash: hash, holders, enumerable, holders_unknown: holdersUnknown };
+        })
+      );
+    }
+
+    return ownership;
+  }
+
+  /**
+   * Classify an account as an EOA, Safe multisig, timelock or other contract
+   */
+  private async classifyAccount(
+    web3: Web3,
+    address: string
+  ): Promise<Pick<OwnershipInfo, "multisig_threshold" | "multisig_signers" | "timelock_delay"> & { owner_type: AccountType }> {
+    try {
+      const code = await this.withTimeout(() => this.batcher(web3).getCode(address), 5000);
+      if (this.getCodeSize(code) === 0) {
+        return { owner_type: "eoa" };
+      }
+    } catch (error: any) {
+      this.log(`Could not fetch code for ${address}: ${error.message}`);
+      return { owner_type: "contract" };
+    }
+
+    const [threshold, signers, minDelay, delay] = await Promise.allSettled([
+      this.withTimeout(() => this.callView(web3, address, this.CONTROL_ABI, "getThreshold"), 5000),
+      this.withTimeout(() => this.callView(web3, address, this.CONTROL_ABI, "getOwners"), 5000),
+      this.withTimeout(() => this.callView(web3, address, this.CONTROL_ABI, "getMinDelay"), 5000),
+      this.withTimeout(() => this.callView(web3, address, this.CONTROL_ABI, "delay"), 5000),
+    ]);
+
+    // Gnosis Safe
+    if (threshold.status === "fulfilled" && signers.status === "fulfilled") {
+      return {
+        owner_type: "multisig",
+        multisig_threshold: Number(threshold.value),
+        multisig_signers: (signers.value as unknown as string[]).length,
+      };
+    }
+
+    // OpenZeppelin TimelockController / Compound Timelock
+    const timelockDelay =
+      minDelay.status === "fulfilled" ? minDelay.value : delay.status === "fulfilled" ? delay.value : undefined;
+    if (timelockDelay !== undefined) {
+      return { owner_type: "timelock", timelock_delay: Number(timelockDelay) };
+    }
+
+    return { owner_type: "contract" };
+  }
+
+  /**
+   * Detect proxy patterns and fetch the implementation bytecode
+   *
+   * Failures are logged and leave `proxy` undefined rather than failing the analysis.
+   */
+  private async resolveProxy(
+    web3: Web3,
+    address: string,
+    code: string
+  ): Promise<{ proxy?: ProxyInfo; implementationCode?: string }> {
+    try {
+      let proxy: ProxyInfo = { is_proxy: false, upgradeable: false };
+
+      const minimalProxyTarget = parseMinimalProxy(code);
+      if (minimalProxyTarget) {
+        // EIP-1167 clones hard-code their implementation and cannot be upgraded
+        proxy = {
+          is_proxy: true,
+          standard: "eip1167",
+          implementation: web3.utils.toChecksumAddress(minimalProxyTarget),
+          upgradeable: false,
+        };
+      } else {
+        const [implementationSlot, adminSlot, beaconSlot, proxiableSlot] = await Promise.all(
+          [
+            this.PROXY_SLOTS.implementation,
+            this.PROXY_SLOTS.admin,
+            this.PROXY_SLOTS.beacon,
+            this.PROXY_SLOTS.proxiable,
+          ].map((slot) => this.readAddressSlot(web3, address, slot))
+        );
+
+        if (beaconSlot) {
+          const implementation = String(
+            await this.withTimeout(() => this.callView(web3, beaconSlot, this.CONTROL_ABI, "implementation"), 5000)
+          );
+
+          proxy = {
+            is_proxy: true,
+            standard: "beacon",
+            beacon: beaconSlot,
+            implementation: web3.utils.toChecksumAddress(implementation),
+            upgradeable: true,
+            upgrade_authority: await this.readUpgradeAuthority(web3, beaconSlot, "beacon_owner"),
+          };
+        } else if (implementationSlot) {
+          proxy = {
+            is_proxy: true,
+            standard: "eip1967",
+            implementation: implementationSlot,
+            upgradeable: true,
+          };
+
+          if (adminSlot) {
+            // Transparent proxy: the admin is usually a ProxyAdmin contract with an owner
+            proxy.admin = adminSlot;
+            proxy.upgrade_authority = await this.readUpgradeAuthority(web3, adminSlot, "admin");
+          }
+          // Otherwise UUPS: the implementation authorizes upgrades (resolved from ownership)
+        } else if (proxiableSlot) {
+          proxy = {
+            is_proxy: true,
+            standard: "eip1822",
+            implementation: proxiableSlot,
+            upgradeable: true,
+          };
+        }
+      }
+
+      if (!proxy.implementation) {
+        return { proxy };
+      }
+
+      const implementationCode = await this.withTimeout(
+        () => this.batcher(web3).getCode(proxy.implementation!),
+        5000
+      );
+      proxy.implementation_code_size = this.getCodeSize(implementationCode);
+
+      this.log(`Proxy ${address} (${proxy.standard}) → ${proxy.implementation}`);
+
+      return { proxy, implementationCode: proxy.implementation_code_size > 0 ? implementationCode : undefined };
+    } catch (error: any) {
+      this.log(`Proxy resolution failed for ${address}: ${error.message}`);
+      return {};
+    }
+  }
+
+  /**
+   * Read an address stored right-aligned in a storage slot
+   *
+   * @returns Checksummed address, or null if the slot is empty
+   */
+  private async readAddressSlot(web3: Web3, address: string, slot: string): Promise<string | null> {
+    const value = await this.withTimeout(() => this.batcher(web3).getStorageAt(address, slot), 5000);
+    const candidate = "0x" + value.replace(/^0x/, "").padStart(64, "0").slice(-40);
+
+    return /^0x0{40}$/.test(candidate) ? null : web3.utils.toChecksumAddress(candidate);
+  }
+
+  /**
+   * Resolve who can upgrade through an admin or beacon contract
+   *
+   * A ProxyAdmin or beacon contract is controlled by its owner(); an admin
+   * without an owner (EOA, Safe, timelock) is the authority itself.
+   */
+  private async readUpgradeAuthority(
+    web3: Web3,
+    controller: string,
+    via: "admin" | "beacon_owner"
+  ): Promise<UpgradeAuthority> {
+    let account = controller;
+    let resolvedVia: UpgradeAuthority["via"] = via;
+
+    const classification = await this.classifyAccount(web3, controller);
+    if (classification.owner_type === "contract") {
+      try {
+        const owner = String(
+          await this.withTimeout(() => this.callView(web3, controller, this.CONTROL_ABI, "owner"), 5000)
+        );
+        if (web3.utils.isAddress(owner)) {
+          account = web3.utils.toChecksumAddress(owner);
+          resolvedVia = via === "admin" ? "admin_owner" : "beacon_owner";
+        }
+      } catch (error: any) {
+        this.log(`Could not read owner of ${controller}: ${error.message}`);
+      }
+    }
+
+    if (this.NULL_OWNERS.includes(account.toLowerCase())) {
+      return { address: account, via: resolvedVia, renounced: true };
+    }
+
+    const authority = account === controller ? classification : await this.classifyAccount(web3, account);
+    return {
+      address: account,
+      via: resolvedVia,
+      type: authority.owner_type,
+      renounced: false,
+      multisig_threshold: authority.multisig_threshold,
+      timelock_delay: authority.timelock_delay,
+    };
+  }
+
+  /**
+   * Upgrade authority of UUPS / EIP-1822 proxies, where the implementation
+   * guards upgrades with its own access control (owner or DEFAULT_ADMIN_ROLE)
+   */
+  private implementationUpgradeAuthority(ownership: OwnershipInfo): UpgradeAuthority {
+    if (ownership.owner) {
+      return {
+        address: ownership.owner,
+        via: "owner",
+        type: ownership.owner_type,
+        renounced: ownership.renounced,
+        multisig_threshold: ownership.multisig_threshold,
+        timelock_delay: ownership.timelock_delay,
+      };
+    }
+
+    const admin = ownership.roles.find((role) => role.role === "DEFAULT_ADMIN_ROLE")?.holders[0];
+    return {
+      address: admin?.address ?? null,
+      via: "admin_role",
+      type: admin?.type,
+      renounced: false,
+    };
+  }
+
+  /**
+   * Find when a token was created and who deployed it
+   *
+   * Binary-searches historical code and nonces, so it needs an archive RPC
+   * and is only worth running for full analyses.
+   *
+   * @param tokenAddress - Token contract address
+   * @param chainId - Blockchain network ID
+   * @returns Creation data, or null if disabled, unavailable or not found
+   */
+  async lookupCreation(tokenAddress: string, chainId: number): Promise<TokenCreation | null> {
+    const web3 = this.web3Instances.get(chainId);
+    if (!web3 || !this.deployerLookup || !this.isValidAddress(tokenAddress, web3)) return null;
+
+    try {
+      const address = web3.utils.toChecksumAddress(tokenAddress);
+      const latest = await this.withTimeout(() => web3.eth.getBlockNumber(), 5000).catch(() => undefined);
+      const creation = await findContractCreation(web3, address, latest);
+      if (!creation) {
+        this.log(`Creation block of ${address} not found (archive RPC required)`);
+        return null;
+      }
+
+      const found = await findDeployer(web3, address, creation.block);
+      return {
+        ...creation,
+        deployer: found ? await this.readDeployer(web3, found.deployer, address, latest) : undefined,
+      };
+    } catch (error: any) {
+      this.log(`Creation lookup failed for ${tokenAddress}: ${error.message}`);
+      return null;
+    }
+  }
+
+  /**
+   * Result metadata describing a token's creation
+   */
+  private creationMetadata(creation?: TokenCreation): OnChainCheckResult["metadata"] {
+    if (!creation) return {};
+
+    return {
+      creation_block: creation.block,
+      creator: creation.deployer?.address,
+      created_at: new Date(creation.timestamp * 1000).toISOString(),
+      token_age_seconds: Math.max(0, Math.floor(Date.now() / 1000) - creation.timestamp),
+    };
+  }
+
+  /**
+   * Score a deployer: wallet age, other tokens deployed and known-scam links
+   */
+  private async readDeployer(
+    web3: Web3,
+    deployer: string,
+    token: string,
+    latest?: bigint
+  ): Promise<DeployerInfo> {
+    const [nonceResult, firstActivity] = await Promise.all([
+      this.withTimeout(() => web3.eth.getTransactionCount(deployer), 5000).catch(() => 0n),
+      findFirstActivity(web3, deployer, latest),
+    ]);
+    const nonce = Number(nonceResult);
+
+    // Contracts created with the most recent nonces; tokens answer totalSupply()
+    const firstNonce = Math.max(0, nonce - this.MAX_DEPLOYER_NONCES);
+    const candidates = Array.from({ length: nonce - firstNonce }, (_, i) =>
+      getCreateAddress(web3, deployer, firstNonce + i)
+    ).filter((candidate) => candidate !== token.toLowerCase());
+
+    // One JSON-RPC batch for the bytecode, one aggregate3 for totalSupply()
+    const found = await Promise.all(
+      candidates.map(async (candidate) => {
+        try {
+          const code = await this.withTimeout(() => this.batcher(web3).getCode(candidate), 5000);
+          if (this.getCodeSize(code) === 0) return null;
+
+          await this.withTimeout(() => this.callView(web3, candidate, this.ERC20_ABI, "totalSupply"), 5000);
+          return web3.utils.toChecksumAddress(candidate);
+        } catch {
+          return null;
+        }
+      })
+    );
+    const tokens = found.filter((candidate): candidate is string => candidate !== null);
+
+    const matches = [deployer, ...tokens].filter((candidate) => this.knownScams.has(candidate.toLowerCase()));
+    const walletAge = firstActivity ? Math.max(0, Math.floor(Date.now() / 1000) - firstActivity.timestamp) : undefined;
+
+    let risk: DeployerInfo["risk"] = "low";
+    if (matches.length > 0) risk = "critical";
+    else if ((walletAge !== undefined && walletAge < 86400) || tokens.length >= 10) risk = "high";
+    else if ((walletAge !== undefined && walletAge < 7 * 86400) || tokens.length >= 3) risk = "medium";
+
+    return {
+      address: deployer,
+      wallet_age_seconds: walletAge,
+      transaction_count: nonce,
+      scanned_nonces: nonce - firstNonce,
+      tokens_deployed: tokens,
+      known_scam_matches: matches,
+      risk,
+    };
+  }
+
+  /**
+   * Detect trading restrictions from the dispatcher and read their current state
+   */
+  private async readRestrictions(
+    web3: Web3,
+    bytecode: BytecodeAnalysis,
+    address: string
+  ): Promise<TradingRestrictions> {
+    const selectors = new Set(bytecode.selectors);
+    const selectorOf = (signature: string) => web3.eth.abi.encodeFunctionSignature(signature).toLowerCase();
+    const found = (kind: RestrictionKind): TradingRestriction => {
+      const functions = this.RESTRICTION_SIGNATURES[kind].filter((signature) => selectors.has(selectorOf(signature)));
+      return { present: functions.length > 0, functions };
+    };
+
+    const tradingToggle = found("trading_toggle");
+    const restrictions: TradingRestrictions = {
+      blacklist: found("blacklist"),
+      whitelist: found("whitelist"),
+      trading_toggle: {
+        ...tradingToggle,
+        reversible: tradingToggle.functions.some((fn) => this.REVERSIBLE_TRADING_SETTERS.includes(fn)),
+      },
+      max_tx: found("max_tx"),
+      max_wallet: found("max_wallet"),
+      cooldown: found("cooldown"),
+    };
+
+    // Public state getters: only call the ones the dispatcher actually has
+    await Promise.all(
+      this.RESTRICTION_GETTERS.filter(({ signature }) => selectors.has(selectorOf(signature))).map(
+        async ({ kind, signature, field }) => {
+          try {
+            const raw = await this.withTimeout(() => this.batcher(web3).call(address, selectorOf(signature)), 5000);
+            const value = parseUint256(web3.eth.abi.decodeParameter("uint256", String(raw)));
+            if (value === undefined) return;
+            const restriction: Record<string, any> = restrictions[kind];
+
+            if (field === "enabled") restriction.enabled ??= value !== 0n;
+            else if (field === "amount") restriction.amount ??= value.toString();
+            else restriction.seconds ??= Number(value);
+          } catch (error: any) {
+            this.log(`Could not read ${signature}: ${error.message}`);
+          }
+        }
+      )
+    );
+
+    return restrictions;
+  }
+
+  /**
+   * Find fee setters and read current fees and fee ceilings from public getters
+   *
+   * Only getters are read; a token that keeps its fees in private variables
+   * reports its setters with no current fee or ceiling.
+   */
+  private async readTaxControl(
+    web3: Web3,
+    bytecode: BytecodeAnalysis,
+    address: string
+  ): Promise<TaxControlInfo> {
+    const selectors = new Set(bytecode.selectors);
+    const selectorOf = (signature: string) => web3.eth.abi.encodeFunctionSignature(signature).toLowerCase();
+    const taxControl: TaxControlInfo = {
+      setters: bytecode.dangerous_functions
+        .filter((fn) => fn.capability === "fee_control")
+        .map((fn) => fn.signature),
+      mutable: false,
+      fee_getters: [],
+    };
+
+    // First getter of a group the dispatcher has and that answers
+    const read = async (signatures: readonly string[]) => {
+      for (const signature of signatures.filter((sig) => selectors.has(selectorOf(sig)))) {
+        try {
+          const raw = await this.withTimeout(() => this.batcher(web3).call(address, selectorOf(signature)), 5000);
+          const value = parseUint256(web3.eth.abi.decodeParameter("uint256", String(raw)));
+          if (value !== undefined) return { signature, value };
+        } catch (error: any) {
+          this.log(`Could not read ${signature}: ${error.message}`);
+        }
+      }
+      return undefined;
+    };
+
+    const [buy, sell, max, denominator] = await Promise.all([
+      read(this.FEE_GETTERS.buy),
+      read(this.FEE_GETTERS.sell),
+      read(this.FEE_GETTERS.max),
+      read(this.FEE_GETTERS.denominator),
+    ]);
+
+    // Fees are percentages unless the token exposes its denominator (e.g. 10000 = basis points)
+    const scale = denominator && denominator.value > 0n ? denominator.value : 100n;
+    const toPercent = (entry?: { signature: string; value: bigint }) => {
+      if (!entry || entry.value > scale) return undefined;
+      taxControl.fee_getters.push(entry.signature);
+      return Number((entry.value * 10000n) / scale) / 100;
+    };
+
+    taxControl.buy_fee = toPercent(buy);
+    taxControl.sell_fee = toPercent(sell);
+    taxControl.max_fee = toPercent(max);
+
+    return taxControl;
+  }
+
+  /**
+   * Express a token amount as a percentage of total supply
+   */
+  private percentOfSupply(amount?: string, totalSupply?: string): number | undefined {
+    if (amount === undefined || !totalSupply || BigInt(totalSupply) === 0n) return undefined;
+    return Number((BigInt(amount) * 10000n) / BigInt(totalSupply)) / 100;
+  }
+
   /**
    * Calculate risk score based on on-chain data
-   * Returns 0-100 (higher = more risky)
+   * Returns 0-100 (higher = more risky) and the factors that added to it
    */
   private calculateRiskScore(
     tokenData: { is_erc20: boolean; checks: Record<string, boolean> },
-    codeSize: number
-  ): number {
-    let score = 0;
+    codeSize: number,
+    deployer?: DeployerInfo,
+    ownership?: OwnershipInfo,
+    restrictions?: TradingRestrictions,
+    taxControl?: TaxControlInfo
+  ): Pick<OnChainCheckResult, "risk_score" | "risk_factors"> {
+    const factors: RiskContribution[] = [];
+    const add = (factor: string, value: RiskContribution["value"], points: number) =>
+      factors.push({ factor, value, points });
 
     // Not ERC20 compliant = high risk
     if (!tokenData.is_erc20) {
-      score += 40;
+      add("is_erc20", false, 40);
     }
 
     const checks = tokenData.checks;
 
     // Missing standard properties
-    if (!checks.has_name) score += 10;
-    if (!checks.has_symbol) score += 10;
-    if (!checks.valid_decimals) score += 15;
-    if (!checks.has_supply) score += 15;
-    if (!checks.has_balance_of) score += 5;
+    if (!checks.has_name) add("has_name", false, 10);
+    if (!checks.has_symbol) add("has_symbol", false, 10);
+    if (!checks.valid_decimals) add("valid_decimals", false, 15);
+    if (!checks.has_supply) add("has_supply", false, 15);
+    if (!checks.has_balance_of) add("has_balance_of", false, 5);
 
     // Suspicious code size
     if (codeSize < 100) {
       // Extremely small contract (likely not legitimate ERC20)
-      score += 20;
+      add("code_size", codeSize, 20);
     } else if (codeSize > 50000) {
       // Unusually large contract (possible obfuscation)
-      score += 10;
+      add("code_size", codeSize, 10);
+    }
+
+    // Deployer reputation
+    if (deployer?.risk === "critical") add("deployer_risk", deployer.risk, 40);
+    else if (deployer?.risk === "high") add("deployer_risk", deployer.risk, 15);
+    else if (deployer?.risk === "medium") add("deployer_risk", deployer.risk, 5);
+
+    // Trading restrictions that can block or trap holders (lists only while someone can edit them)
+    const controllable = !ownership?.renounced || ownership.access_control;
+    if (restrictions?.trading_toggle.enabled === false) add("trading_enabled", false, 20);
+    if (restrictions?.blacklist.present && controllable) add("blacklist", true, 10);
+    if (restrictions?.whitelist.present && restrictions.whitelist.enabled !== false && controllable) {
+      add("whitelist", true, 5);
+    }
+    const tightestLimit = Math.min(
+      restrictions?.max_tx.percent_of_supply ?? 100,
+      restrictions?.max_wallet.percent_of_supply ?? 100
+    );
+    if (tightestLimit < 0.5) add("tightest_limit_percent", tightestLimit, 5);
+
+    // Taxes the owner can raise (worse without a hard-coded ceiling)
+    if (taxControl?.mutable) {
+      const capped = taxControl.max_fee !== undefined && taxControl.max_fee <= 25;
+      add("mutable_tax_max_fee", taxControl.max_fee ?? null, capped ? 5 : 10);
     }
 
-    return Math.min(score, 100);
+    return sumRiskContributions(factors);
   }
 
   /**
@@ -430,6 +1517,36 @@ export class OnChainAnalyzer {
     }
   }
 
+  /**
+   * Multicall3 batcher of a chain's Web3 instance
+   */
+  private batcher(web3: Web3): MulticallBatcher {
+    let batcher = this.multicalls.get(web3);
+    if (!batcher) {
+      batcher = new MulticallBatcher(web3, { verbose: this.verbose });
+      this.multicalls.set(web3, batcher);
+    }
+    return batcher;
+  }
+
+  /**
+   * Call a view function through the chain's batcher and decode its first output
+   */
+  private async callView(
+    web3: Web3,
+    address: string,
+    abi: ReadonlyArray<{ name: string; outputs: ReadonlyArray<{ type: string }> }>,
+    method: string,
+    args: unknown[] = []
+  ): Promise<any> {
+    const fn = abi.find((item) => item.name === method);
+    if (!fn) throw new Error(`Unknown method ${method}`);
+
+    const data = web3.eth.abi.encodeFunctionCall(fn as any, args as any[]);
+    const returnData = await this.batcher(web3).call(address, data);
+    return web3.eth.abi.decodeParameter(fn.outputs[0]!.type, returnData);
+  }
+
   /**
    * Get actual code size (excluding 0x prefix)
    */
@@ -520,4 +1637,12 @@ export class OnChainAnalyzer {
   isChainSupported(chainId: number): boolean {
     return this.web3Instances.has(chainId);
   }
+
+  /**
+   * Confidence added by on-chain data: a readable ERC20 with name and symbol
+   */
+  confidence(result: OnChainCheckResult): number {
+    if (!result.is_erc20) return 0;
+    return 0.05 + (result.checks?.has_name ? 0.025 : 0) + (result.checks?.has_symbol ? 0.025 : 0);
+  }
 }
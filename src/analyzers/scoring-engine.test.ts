@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test";
+import { sumRiskContributions, type Analyzer, type AnalyzerResult } from "./analyzer";
+import { ScoringEngine } from "./scoring-engine";
+
+const analyzer = (source: string, weight: number): Analyzer => ({
+  source,
+  weight,
+  description: `${source} checks`,
+  type: "rpc",
+});
+
+describe("sumRiskContributions", () => {
+  test("adds up the points", () => {
+    const risk = sumRiskContributions([
+      { factor: "blacklist", value: true, points: 10 },
+      { factor: "trading_enabled", value: false, points: 20 },
+    ]);
+
+    expect(risk.risk_score).toBe(30);
+    expect(risk.risk_factors).toHaveLength(2);
+  });
+
+  test("takes points above 100 back with a cap factor", () => {
+    const risk = sumRiskContributions([
+      { factor: "non_transferable", value: true, points: 50 },
+      { factor: "permanent_delegate", value: "Delegate1111111111111111111111111111111111", points: 40 },
+      { factor: "paused", value: true, points: 40 },
+    ]);
+
+    expect(risk.risk_score).toBe(100);
+    expect(risk.risk_factors!.at(-1)).toEqual({ factor: "cap", value: 100, points: -30 });
+    expect(risk.risk_factors!.reduce((sum, factor) => sum + factor.points, 0)).toBe(100);
+  });
+});
+
+describe("ScoringEngine explanation", () => {
+  const engine = new ScoringEngine({
+    analyzers: [analyzer("alpha", 0.6), analyzer("beta", 0.4), analyzer("gamma", 0)],
+  });
+
+  const results: AnalyzerResult[] = [
+    {
+      source: "alpha",
+      ...sumRiskContributions([
+        { factor: "blacklist", value: true, points: 10 },
+        { factor: "trading_enabled", value: false, points: 20 },
+      ]),
+    },
+    { source: "beta", risk_score: 45 },
+    { source: "gamma", risk_score: 90 },
+  ];
+
+  test("lists each source's risk factors under its weight", () => {
+    const { explanation } = engine.aggregate(results);
+
+    expect(explanation.map(({ source, weight, factors }) => ({ source, weight, factors }))).toEqual([
+      {
+        source: "alpha",
+        weight: 0.6,
+        factors: [
+          { factor: "blacklist", value: true, points: 10 },
+          { factor: "trading_enabled", value: false, points: 20 },
+        ],
+      },
+      // Sources that do not itemize count as one factor
+      { source: "beta", weight: 0.4, factors: [{ factor: "risk_score", value: 45, points: 45 }] },
+      { source: "gamma", weight: 0, factors: [{ factor: "risk_score", value: 90, points: 90 }] },
+    ]);
+  });
+
+  test("reproduces the safety score from the factors", () => {
+    const { safety_score, explanation } = engine.aggregate(results);
+
+    const reproduced = explanation.reduce(
+      (sum, { weight, factors }) => sum + weight * (50 - factors.reduce((risk, factor) => risk + factor.points, 0)),
+      50
+    );
+    expect(safety_score).toBe(Math.round(reproduced));
+    expect(safety_score).toBe(64);
+  });
+
+  test("describes the registered sources", () => {
+    expect(engine.describeSources()).toEqual([
+      { source: "alpha", description: "alpha checks", type: "rpc", weight: 0.6 },
+      { source: "beta", description: "beta checks", type: "rpc", weight: 0.4 },
+      { source: "gamma", description: "gamma checks", type: "rpc", weight: 0 },
+    ]);
+  });
+});
@@ -2,19 +2,60 @@
  * Token Safety Scoring Engine - Aggregates multiple data sources
  * 
  * This module combines results from multiple analyzers into a unified safety assessment:
- * - Weighted scoring (60% honeypot.is + 40% on-chain)
+ * - Weighted scoring over registered analyzers (45% honeypot.is + 30% on-chain + 25% sell simulation by default)
  * - Risk level categorization (SAFE to CRITICAL)
+ * - Liquidity (rug-pull) risk from on-chain pool data
+ * - Holder concentration from honeypot.is or the on-chain holder index
+ * - Solana mint authorities and Token-2022 extensions
+ * - Per-source score breakdown that reproduces the safety score
  * - Confidence calculation based on data quality
- * - Warning generation with specific risk flags
+ * - Structured findings (stable code, severity, category, evidence, source) rendered as warnings
  * - Recommendation synthesis with actionable advice
  * 
  * Features:
  * - Intelligent score aggregation
+ * - Pluggable data sources through the Analyzer interface
  * - Graceful degradation when sources fail
  * - Context-aware recommendations
  * - Comprehensive risk analysis
  */
 
+import type {
+  Analyzer,
+  AnalyzerResult,
+  Finding,
+  FindingEvidence,
+  FindingSeverity,
+  RiskContribution,
+} from "./analyzer";
+
+/**
+ * Part a source plays in the built-in warnings and risk categories
+ */
+type SourceRole = "honeypot" | "onchain" | "simulation" | "liquidity" | "holders";
+
+/**
+ * One source's contribution to the safety score
+ *
+ * safety_score = round(50 + sum of points), clamped to 0-100: 50 is the score
+ * without data, and each counted source moves it by weight × (50 - risk score).
+ * The source's risk score is the sum of its factors' points.
+ */
+export interface ScoreFactor {
+  /** Data source the contribution comes from */
+  source: string;
+  /** Risk score reported by the source (null when it failed) */
+  value: number | null;
+  /** Factors behind the risk score, each with the risk points it added */
+  factors: RiskContribution[];
+  /** Weight of the source, renormalized over the counted sources (0 when not counted) */
+  weight: number;
+  /** Safety points added (positive) or removed (negative) */
+  points: number;
+  /** Why the source was not counted */
+  excluded_reason?: string;
+}
+
 /**
  * Comprehensive safety analysis result
  */
@@ -27,65 +68,113 @@ export interface SafetyResult {
   is_honeypot: boolean;
   /** Confidence in analysis 0.0-1.0 */
   confidence: number;
-  /** Specific risk warnings */
+  /** Specific risk findings with stable codes, severity, category and evidence */
+  findings: Finding[];
+  /** Human-readable view of the findings */
   warnings: string[];
   /** Actionable recommendations */
   recommendations: string[];
   /** Data sources that provided results */
   sources_checked: string[];
-  /** Raw data from all sources */
-  raw_data: {
-    honeypot: Record<string, any>;
-    onchain: Record<string, any>;
-  };
+  /** Contribution of each source to safety_score */
+  explanation: ScoreFactor[];
+  /** Raw data from all sources, by source name */
+  raw_data: Record<string, Record<string, any>>;
   /** Additional analysis metadata */
   metadata?: {
     /** Tax risk level */
     tax_risk?: "none" | "low" | "medium" | "high" | "critical";
+    /** Risk of taxes being raised later (absent when not analyzed) */
+    tax_mutability_risk?: "none" | "low" | "medium" | "high" | "critical";
     /** Centralization risk level */
     centralization_risk?: "none" | "low" | "medium" | "high" | "critical";
     /** Technical risk level */
     technical_risk?: "none" | "low" | "medium" | "high" | "critical";
-    /** Number of red flags found */
+    /** Rug-pull risk from DEX liquidity (absent when not analyzed) */
+    liquidity_risk?: "none" | "low" | "medium" | "high" | "critical";
+    /** Number of red flags found (critical findings) */
     red_flags_count?: number;
     /** Whether token passed basic checks */
     passed_basic_checks?: boolean;
   };
 }
 
+/**
+ * A registered data source, as listed in the agent manifest
+ */
+export interface SourceInfo {
+  /** Source name of its results */
+  source: string;
+  /** What the source checks */
+  description: string;
+  /** Third-party API or the chain's RPC */
+  type: "api" | "rpc";
+  /** Weight of its risk score in the safety score (overrides applied) */
+  weight: number;
+}
+
 /**
  * Configuration options for ScoringEngine
  */
 export interface ScoringEngineOptions {
-  /** Weight for honeypot.is data (0-1, default 0.6) */
-  honeypotWeight?: number;
-  /** Weight for on-chain data (0-1, default 0.4) */
-  onchainWeight?: number;
+  /** Data sources to register up front (see register) */
+  analyzers?: Analyzer[];
+  /** Weight overrides by source name, e.g. { simulation: 0 } */
+  weights?: Record<string, number>;
   /** Whether to enable verbose logging */
   verbose?: boolean;
 }
 
 /**
- * ScoringEngine - Aggregates safety scores from multiple sources
+ * ScoringEngine - Aggregates safety scores from registered data sources
  * 
- * Uses weighted algorithm:
- * - 60% weight to honeypot.is API (scam detection specialist)
- * - 40% weight to on-chain analysis (technical validation)
+ * Each registered Analyzer contributes its risk score with the weight it declares:
+ * - 45% weight to honeypot.is API (scam detection specialist)
+ * - 30% weight to on-chain analysis (technical validation; mint analysis on Solana)
+ * - 25% weight to the local sell simulation (independent honeypot check)
+ * - Liquidity and holder concentration weigh 0 and are rated separately
+ *
+ * Weights are renormalized over the sources that returned data, so without a
+ * simulation honeypot.is and on-chain keep their 60/40 split. Results from
+ * unregistered sources only add their findings and sources_checked entry.
  * 
  * Usage:
  * ```typescript
  * const engine = new ScoringEngine({ verbose: true });
- * const result = engine.aggregateResults(honeypotData, onchainData);
+ * engine.register(honeypotChecker, onchainAnalyzer, sellSimulator);
+ *
+ * const result = engine.aggregate([honeypotData, onchainData, simulationData]);
  * 
  * console.log(`Safety Score: ${result.safety_score}`);
  * console.log(`Risk Level: ${result.risk_level}`);
  * ```
  */
 export class ScoringEngine {
-  private readonly honeypotWeight: number;
-  private readonly onchainWeight: number;
+  private readonly analyzers: Map<string, Analyzer> = new Map();
+  private readonly weightOverrides: Record<string, number>;
   private readonly verbose: boolean;
 
+  /**
+   * Sources the built-in warnings and risk categories read, by role
+   * (Solana mint data plays the on-chain role, its largest accounts the holders role)
+   */
+  private readonly ROLE_SOURCES: Record<SourceRole, string[]> = {
+    honeypot: ["honeypot.is"],
+    onchain: ["onchain", "solana"],
+    simulation: ["simulation"],
+    liquidity: ["liquidity"],
+    holders: ["holders", "solana_holders"],
+  };
+
+  /**
+   * Warning prefix per finding severity
+   */
+  private readonly SEVERITY_ICONS: Record<FindingSeverity, string> = {
+    critical: "🚨",
+    warning: "⚠️",
+    info: "ℹ️",
+  };
+
   /**
    * Risk level thresholds based on safety_score
    * Higher score = safer token
@@ -108,33 +197,68 @@ export class ScoringEngine {
     CRITICAL: 50,
   };
 
+  /**
+   * Bytecode capabilities that let a controller hurt holders
+   */
+  private readonly PRIVILEGED_CAPABILITIES = [
+    "mint",
+    "pause",
+    "blacklist",
+    "whitelist",
+    "fee_control",
+    "max_tx_control",
+    "trading_control",
+  ];
+
   constructor(options: ScoringEngineOptions = {}) {
-    this.honeypotWeight = options.honeypotWeight ?? 0.6;
-    this.onchainWeight = options.onchainWeight ?? 0.4;
+    this.weightOverrides = options.weights ?? {};
     this.verbose = options.verbose ?? false;
 
-    // Validate weights sum to 1
-    const totalWeight = this.honeypotWeight + this.onchainWeight;
-    if (Math.abs(totalWeight - 1.0) > 0.01) {
-      console.warn(`Weights don't sum to 1.0 (sum: ${totalWeight}), normalizing...`);
-      const normFactor = 1.0 / totalWeight;
-      this.honeypotWeight *= normFactor;
-      this.onchainWeight *= normFactor;
+    this.register(...(options.analyzers ?? []));
+  }
+
+  /**
+   * Register data sources; an analyzer replaces one registered earlier under the same source name
+   *
+   * @param analyzers - Analyzers declaring their source name, weight and confidence
+   * @returns The engine, for chaining
+   */
+  register(...analyzers: Analyzer[]): this {
+    for (const analyzer of analyzers) {
+      this.analyzers.set(analyzer.source, analyzer);
+      this.log(`Registered ${analyzer.source} (weight ${this.getWeight(analyzer.source)})`);
     }
+    return this;
+  }
 
-    this.log(`Initialized with weights: honeypot=${this.honeypotWeight}, onchain=${this.onchainWeight}`);
+  /**
+   * Registered source names
+   */
+  getSources(): string[] {
+    return Array.from(this.analyzers.keys());
+  }
+
+  /**
+   * Registered sources with their description and effective weight
+   */
+  describeSources(): SourceInfo[] {
+    return Array.from(this.analyzers.values()).map((analyzer) => ({
+      source: analyzer.source,
+      description: analyzer.description,
+      type: analyzer.type,
+      weight: this.getWeight(analyzer.source),
+    }));
   }
 
   /**
    * Aggregate results from all sources into final safety assessment
    * 
-   * @param honeypotData - Results from honeypot checker
-   * @param onchainData - Results from on-chain analyzer
+   * @param results - One result per source that ran (failed or skipped sources carry an error)
    * @returns Comprehensive safety result
    * 
    * @example
    * ```typescript
-   * const result = engine.aggregateResults(honeypotData, onchainData);
+   * const result = engine.aggregate([honeypotData, onchainData, simulationData]);
    * 
    * if (result.is_honeypot) {
    *   console.error("HONEYPOT DETECTED!");
@@ -143,48 +267,64 @@ export class ScoringEngine {
    * }
    * ```
    */
-  aggregateResults(
-    honeypotData: Record<string, any>,
-    onchainData: Record<string, any>
-  ): SafetyResult {
-    this.log("Aggregating safety results...");
+  aggregate(results: AnalyzerResult[]): SafetyResult {
+    this.log(`Aggregating ${results.length} source result(s)...`);
 
-    // Calculate weighted safety score
-    const safetyScore = this.calculateSafetyScore(honeypotData, onchainData);
+    // Results the built-in warnings read
+    const {
+      honeypot: honeypotData,
+      onchain: onchainData,
+      simulation: simulationData,
+      liquidity: liquidityData,
+      holders: holdersData,
+    } = this.resolveRoles(results);
+
+    // Break the score down by source, then add it up
+    const explanation = this.explainScore(results);
+    const safetyScore = this.calculateSafetyScore(explanation);
 
     // Determine categorical risk level
     const riskLevel = this.getRiskLevel(safetyScore);
 
     // Check if honeypot
-    const isHoneypot = this.checkHoneypot(honeypotData);
+    const isHoneypot = this.checkHoneypot(results);
 
     // Calculate confidence in analysis
-    const confidence = this.calculateConfidence(honeypotData, onchainData);
+    const confidence = this.calculateConfidence(results);
 
-    // Generate specific warnings
-    const warnings = this.generateWarnings(honeypotData, onchainData);
+    // Generate specific findings, then the ones every source reported itself
+    const findings = [
+      ...this.generateFindings(honeypotData, onchainData, simulationData, liquidityData, holdersData),
+      ...this.sourceFindings(results),
+    ];
 
     // Generate actionable recommendations
-    const recommendations = this.generateRecommendations(safetyScore, isHoneypot, warnings);
+    const recommendations = this.generateRecommendations(safetyScore, isHoneypot, findings);
 
     // Track which sources provided data
-    const sources = this.identifySources(honeypotData, onchainData);
+    const sources = this.identifySources(results);
 
     // Generate additional metadata
-    const metadata = this.generateMetadata(honeypotData, onchainData, warnings);
+    const metadata = this.generateMetadata(
+      honeypotData,
+      onchainData,
+      simulationData,
+      liquidityData,
+      holdersData,
+      findings
+    );
 
     const result: SafetyResult = {
       safety_score: safetyScore,
       risk_level: riskLevel,
       is_honeypot: isHoneypot,
       confidence,
-      warnings,
+      findings,
+      warnings: findings.map((finding) => this.renderFinding(finding)),
       recommendations,
       sources_checked: sources,
-      raw_data: {
-        honeypot: honeypotData,
-        onchain: onchainData,
-      },
+      explanation,
+      raw_data: Object.fromEntries(results.map((result) => [result.source, result])),
       metadata,
     };
 
@@ -194,7 +334,7 @@ export class ScoringEngine {
         risk_level: result.risk_level,
         is_honeypot: result.is_honeypot,
         confidence: result.confidence,
-        warnings_count: result.warnings.length,
+        findings_count: result.findings.length,
         sources: result.sources_checked,
       });
     }
@@ -203,46 +343,59 @@ export class ScoringEngine {
   }
 
   /**
-   * Calculate final safety score from multiple sources
-   * Returns 0-100 (higher = safer)
+   * Contribution of each source to the safety score
+   *
+   * The weighted average of (100 - risk) over the counted sources, written as
+   * 50 plus each source's weight × (50 - risk) since the weights sum to 1.
    */
-  private calculateSafetyScore(
-    honeypotData: Record<string, any>,
-    onchainData: Record<string, any>
-  ): number {
-    const scores: number[] = [];
-    const weights: number[] = [];
+  private explainScore(results: AnalyzerResult[]): ScoreFactor[] {
+    const counted = results.filter((result) => !result.error && this.getWeight(result.source) > 0);
+    const totalWeight = counted.reduce((sum, result) => sum + this.getWeight(result.source), 0);
 
-    // Honeypot.is score (convert risk to safety: 100 - risk)
-    if (!honeypotData.error) {
-      const honeypotRisk = this.safeInt(honeypotData.risk_score, 50);
-      const honeypotSafety = 100 - honeypotRisk;
-      scores.push(honeypotSafety);
-      weights.push(this.honeypotWeight);
-      this.log(`Honeypot safety: ${honeypotSafety} (risk: ${honeypotRisk})`);
-    }
+    return results.map((result): ScoreFactor => {
+      if (result.error) {
+        return {
+          source: result.source,
+          value: null,
+          factors: [],
+          weight: 0,
+          points: 0,
+          excluded_reason: result.error,
+        };
+      }
 
-    // On-chain score (convert risk to safety: 100 - risk)
-    if (!onchainData.error) {
-      const onchainRisk = this.safeInt(onchainData.risk_score, 50);
-      const onchainSafety = 100 - onchainRisk;
-      scores.push(onchainSafety);
-      weights.push(this.onchainWeight);
-      this.log(`On-chain safety: ${onchainSafety} (risk: ${onchainRisk})`);
-    }
+      const risk = this.safeInt(result.risk_score, 50);
+      // Sources that do not itemize their score count as a single factor
+      const factors = result.risk_factors ?? [{ factor: "risk_score", value: risk, points: risk }];
+      if (!counted.includes(result)) {
+        return {
+          source: result.source,
+          value: risk,
+          factors,
+          weight: 0,
+          points: 0,
+          excluded_reason: "Not weighted in the safety score",
+        };
+      }
+
+      const weight = this.getWeight(result.source) / totalWeight;
+      this.log(`${result.source} safety: ${100 - risk} (risk: ${risk}, weight: ${weight})`);
+      return { source: result.source, value: risk, factors, weight, points: weight * (50 - risk) };
+    });
+  }
 
-    // If no sources available, return medium risk
-    if (scores.length === 0) {
+  /**
+   * Calculate final safety score from the per-source breakdown
+   * Returns 0-100 (higher = safer; 50 when no source returned data)
+   */
+  private calculateSafetyScore(explanation: ScoreFactor[]): number {
+    const counted = explanation.filter((factor) => factor.weight > 0);
+    if (counted.length === 0) {
       this.log("No data sources available, defaulting to medium risk");
-      return 50;
     }
 
-    // Calculate weighted average
-    const totalWeight = weights.reduce((sum, w) => sum + w, 0);
-    const weightedSum = scores.reduce((sum, score, i) => sum + score * weights[i], 0);
-    const finalScore = Math.round(weightedSum / totalWeight);
-
-    this.log(`Final safety score: ${finalScore} (from ${scores.length} source(s))`);
+    const finalScore = Math.round(50 + counted.reduce((sum, factor) => sum + factor.points, 0));
+    this.log(`Final safety score: ${finalScore} (from ${counted.length} source(s))`);
 
     return Math.max(0, Math.min(100, finalScore));
   }
@@ -261,8 +414,8 @@ export class ScoringEngine {
   /**
    * Check if token is a honeypot from any source
    */
-  private checkHoneypot(honeypotData: Record<string, any>): boolean {
-    return Boolean(honeypotData.is_honeypot);
+  private checkHoneypot(results: AnalyzerResult[]): boolean {
+    return results.some((result) => result.is_honeypot === true);
   }
 
   /**
@@ -273,113 +426,553 @@ export class ScoringEngine {
    * - More data points collected
    * - Sources agree on assessment
    */
-  private calculateConfidence(
-    honeypotData: Record<string, any>,
-    onchainData: Record<string, any>
-  ): number {
+  private calculateConfidence(results: AnalyzerResult[]): number {
     let confidence = 0.5; // Base confidence
+    const working = results.filter((result) => !result.error);
 
-    // Both sources available and working
-    if (!honeypotData.error && !onchainData.error) {
-      confidence += 0.3;
-    } else if (!honeypotData.error || !onchainData.error) {
+    // Weighted sources available and working: two independent ones count most
+    const scored = working.filter((result) => this.getWeight(result.source) > 0);
+    if (scored.length >= 2) {
+      confidence += 0.3 + 0.05 * (scored.length - 2);
+    } else if (scored.length === 1) {
       confidence += 0.1; // At least one source works
     }
 
-    // Honeypot.is has good data
-    if (!honeypotData.error) {
-      if (honeypotData.contract_verified) confidence += 0.1;
-      if (this.safeInt(honeypotData.holder_count) > 100) confidence += 0.05;
-      if (honeypotData.metadata?.liquidity_usd > 10000) confidence += 0.05;
+    // Quality of each source's data, as judged by its analyzer
+    for (const result of working) {
+      confidence += this.analyzers.get(result.source)?.confidence?.(result) ?? 0;
     }
 
-    // On-chain data is valid
-    if (!onchainData.error && onchainData.is_erc20) {
+    // Sources that test sells agree on the verdict
+    const verdicts = working
+      .filter((result) => result.is_honeypot !== null && result.is_honeypot !== undefined)
+      .map((result) => Boolean(result.is_honeypot));
+    if (verdicts.length >= 2 && verdicts.every((verdict) => verdict === verdicts[0])) {
       confidence += 0.05;
-      if (onchainData.checks?.has_name) confidence += 0.025;
-      if (onchainData.checks?.has_symbol) confidence += 0.025;
     }
 
     return Math.min(1.0, confidence);
   }
 
   /**
-   * Generate specific warnings based on findings
+   * Generate structured findings from the built-in sources
    */
-  private generateWarnings(
+  private generateFindings(
     honeypotData: Record<string, any>,
-    onchainData: Record<string, any>
-  ): string[] {
-    const warnings: string[] = [];
+    onchainData: Record<string, any>,
+    simulationData: Record<string, any>,
+    liquidityData: Record<string, any>,
+    holdersData: Record<string, any>
+  ): Finding[] {
+    return [
+      ...this.honeypotFindings(honeypotData, simulationData),
+      ...this.taxFindings(honeypotData, onchainData, simulationData),
+      ...this.holderFindings(honeypotData, holdersData),
+      ...this.liquidityFindings(liquidityData),
+      ...this.contractFindings(honeypotData, onchainData),
+      ...this.ownershipFindings(onchainData),
+      ...this.tradingFindings(onchainData),
+      ...this.deployerFindings(onchainData),
+      ...(onchainData.solana ? this.solanaFindings(onchainData.solana, onchainData.source) : []),
+    ];
+  }
 
-    // Critical: Honeypot detected
-    if (honeypotData.is_honeypot) {
-      warnings.push("⚠️ HONEYPOT DETECTED - Cannot sell this token");
-      if (honeypotData.honeypot_reason) {
-        warnings.push(`Reason: ${honeypotData.honeypot_reason}`);
-      }
+  /**
+   * Honeypot verdict (honeypot.is first, the simulation when it did not flag one)
+   */
+  private honeypotFindings(
+    honeypotData: Record<string, any>,
+    simulationData: Record<string, any>
+  ): Finding[] {
+    const [data, message] = honeypotData.is_honeypot
+      ? [honeypotData, "HONEYPOT DETECTED - Cannot sell this token"]
+      : [simulationData, "HONEYPOT DETECTED - Simulated sell failed"];
+    if (!data.is_honeypot) return [];
+
+    return [
+      {
+        code: "HONEYPOT",
+        severity: "critical",
+        category: "honeypot",
+        evidence: { reason: data.honeypot_reason || null },
+        source: data.source,
+        message: data.honeypot_reason ? `${message} (${data.honeypot_reason})` : message,
+      },
+    ];
+  }
+
+  /**
+   * Buy/sell taxes, who can still change them, and sources disagreeing on them
+   */
+  private taxFindings(
+    honeypotData: Record<string, any>,
+    onchainData: Record<string, any>,
+    simulationData: Record<string, any>
+  ): Finding[] {
+    const findings: Finding[] = [];
+
+    const sellTax = this.getTax("sell_tax", honeypotData, onchainData, simulationData);
+    const sellEvidence = { sell_tax: sellTax.percent };
+    if (sellTax.percent > this.TAX_THRESHOLDS.CRITICAL) {
+      findings.push({
+        code: "EXTREME_SELL_TAX",
+        severity: "critical",
+        category: "tax",
+        evidence: sellEvidence,
+        source: sellTax.source,
+        message: `CRITICAL sell tax: ${sellTax.percent.toFixed(1)}% - Likely scam`,
+      });
+    } else if (sellTax.percent > this.TAX_THRESHOLDS.MEDIUM) {
+      findings.push({
+        code: "HIGH_SELL_TAX",
+        severity: "warning",
+        category: "tax",
+        evidence: sellEvidence,
+        source: sellTax.source,
+        message: `${sellTax.percent > this.TAX_THRESHOLDS.HIGH ? "Very high" : "High"} sell tax: ${sellTax.percent.toFixed(1)}%`,
+      });
+    } else if (sellTax.percent > this.TAX_THRESHOLDS.LOW) {
+      findings.push({
+        code: "MODERATE_SELL_TAX",
+        severity: "info",
+        category: "tax",
+        evidence: sellEvidence,
+        source: sellTax.source,
+        message: `Moderate sell tax: ${sellTax.percent.toFixed(1)}%`,
+      });
+    }
+
+    const buyTax = this.getTax("buy_tax", honeypotData, onchainData, simulationData);
+    if (buyTax.percent > this.TAX_THRESHOLDS.LOW) {
+      const high = buyTax.percent > this.TAX_THRESHOLDS.MEDIUM;
+      findings.push({
+        code: high ? "HIGH_BUY_TAX" : "MODERATE_BUY_TAX",
+        severity: high ? "warning" : "info",
+        category: "tax",
+        evidence: { buy_tax: buyTax.percent },
+        source: buyTax.source,
+        message: `${buyTax.percent > this.TAX_THRESHOLDS.HIGH ? "Very high" : high ? "High" : "Moderate"} buy tax: ${buyTax.percent.toFixed(1)}%`,
+      });
     }
 
-    // Tax warnings
-    const sellTax = this.safeFloat(honeypotData.sell_tax);
-    if (sellTax > this.TAX_THRESHOLDS.CRITICAL) {
-      warnings.push(`🚨 CRITICAL sell tax: ${sellTax.toFixed(1)}% - Likely scam`);
-    } else if (sellTax > this.TAX_THRESHOLDS.HIGH) {
-      warnings.push(`⚠️ Very high sell tax: ${sellTax.toFixed(1)}%`);
-    } else if (sellTax > this.TAX_THRESHOLDS.MEDIUM) {
-      warnings.push(`⚠️ High sell tax: ${sellTax.toFixed(1)}%`);
-    } else if (sellTax > this.TAX_THRESHOLDS.LOW) {
-      warnings.push(`ℹ️ Moderate sell tax: ${sellTax.toFixed(1)}%`);
+    // Taxes the owner can still change
+    const taxControl = onchainData.tax_control;
+    if (taxControl?.mutable) {
+      const ceiling: number | undefined = taxControl.max_fee;
+      findings.push({
+        code: ceiling === undefined ? "TAX_MUTABLE_UNCAPPED" : "TAX_MUTABLE",
+        severity: ceiling !== undefined && ceiling <= this.TAX_THRESHOLDS.HIGH ? "info" : "warning",
+        category: "tax",
+        evidence: { setters: taxControl.setters, max_fee: ceiling ?? null },
+        source: onchainData.source,
+        message:
+          ceiling === undefined
+            ? `Taxes can be changed with no hard-coded maximum (${taxControl.setters.join(", ")})`
+            : ceiling > this.TAX_THRESHOLDS.HIGH
+              ? `Taxes can be raised up to ${ceiling.toFixed(1)}%`
+              : `Taxes can be changed, capped at ${ceiling.toFixed(1)}%`,
+      });
     }
 
-    const buyTax = this.safeFloat(honeypotData.buy_tax);
-    if (buyTax > this.TAX_THRESHOLDS.HIGH) {
-      warnings.push(`⚠️ Very high buy tax: ${buyTax.toFixed(1)}%`);
-    } else if (buyTax > this.TAX_THRESHOLDS.MEDIUM) {
-      warnings.push(`⚠️ High buy tax: ${buyTax.toFixed(1)}%`);
-    } else if (buyTax > this.TAX_THRESHOLDS.LOW) {
-      warnings.push(`ℹ️ Moderate buy tax: ${buyTax.toFixed(1)}%`);
+    // Sources disagree on the sell tax: the token may treat wallets differently
+    if (
+      honeypotData.sell_tax !== null && honeypotData.sell_tax !== undefined &&
+      simulationData.sell_tax !== null && simulationData.sell_tax !== undefined &&
+      Math.abs(this.safeFloat(honeypotData.sell_tax) - this.safeFloat(simulationData.sell_tax)) > this.TAX_THRESHOLDS.LOW
+    ) {
+      const reported = this.safeFloat(honeypotData.sell_tax);
+      const simulated = this.safeFloat(simulationData.sell_tax);
+      findings.push({
+        code: "SELL_TAX_MISMATCH",
+        severity: "info",
+        category: "tax",
+        evidence: { honeypot_sell_tax: reported, simulation_sell_tax: simulated },
+        source: simulationData.source,
+        message: `Sell tax differs between sources: ${reported.toFixed(1)}% (honeypot.is) vs ${simulated.toFixed(1)}% (simulation)`,
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Holder concentration (honeypot.is first, the on-chain index when it has no data)
+   */
+  private holderFindings(
+    honeypotData: Record<string, any>,
+    holdersData: Record<string, any>
+  ): Finding[] {
+    const findings: Finding[] = [];
+
+    const top10Percent = this.getTop10Percent(honeypotData, holdersData);
+    const source = honeypotData.top_10_holders_percent !== null && honeypotData.top_10_holders_percent !== undefined
+      ? honeypotData.source
+      : holdersData.source;
+    if (top10Percent > 50) {
+      const label = top10Percent > 90 ? "EXTREME" : top10Percent > 75 ? "Very high" : "High";
+      findings.push({
+        code: top10Percent > 90 ? "EXTREME_HOLDER_CONCENTRATION" : "HIGH_HOLDER_CONCENTRATION",
+        severity: top10Percent > 90 ? "critical" : "warning",
+        category: "holders",
+        evidence: { top_10_holders_percent: top10Percent },
+        source,
+        message: `${label} centralization: Top 10 holders own ${top10Percent.toFixed(1)}%`,
+      });
     }
 
-    // Holder concentration
-    const top10Percent = this.safeFloat(honeypotData.top_10_holders_percent);
-    if (top10Percent > 90) {
-      warnings.push(`🚨 EXTREME centralization: Top 10 holders own ${top10Percent.toFixed(1)}%`);
-    } else if (top10Percent > 75) {
-      warnings.push(`⚠️ Very high centralization: Top 10 holders own ${top10Percent.toFixed(1)}%`);
-    } else if (top10Percent > 50) {
-      warnings.push(`⚠️ High centralization: Top 10 holders own ${top10Percent.toFixed(1)}%`);
+    const deployerShare = this.safeFloat(holdersData.deployer_share_percent);
+    if (!holdersData.error && deployerShare > 20) {
+      findings.push({
+        code: "DEPLOYER_HOLDS_SUPPLY",
+        severity: "warning",
+        category: "holders",
+        evidence: { deployer: holdersData.deployer ?? null, deployer_share_percent: deployerShare },
+        source: holdersData.source,
+        message: `Deployer still holds ${deployerShare.toFixed(1)}% of circulating supply`,
+      });
     }
 
-    // Contract verification
+    return findings;
+  }
+
+  /**
+   * DEX liquidity: missing pools, unsecured LP tokens and fresh pools
+   */
+  private liquidityFindings(liquidityData: Record<string, any>): Finding[] {
+    if (liquidityData.error) return [];
+
+    const findings: Finding[] = [];
+    const source = liquidityData.source;
+    const primary = liquidityData.pools?.[0];
+
+    if (!primary) {
+      findings.push({
+        code: "NO_LIQUIDITY_POOL",
+        severity: "warning",
+        category: "liquidity",
+        evidence: {},
+        source,
+        message: "No DEX liquidity pool found - Token may not be tradable",
+      });
+    } else if (primary.version === "v2") {
+      const burned = this.safeFloat(primary.lp_burned_percent);
+      const locked = this.safeFloat(primary.lp_locked_percent);
+      if (burned + locked < 50) {
+        findings.push({
+          code: "LIQUIDITY_UNLOCKED",
+          severity: "warning",
+          category: "liquidity",
+          evidence: { pool: primary.address, lp_burned_percent: burned, lp_locked_percent: locked },
+          source,
+          message: `Only ${(burned + locked).toFixed(1)}% of liquidity is burned or locked - Liquidity can be pulled`,
+        });
+      }
+    } else {
+      findings.push({
+        code: "LIQUIDITY_LOCK_UNKNOWN",
+        severity: "info",
+        category: "liquidity",
+        evidence: { pool: primary.address, dex: primary.dex },
+        source,
+        message: `Main pool is ${primary.dex} - Liquidity lock status unknown`,
+      });
+    }
+
+    if (primary?.age_seconds !== undefined && primary.age_seconds < 86400) {
+      findings.push({
+        code: "NEW_LIQUIDITY_POOL",
+        severity: "warning",
+        category: "liquidity",
+        evidence: { pool: primary.address, age_seconds: primary.age_seconds },
+        source,
+        message: "Liquidity pool created less than 24 hours ago",
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Contract verification, proxies, token standard and code size
+   */
+  private contractFindings(
+    honeypotData: Record<string, any>,
+    onchainData: Record<string, any>
+  ): Finding[] {
+    const findings: Finding[] = [];
+
     if (honeypotData.contract_verified === false) {
-      warnings.push("⚠️ Contract source code not verified");
+      findings.push({
+        code: "UNVERIFIED_SOURCE",
+        severity: "warning",
+        category: "contract",
+        evidence: {},
+        source: honeypotData.source,
+        message: "Contract source code not verified",
+      });
     }
 
-    // Proxy pattern
-    if (honeypotData.is_proxy) {
-      warnings.push("⚠️ Proxy contract - Implementation can be changed by owner");
+    // Proxy pattern (on-chain resolution knows who can upgrade; honeypot.is only flags it)
+    const proxy = onchainData.proxy;
+    if (proxy?.is_proxy) {
+      findings.push(this.proxyFinding(proxy, onchainData.source));
+    } else if (honeypotData.is_proxy) {
+      findings.push({
+        code: "PROXY_UPGRADEABLE",
+        severity: "warning",
+        category: "contract",
+        evidence: {},
+        source: honeypotData.source,
+        message: "Proxy contract - Implementation can be changed by owner",
+      });
     }
 
     // On-chain warnings
+    const solana = onchainData.source === "solana";
     if (onchainData.is_contract === false) {
-      warnings.push("🚨 Not a smart contract - EOA addresses cannot be tokens");
+      findings.push({
+        code: solana ? "ACCOUNT_NOT_FOUND" : "NOT_A_CONTRACT",
+        severity: "critical",
+        category: "contract",
+        evidence: {},
+        source: onchainData.source,
+        message: solana ? "Account does not exist on Solana" : "Not a smart contract - EOA addresses cannot be tokens",
+      });
     }
 
     if (onchainData.is_erc20 === false && onchainData.is_contract) {
-      warnings.push("⚠️ Does not implement standard ERC20 interface");
+      findings.push({
+        code: solana ? "NOT_A_MINT" : "NOT_ERC20",
+        severity: solana ? "critical" : "warning",
+        category: "contract",
+        evidence: {},
+        source: onchainData.source,
+        message: solana ? "Account is not an SPL token mint" : "Does not implement standard ERC20 interface",
+      });
+    }
+
+    const codeSize = proxy?.implementation_code_size ?? onchainData.code_size;
+    if (codeSize !== null && codeSize !== undefined && (codeSize < 100 || codeSize > 50000)) {
+      findings.push({
+        code: codeSize < 100 ? "SMALL_CONTRACT" : "LARGE_CONTRACT",
+        severity: "warning",
+        category: "contract",
+        evidence: { code_size: codeSize },
+        source: onchainData.source,
+        message: codeSize < 100 ? "Suspiciously small contract code" : "Unusually large contract - Possible obfuscation",
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Owner and admin roles held by single wallets or unidentified contracts
+   */
+  private ownershipFindings(onchainData: Record<string, any>): Finding[] {
+    const findings: Finding[] = [];
+    const ownership = onchainData.ownership;
+
+    if (ownership && !ownership.renounced && ownership.owner) {
+      const privileged = this.getPrivilegedCapabilities(onchainData);
+
+      if (ownership.owner_type === "eoa") {
+        findings.push({
+          code: "OWNER_IS_EOA",
+          severity: privileged.length > 0 ? "warning" : "info",
+          category: "ownership",
+          evidence: { owner: ownership.owner, capabilities: privileged },
+          source: onchainData.source,
+          message:
+            privileged.length > 0
+              ? `Owner is a single wallet (EOA) that controls: ${privileged.join(", ")}`
+              : "Owned by a single wallet (EOA)",
+        });
+      } else if (ownership.owner_type === "contract") {
+        findings.push({
+          code: "OWNER_UNKNOWN_CONTRACT",
+          severity: "info",
+          category: "ownership",
+          evidence: { owner: ownership.owner },
+          source: onchainData.source,
+          message: "Owner is an unidentified contract (not a known multisig or timelock)",
+        });
+      }
     }
 
-    const codeSize = onchainData.code_size;
-    if (codeSize !== null && codeSize !== undefined) {
-      if (codeSize < 100) {
-        warnings.push("⚠️ Suspiciously small contract code");
-      } else if (codeSize > 50000) {
-        warnings.push("⚠️ Unusually large contract - Possible obfuscation");
+    for (const role of ownership?.roles || []) {
+      const eoaHolders: string[] = role.holders
+        .filter(
+          (holder: { address: string; type: string }) =>
+            holder.type === "eoa" && holder.address !== ownership.owner
+        )
+        .map((holder: { address: string }) => holder.address);
+      if (eoaHolders.length > 0) {
+        findings.push({
+          code: "ROLE_HELD_BY_EOA",
+          severity: "warning",
+          category: "ownership",
+          evidence: { role: role.role, holders: eoaHolders },
+          source: onchainData.source,
+          message: `${role.role} held by ${eoaHolders.length} single wallet(s) (EOA)`,
+        });
       }
     }
 
-    return warnings;
+    return findings;
+  }
+
+  /**
+   * Trading restrictions (setters only matter while someone still controls the token)
+   */
+  private tradingFindings(onchainData: Record<string, any>): Finding[] {
+    const restrictions = onchainData.restrictions;
+    if (!restrictions) return [];
+
+    const findings: Finding[] = [];
+    const source = onchainData.source;
+    const ownership = onchainData.ownership;
+    const controllable = !ownership?.renounced || ownership.access_control;
+
+    if (restrictions.trading_toggle.enabled === false) {
+      findings.push({
+        code: "TRADING_DISABLED",
+        severity: "critical",
+        category: "trading",
+        evidence: {},
+        source,
+        message: "Trading is currently disabled - Buys and sells may revert",
+      });
+    } else if (restrictions.trading_toggle.reversible && controllable) {
+      findings.push({
+        code: "TRADING_TOGGLE",
+        severity: "warning",
+        category: "trading",
+        evidence: {},
+        source,
+        message: "Owner can switch trading off at any time",
+      });
+    }
+
+    if (restrictions.blacklist.present && controllable) {
+      findings.push({
+        code: "BLACKLIST",
+        severity: "warning",
+        category: "trading",
+        evidence: {},
+        source,
+        message: "Blacklist functions present - Wallets can be blocked from selling",
+      });
+    }
+
+    if (restrictions.whitelist.present && restrictions.whitelist.enabled !== false && controllable) {
+      findings.push({
+        code: "WHITELIST",
+        severity: "warning",
+        category: "trading",
+        evidence: {},
+        source,
+        message: "Whitelist functions present - Trading may be limited to approved wallets",
+      });
+    }
+
+    for (const [label, limit] of [["transaction", restrictions.max_tx], ["wallet", restrictions.max_wallet]]) {
+      const percent = limit.percent_of_supply;
+      if (percent === undefined || percent >= 100) continue;
+
+      findings.push({
+        code: label === "transaction" ? "MAX_TX_LIMIT" : "MAX_WALLET_LIMIT",
+        severity: percent < 0.5 ? "warning" : "info",
+        category: "trading",
+        evidence: { percent_of_supply: percent },
+        source,
+        message: `Max ${label} limited to ${percent.toFixed(2)}% of supply`,
+      });
+    }
+
+    if (restrictions.cooldown.present && restrictions.cooldown.enabled !== false) {
+      findings.push({
+        code: "TRADE_COOLDOWN",
+        severity: "info",
+        category: "trading",
+        evidence: { seconds: restrictions.cooldown.seconds ?? null },
+        source,
+        message: restrictions.cooldown.seconds
+          ? `Cooldown of ${restrictions.cooldown.seconds}s between trades`
+          : "Cooldown between trades can be enforced",
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Token age and deployer reputation
+   */
+  private deployerFindings(onchainData: Record<string, any>): Finding[] {
+    const findings: Finding[] = [];
+    const source = onchainData.source;
+
+    const tokenAge = onchainData.metadata?.token_age_seconds;
+    if (tokenAge !== undefined && tokenAge < 7 * 86400) {
+      findings.push({
+        code: tokenAge < 86400 ? "NEW_TOKEN" : "RECENT_TOKEN",
+        severity: tokenAge < 86400 ? "warning" : "info",
+        category: "deployer",
+        evidence: { token_age_seconds: tokenAge },
+        source,
+        message: tokenAge < 86400 ? "Token created less than 24 hours ago" : "Token is less than a week old",
+      });
+    }
+
+    const deployer = onchainData.deployer;
+    if (deployer?.known_scam_matches?.length > 0) {
+      findings.push({
+        code: "DEPLOYER_KNOWN_SCAM",
+        severity: "critical",
+        category: "deployer",
+        evidence: { deployer: deployer.address, matches: deployer.known_scam_matches },
+        source,
+        message: `Deployer linked to known scam: ${deployer.known_scam_matches.join(", ")}`,
+      });
+    }
+    if (deployer?.tokens_deployed?.length >= 3) {
+      findings.push({
+        code: "SERIAL_DEPLOYER",
+        severity: "warning",
+        category: "deployer",
+        evidence: { deployer: deployer.address, tokens_deployed: deployer.tokens_deployed },
+        source,
+        message: `Deployer has launched ${deployer.tokens_deployed.length} other tokens`,
+      });
+    }
+    if (deployer?.wallet_age_seconds !== undefined && deployer.wallet_age_seconds < 7 * 86400) {
+      const days = Math.max(1, Math.ceil(deployer.wallet_age_seconds / 86400));
+      findings.push({
+        code: "NEW_DEPLOYER_WALLET",
+        severity: "warning",
+        category: "deployer",
+        evidence: { deployer: deployer.address, wallet_age_seconds: deployer.wallet_age_seconds },
+        source,
+        message: `Deployer wallet is less than ${days} day${days === 1 ? "" : "s"} old`,
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Findings reported by the sources themselves
+   */
+  private sourceFindings(results: AnalyzerResult[]): Finding[] {
+    return results.filter((result) => !result.error).flatMap((result) => result.findings ?? []);
+  }
+
+  /**
+   * Human-readable view of a finding, prefixed with its severity icon
+   */
+  private renderFinding(finding: Finding): string {
+    return `${this.SEVERITY_ICONS[finding.severity]} ${finding.message}`;
   }
 
   /**
@@ -388,7 +981,7 @@ export class ScoringEngine {
   private generateRecommendations(
     safetyScore: number,
     isHoneypot: boolean,
-    warnings: string[]
+    findings: Finding[]
   ): string[] {
     const recommendations: string[] = [];
 
@@ -404,8 +997,8 @@ export class ScoringEngine {
       recommendations.push("✅ Generally safe to interact");
       recommendations.push("✓ Token appears legitimate based on multiple checks");
       recommendations.push("📝 Always verify contract on blockchain explorer");
-      if (warnings.length > 0) {
-        recommendations.push(`⚠️ Note ${warnings.length} minor warning(s) - Review them`);
+      if (findings.length > 0) {
+        recommendations.push(`⚠️ Note ${findings.length} minor warning(s) - Review them`);
       }
     }
     // Low risk range (60-79)
@@ -414,8 +1007,8 @@ export class ScoringEngine {
       recommendations.push("💡 Start with small test transaction (<$10)");
       recommendations.push("🔍 Check recent transactions on blockchain explorer");
       recommendations.push("📊 Verify liquidity and trading volume");
-      if (warnings.length > 0) {
-        recommendations.push(`⚠️ Review ${warnings.length} warning(s) carefully`);
+      if (findings.length > 0) {
+        recommendations.push(`⚠️ Review ${findings.length} warning(s) carefully`);
       }
     }
     // Medium risk range (40-59)
@@ -424,8 +1017,8 @@ export class ScoringEngine {
       recommendations.push("🛑 Only interact if you fully understand the risks");
       recommendations.push("💰 Never invest more than you can afford to lose");
       recommendations.push("🔍 Thoroughly research on multiple sources");
-      if (warnings.length > 0) {
-        recommendations.push(`🚨 ${warnings.length} significant warning(s) found`);
+      if (findings.length > 0) {
+        recommendations.push(`🚨 ${findings.length} significant warning(s) found`);
       }
     }
     // High risk range (20-39)
@@ -433,8 +1026,8 @@ export class ScoringEngine {
       recommendations.push("🚨 VERY HIGH RISK - Strongly advise avoiding");
       recommendations.push("❌ Multiple red flags detected");
       recommendations.push("🛑 High probability of scam or malfunction");
-      if (warnings.length > 0) {
-        recommendations.push(`🚨 Found ${warnings.length} critical warning(s)`);
+      if (findings.length > 0) {
+        recommendations.push(`🚨 Found ${findings.length} critical warning(s)`);
       }
       recommendations.push("💡 Consider safer alternatives");
     }
@@ -443,8 +1036,8 @@ export class ScoringEngine {
       recommendations.push("🚫 CRITICAL RISK - DO NOT INTERACT");
       recommendations.push("❌ Severe issues detected across multiple checks");
       recommendations.push("🚨 Almost certainly a scam or broken token");
-      if (warnings.length > 0) {
-        recommendations.push(`⚠️ ${warnings.length} critical issue(s) found`);
+      if (findings.length > 0) {
+        recommendations.push(`⚠️ ${findings.length} critical issue(s) found`);
       }
       recommendations.push("🛡️ Protect your funds - avoid this token");
     }
@@ -455,18 +1048,26 @@ export class ScoringEngine {
   /**
    * Identify which data sources provided results
    */
-  private identifySources(
-    honeypotData: Record<string, any>,
-    onchainData: Record<string, any>
-  ): string[] {
-    const sources: string[] = [];
-    if (!honeypotData.error && honeypotData.source) {
-      sources.push(honeypotData.source);
-    }
-    if (!onchainData.error && onchainData.source) {
-      sources.push(onchainData.source);
+  private identifySources(results: AnalyzerResult[]): string[] {
+    return results.filter((result) => !result.error && result.source).map((result) => result.source);
+  }
+
+  /**
+   * Results the built-in warnings read, by role ({ error: "Not run" } when no source filled it)
+   */
+  private resolveRoles(results: AnalyzerResult[]): Record<SourceRole, Record<string, any>> {
+    const roles = {} as Record<SourceRole, Record<string, any>>;
+    for (const [role, sources] of Object.entries(this.ROLE_SOURCES) as [SourceRole, string[]][]) {
+      roles[role] = results.find((result) => sources.includes(result.source)) ?? { error: "Not run" };
     }
-    return sources;
+    return roles;
+  }
+
+  /**
+   * Weight of a source's risk score (overrides first, then the registered analyzer; 0 when unknown)
+   */
+  private getWeight(source: string): number {
+    return this.weightOverrides[source] ?? this.analyzers.get(source)?.weight ?? 0;
   }
 
   /**
@@ -475,41 +1076,70 @@ export class ScoringEngine {
   private generateMetadata(
     honeypotData: Record<string, any>,
     onchainData: Record<string, any>,
-    warnings: string[]
+    simulationData: Record<string, any>,
+    liquidityData: Record<string, any>,
+    holdersData: Record<string, any>,
+    findings: Finding[]
   ): SafetyResult["metadata"] {
     // Categorize tax risk
     const maxTax = Math.max(
-      this.safeFloat(honeypotData.buy_tax),
-      this.safeFloat(honeypotData.sell_tax)
+      this.pickValue(honeypotData.buy_tax, simulationData.buy_tax),
+      this.pickValue(honeypotData.sell_tax, simulationData.sell_tax),
+      this.getTransferFee(onchainData)
     );
     const taxRisk = this.categorizeTaxRisk(maxTax);
 
     // Categorize centralization risk
     const centralizationRisk = this.categorizeCentralizationRisk(
-      this.safeFloat(honeypotData.top_10_holders_percent)
+      this.getTop10Percent(honeypotData, holdersData)
     );
 
     // Categorize technical risk
     const technicalRisk = this.categorizeTechnicalRisk(onchainData);
 
-    // Count red flags (critical warnings)
-    const redFlagsCount = warnings.filter((w) => w.includes("🚨")).length;
+    // Count red flags (critical findings)
+    const redFlagsCount = findings.filter((finding) => finding.severity === "critical").length;
 
     // Check if passed basic checks
     const passedBasicChecks =
       onchainData.is_erc20 === true &&
-      honeypotData.is_honeypot === false &&
-      !warnings.some((w) => w.includes("CRITICAL"));
+      honeypotData.is_honeypot !== true &&
+      simulationData.is_honeypot !== true &&
+      (honeypotData.is_honeypot === false || simulationData.is_honeypot === false) &&
+      !findings.some((finding) => finding.code === "EXTREME_SELL_TAX");
 
     return {
       tax_risk: taxRisk,
+      tax_mutability_risk: this.categorizeTaxMutabilityRisk(onchainData),
       centralization_risk: centralizationRisk,
       technical_risk: technicalRisk,
+      liquidity_risk: liquidityData.error ? undefined : this.categorizeLiquidityRisk(liquidityData),
       red_flags_count: redFlagsCount,
       passed_basic_checks: passedBasicChecks,
     };
   }
 
+  /**
+   * Categorize the risk of taxes being raised after purchase
+   */
+  private categorizeTaxMutabilityRisk(
+    onchainData: Record<string, any>
+  ): "none" | "low" | "medium" | "high" | "critical" | undefined {
+    const taxControl = onchainData.tax_control;
+    if (!taxControl) return undefined;
+    if (!taxControl.mutable) return "none";
+
+    // Multisig or timelock owners make a surprise tax hike harder
+    const ownerType = onchainData.ownership?.owner_type ?? onchainData.solana?.transfer_fee?.authority?.type;
+    const guarded = ownerType === "multisig" || ownerType === "timelock";
+    const ceiling: number | undefined = taxControl.max_fee;
+
+    if (ceiling !== undefined && ceiling <= this.TAX_THRESHOLDS.MEDIUM) return "low";
+    if (ceiling !== undefined && ceiling <= this.TAX_THRESHOLDS.HIGH) return guarded ? "low" : "medium";
+    if (guarded) return "medium";
+    return ceiling !== undefined && ceiling < this.TAX_THRESHOLDS.CRITICAL ? "high" : "critical";
+  }
+
   /**
    * Categorize tax risk level
    */
@@ -534,6 +1164,20 @@ export class ScoringEngine {
     return "critical";
   }
 
+  /**
+   * Categorize rug-pull risk from the liquidity analyzer's score
+   */
+  private categorizeLiquidityRisk(
+    liquidityData: Record<string, any>
+  ): "none" | "low" | "medium" | "high" | "critical" {
+    const score = this.safeInt(liquidityData.risk_score, 50);
+    if (score <= 5) return "none";
+    if (score <= 15) return "low";
+    if (score <= 40) return "medium";
+    if (score <= 70) return "high";
+    return "critical";
+  }
+
   /**
    * Categorize technical risk level
    */
@@ -541,16 +1185,361 @@ export class ScoringEngine {
     onchainData: Record<string, any>
   ): "none" | "low" | "medium" | "high" | "critical" {
     if (onchainData.is_contract === false) return "critical";
-    if (onchainData.is_erc20 === false) return "high";
+
+    const controlRisk = this.categorizeControlRisk(onchainData);
+    if (onchainData.is_erc20 === false) return this.maxRisk("high", controlRisk);
     
     const checks = onchainData.checks || {};
     const failedChecks = Object.values(checks).filter((v) => v === false).length;
     
-    if (failedChecks === 0) return "none";
-    if (failedChecks <= 1) return "low";
-    if (failedChecks <= 2) return "medium";
-    if (failedChecks <= 3) return "high";
-    return "critical";
+    let complianceRisk: "none" | "low" | "medium" | "high" | "critical";
+    if (failedChecks === 0) complianceRisk = "none";
+    else if (failedChecks <= 1) complianceRisk = "low";
+    else if (failedChecks <= 2) complianceRisk = "medium";
+    else if (failedChecks <= 3) complianceRisk = "high";
+    else complianceRisk = "critical";
+
+    return this.maxRisk(
+      this.maxRisk(complianceRisk, controlRisk),
+      this.maxRisk(this.categorizeUpgradeRisk(onchainData), this.categorizeSolanaRisk(onchainData))
+    );
+  }
+
+  /**
+   * Categorize the risk of a Solana mint's authorities and extensions
+   * - Transfers blocked or tokens takeable (non-transferable, paused, frozen by default, permanent delegate): critical
+   * - Mint or freeze authority held by a single wallet or unknown account, or a transfer hook: high
+   * - Held by a program-owned account, or transfers pausable: medium
+   * - Held by a multisig, or metadata still mutable: low
+   */
+  private categorizeSolanaRisk(
+    onchainData: Record<string, any>
+  ): "none" | "low" | "medium" | "high" | "critical" {
+    const mint = onchainData.solana;
+    if (!mint) return "none";
+
+    if (mint.non_transferable || mint.pausable?.paused || mint.default_account_state === "frozen" || mint.permanent_delegate) {
+      return "critical";
+    }
+
+    const authorities = [mint.mint_authority, mint.freeze_authority].filter(Boolean);
+    if (authorities.some((authority: { type?: string }) => !authority.type || authority.type === "eoa") || mint.transfer_hook?.program_id) {
+      return "high";
+    }
+    if (authorities.some((authority: { type?: string }) => authority.type === "contract") || mint.pausable?.authority) {
+      return "medium";
+    }
+    if (authorities.length > 0 || mint.metadata?.mutable || mint.transfer_hook?.authority) return "low";
+    return "none";
+  }
+
+  /**
+   * Findings for a Solana mint's authorities and Token-2022 extensions
+   */
+  private solanaFindings(mint: Record<string, any>, source: string): Finding[] {
+    const findings: Finding[] = [];
+
+    if (mint.non_transferable) {
+      findings.push({
+        code: "NON_TRANSFERABLE",
+        severity: "critical",
+        category: "trading",
+        evidence: {},
+        source,
+        message: "Token is non-transferable - It cannot be sold",
+      });
+    }
+    if (mint.pausable?.paused) {
+      findings.push({
+        code: "TRANSFERS_PAUSED",
+        severity: "critical",
+        category: "trading",
+        evidence: { authority: mint.pausable.authority?.address ?? null },
+        source,
+        message: "Transfers are currently paused",
+      });
+    } else if (mint.pausable?.authority) {
+      findings.push({
+        code: "PAUSE_AUTHORITY",
+        severity: "warning",
+        category: "trading",
+        evidence: this.authorityEvidence(mint.pausable.authority),
+        source,
+        message: `Transfers can be paused${this.describeAuthority(mint.pausable.authority)}`,
+      });
+    }
+    if (mint.default_account_state === "frozen") {
+      findings.push({
+        code: "DEFAULT_ACCOUNT_FROZEN",
+        severity: "critical",
+        category: "trading",
+        evidence: { default_account_state: mint.default_account_state },
+        source,
+        message: "New token accounts start frozen - Buyers cannot sell until thawed",
+      });
+    }
+    if (mint.permanent_delegate) {
+      findings.push({
+        code: "PERMANENT_DELEGATE",
+        severity: "critical",
+        category: "ownership",
+        evidence: this.authorityEvidence(mint.permanent_delegate),
+        source,
+        message: `Permanent delegate ${mint.permanent_delegate.address} can transfer or burn tokens from any wallet`,
+      });
+    }
+
+    if (mint.freeze_authority) {
+      findings.push({
+        code: "FREEZE_AUTHORITY",
+        severity: "warning",
+        category: "ownership",
+        evidence: this.authorityEvidence(mint.freeze_authority),
+        source,
+        message: `Freeze authority active - Wallets can be frozen${this.describeAuthority(mint.freeze_authority)}`,
+      });
+    }
+    if (mint.mint_authority) {
+      findings.push({
+        code: "MINT_AUTHORITY",
+        severity: "warning",
+        category: "ownership",
+        evidence: this.authorityEvidence(mint.mint_authority),
+        source,
+        message: `Mint authority active - Supply can be inflated${this.describeAuthority(mint.mint_authority)}`,
+      });
+    }
+
+    if (mint.transfer_hook?.program_id) {
+      findings.push({
+        code: "TRANSFER_HOOK",
+        severity: "warning",
+        category: "trading",
+        evidence: { program_id: mint.transfer_hook.program_id },
+        source,
+        message: `Transfer hook program ${mint.transfer_hook.program_id} runs on every transfer - Sells can be blocked`,
+      });
+    } else if (mint.transfer_hook?.authority) {
+      findings.push({
+        code: "TRANSFER_HOOK_AUTHORITY",
+        severity: "info",
+        category: "trading",
+        evidence: this.authorityEvidence(mint.transfer_hook.authority),
+        source,
+        message: `A transfer hook program can be attached${this.describeAuthority(mint.transfer_hook.authority)}`,
+      });
+    }
+
+    const fee = mint.transfer_fee;
+    if (fee?.scheduled_fee_percent !== undefined) {
+      findings.push({
+        code: "TRANSFER_FEE_SCHEDULED",
+        severity: "warning",
+        category: "tax",
+        evidence: { fee_percent: fee.fee_percent, scheduled_fee_percent: fee.scheduled_fee_percent, scheduled_epoch: fee.scheduled_epoch },
+        source,
+        message: `Transfer fee changes to ${fee.scheduled_fee_percent.toFixed(1)}% at epoch ${fee.scheduled_epoch}`,
+      });
+    }
+
+    if (mint.metadata?.mutable) {
+      findings.push({
+        code: "MUTABLE_METADATA",
+        severity: "info",
+        category: "contract",
+        evidence: this.authorityEvidence(mint.metadata.update_authority),
+        source,
+        message: `Token name, symbol and metadata can be changed${this.describeAuthority(mint.metadata.update_authority)}`,
+      });
+    }
+
+    return findings;
+  }
+
+  /**
+   * Evidence naming who holds a Solana authority
+   */
+  private authorityEvidence(
+    authority: { address: string; type?: string } | null
+  ): Record<string, FindingEvidence> {
+    return { authority: authority?.address ?? null, authority_type: authority?.type ?? null };
+  }
+
+  /**
+   * " by ..." suffix naming who holds a Solana authority
+   */
+  private describeAuthority(authority: { address: string; type?: string } | null): string {
+    if (!authority) return "";
+    if (authority.type === "eoa") return ` by a single wallet (EOA) ${authority.address}`;
+    if (authority.type === "multisig") return ` by a multisig ${authority.address}`;
+    return ` by ${authority.address}`;
+  }
+
+  /**
+   * Categorize the risk of who can replace a proxy's implementation
+   * - Single wallet: high (the token's code can change at any time)
+   * - Unidentified contract or unknown authority: medium
+   * - Multisig or timelock: low
+   * - Not upgradeable or renounced: none
+   */
+  private categorizeUpgradeRisk(
+    onchainData: Record<string, any>
+  ): "none" | "low" | "medium" | "high" | "critical" {
+    const proxy = onchainData.proxy;
+    if (!proxy?.upgradeable) return "none";
+
+    const authority = proxy.upgrade_authority;
+    if (authority?.renounced) return "none";
+    if (authority?.type === "eoa") return "high";
+    if (authority?.type === "multisig" || authority?.type === "timelock") return "low";
+    return "medium";
+  }
+
+  /**
+   * Finding describing a resolved proxy and who can upgrade it
+   */
+  private proxyFinding(proxy: Record<string, any>, source: string): Finding {
+    const standard = String(proxy.standard || "unknown").toUpperCase();
+    const authority = proxy.upgrade_authority;
+    const evidence = {
+      standard: proxy.standard ?? null,
+      implementation: proxy.implementation ?? null,
+      upgrade_authority: authority?.address ?? null,
+      upgrade_authority_type: authority?.type ?? null,
+    };
+
+    if (!proxy.upgradeable) {
+      return {
+        code: "PROXY_FIXED",
+        severity: "info",
+        category: "contract",
+        evidence,
+        source,
+        message: `${standard} minimal proxy - Implementation is fixed`,
+      };
+    }
+    if (authority?.renounced) {
+      return {
+        code: "PROXY_UPGRADE_RENOUNCED",
+        severity: "info",
+        category: "contract",
+        evidence,
+        source,
+        message: `${standard} proxy - Upgrade rights renounced`,
+      };
+    }
+
+    const guarded = authority?.type === "multisig" || authority?.type === "timelock";
+    return {
+      code: "PROXY_UPGRADEABLE",
+      severity: guarded ? "info" : "warning",
+      category: "contract",
+      evidence,
+      source,
+      message:
+        authority?.type === "eoa"
+          ? `${standard} proxy - Implementation can be replaced by a single wallet (EOA) ${authority.address}`
+          : guarded
+            ? `${standard} proxy - Upgrades controlled by a ${authority.type} ${authority.address}`
+            : `${standard} proxy - Implementation can be changed${authority?.address ? ` by ${authority.address}` : ""}`,
+    };
+  }
+
+  /**
+   * Categorize the risk of who controls the token
+   * - Privileged functions held by a single wallet: high
+   * - Held by an unidentified contract or by role holders that couldn't be read: medium
+   * - Held by a multisig or timelock: low
+   * - Renounced or no owner/admin: none
+   */
+  private categorizeControlRisk(
+    onchainData: Record<string, any>
+  ): "none" | "low" | "medium" | "high" | "critical" {
+    const ownership = onchainData.ownership;
+    if (!ownership) return "none";
+
+    const controllers: string[] = [];
+    if (ownership.owner && !ownership.renounced && ownership.owner_type) {
+      controllers.push(ownership.owner_type);
+    }
+    for (const role of ownership.roles || []) {
+      controllers.push(...role.holders.map((holder: { type: string }) => holder.type));
+      if (role.holders_unknown) controllers.push("unknown");
+    }
+
+    if (controllers.length === 0) return "none";
+
+    const privileged = this.getPrivilegedCapabilities(onchainData).length > 0;
+    if (controllers.includes("eoa")) return privileged ? "high" : "low";
+    if (controllers.includes("contract") || controllers.includes("unknown")) return privileged ? "medium" : "low";
+    return privileged ? "low" : "none";
+  }
+
+  /**
+   * Privileged bytecode capabilities of a token
+   */
+  private getPrivilegedCapabilities(onchainData: Record<string, any>): string[] {
+    const capabilities: string[] = onchainData.metadata?.capabilities || [];
+    return capabilities.filter((capability) => this.PRIVILEGED_CAPABILITIES.includes(capability));
+  }
+
+  /**
+   * Top-10 holder share from honeypot.is, falling back to the on-chain holder index
+   */
+  private getTop10Percent(
+    honeypotData: Record<string, any>,
+    holdersData: Record<string, any>
+  ): number {
+    return this.pickValue(
+      honeypotData.top_10_holders_percent,
+      holdersData.error ? null : holdersData.top_10_holders_percent
+    );
+  }
+
+  /**
+   * Solana Token-2022 transfer fee in percent (0 when none)
+   */
+  private getTransferFee(onchainData: Record<string, any>): number {
+    return onchainData.error ? 0 : this.safeFloat(onchainData.solana?.transfer_fee?.fee_percent);
+  }
+
+  /**
+   * Buy or sell tax from honeypot.is, falling back to the simulation, raised to any
+   * Solana transfer fee, with the source it came from
+   */
+  private getTax(
+    field: "buy_tax" | "sell_tax",
+    honeypotData: Record<string, any>,
+    onchainData: Record<string, any>,
+    simulationData: Record<string, any>
+  ): { percent: number; source: string } {
+    const reported = honeypotData[field] !== null && honeypotData[field] !== undefined;
+    const percent = this.pickValue(honeypotData[field], simulationData[field]);
+    const transferFee = this.getTransferFee(onchainData);
+
+    return transferFee > percent
+      ? { percent: transferFee, source: onchainData.source }
+      : { percent, source: reported ? honeypotData.source : simulationData.source };
+  }
+
+  /**
+   * Value from the preferred source, falling back to the other when it has none
+   */
+  private pickValue(preferred: any, fallback: any): number {
+    return preferred !== null && preferred !== undefined
+      ? this.safeFloat(preferred)
+      : this.safeFloat(fallback);
+  }
+
+  /**
+   * The more severe of two risk levels
+   */
+  private maxRisk(
+    a: "none" | "low" | "medium" | "high" | "critical",
+    b: "none" | "low" | "medium" | "high" | "critical"
+  ): "none" | "low" | "medium" | "high" | "critical" {
+    const order = ["none", "low", "medium", "high", "critical"];
+    return order.indexOf(a) >= order.indexOf(b) ? a : b;
   }
 
   /**
@@ -0,0 +1,173 @@
+import { describe, expect, test } from "bun:test";
+import { Web3 } from "web3";
+import { stubProvider } from "../rpc/stub-provider";
+import { SellSimulator, type SimulationDex } from "./sell-simulator";
+
+const abi = new Web3().eth.abi;
+
+const TOKEN = "0x1111111111111111111111111111111111111111";
+const DEX: SimulationDex = {
+  name: "Test Swap",
+  router: "0x2222222222222222222222222222222222222222",
+  wrappedNative: "0x3333333333333333333333333333333333333333",
+  amountIn: 10n ** 16n,
+};
+
+const SELECTORS = {
+  deposit: abi.encodeFunctionSignature("deposit()"),
+  approve: abi.encodeFunctionSignature("approve(address,uint256)"),
+  getAmountsOut: abi.encodeFunctionSignature("getAmountsOut(uint256,address[])"),
+  swap: abi.encodeFunctionSignature(
+    "swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256,uint256,address[],address,uint256)"
+  ),
+  balanceOf: abi.encodeFunctionSignature("balanceOf(address)"),
+};
+
+/**
+ * Token behaviour the stubbed chain plays back
+ */
+interface Market {
+  /** Tokens the router quotes for the buy */
+  quotedTokens: bigint;
+  /** Tokens that actually arrive */
+  receivedTokens: bigint;
+  /** Native the router quotes for the sell */
+  quotedNative: bigint;
+  /** Native that actually arrives */
+  returnedNative: bigint;
+  /** Revert data of the sell swap, if it reverts */
+  sellRevert?: string;
+}
+
+const uint = (value: bigint) => abi.encodeParameter("uint256", value);
+
+/**
+ * Chain answering the simulator's RPC calls from a Market
+ *
+ * Each call inside the aggregate3Value batch is answered by what it is
+ * (target and selector), never by its position, so reading outcomes from the
+ * wrong index shows up as wrong taxes or verdicts.
+ */
+const marketChain = (market: Market, batches: string[][][] = []) =>
+  stubProvider((request) => {
+    if (request.method === "eth_getCode") return "0x6080";
+    if (request.method === "eth_blockNumber") return "0x100";
+    if (request.method !== "eth_call") throw new Error(`Unexpected ${request.method}`);
+
+    const calls = abi.decodeParameter(
+      "(address,bool,uint256,bytes)[]",
+      "0x" + request.params![0].data.slice(10)
+    ) as unknown as Array<Record<number, string>>;
+    batches.push(calls.map((call) => [call[0]!.toLowerCase(), call[3]!.slice(0, 10)]));
+
+    let sold = false;
+    const outcomes = calls.map((call): [boolean, string] => {
+      const to = call[0]!.toLowerCase();
+      const data = call[3]!;
+      const selector = data.slice(0, 10);
+
+      if (selector === SELECTORS.getAmountsOut) {
+        const args = abi.decodeParameters(["uint256", "address[]"], "0x" + data.slice(10)) as any;
+        const buying = args[1][0].toLowerCase() === DEX.wrappedNative;
+        return [true, abi.encodeParameter("uint256[]", [args[0], buying ? market.quotedTokens : market.quotedNative])];
+      }
+      if (selector === SELECTORS.swap) {
+        const args = abi.decodeParameters(
+          ["uint256", "uint256", "address[]", "address", "uint256"],
+          "0x" + data.slice(10)
+        ) as any;
+        if (args[2][0].toLowerCase() !== TOKEN) return [true, "0x"];
+        if (market.sellRevert) return [false, market.sellRevert];
+        sold = true;
+        return [true, "0x"];
+      }
+      if (selector === SELECTORS.balanceOf) {
+        if (to === TOKEN) return [true, uint(sold ? 0n : market.receivedTokens)];
+        return [true, uint(sold ? market.returnedNative : 0n)];
+      }
+      return [true, selector === SELECTORS.approve ? uint(1n) : "0x"];
+    });
+
+    return abi.encodeParameter("(bool,bytes)[]", outcomes);
+  });
+
+const simulatorFor = (market: Market, batches?: string[][][]) =>
+  new SellSimulator({ 1: marketChain(market, batches) }, { dexes: { 1: DEX } });
+
+const market: Market = {
+  quotedTokens: 1000n * 10n ** 18n,
+  receivedTokens: 900n * 10n ** 18n,
+  quotedNative: 8n * 10n ** 15n,
+  returnedNative: 6n * 10n ** 15n,
+};
+
+describe("SellSimulator", () => {
+  test("reads buy and sell taxes from the right calls", async () => {
+    const batches: string[][][] = [];
+    const result = await simulatorFor(market, batches).simulate(TOKEN, 1);
+
+    expect(result.error).toBeUndefined();
+    expect(result.is_honeypot).toBe(false);
+    expect(result.buy_tax).toBe(10);
+    expect(result.sell_tax).toBe(25);
+    expect(result.risk_factors).toEqual([{ factor: "sell_tax", value: 25, points: 70 }]);
+    expect(result.tokens_received).toBe(market.receivedTokens.toString());
+    expect(result.native_returned).toBe(market.returnedNative.toString());
+    expect(result.block_number).toBe(256);
+
+    // The sell pass replays the buy, then approves, quotes and sells the token
+    expect(batches).toHaveLength(2);
+    expect(batches[1]!.slice(0, batches[0]!.length)).toEqual(batches[0]!);
+    expect(batches[1]!.slice(batches[0]!.length)).toEqual([
+      [TOKEN, SELECTORS.approve],
+      [DEX.router, SELECTORS.getAmountsOut],
+      [DEX.wrappedNative, SELECTORS.balanceOf],
+      [DEX.router, SELECTORS.swap],
+      [DEX.wrappedNative, SELECTORS.balanceOf],
+    ]);
+  });
+
+  test("flags a sell that reverts with a reason", async () => {
+    const revert = abi.encodeFunctionSignature("Error(string)") + abi.encodeParameter("string", "TRANSFER_FAILED").slice(2);
+    const result = await simulatorFor({ ...market, sellRevert: revert }).simulate(TOKEN, 1);
+
+    expect(result.is_honeypot).toBe(true);
+    expect(result.risk_score).toBe(100);
+    expect(result.buy_tax).toBe(10);
+    expect(result.sell_revert_reason).toBe("TRANSFER_FAILED");
+    expect(result.honeypot_reason).toBe("Sell reverted: TRANSFER_FAILED");
+  });
+
+  test("decodes panics and custom errors", async () => {
+    const panic = abi.encodeFunctionSignature("Panic(uint256)") + uint(0x11n).slice(2);
+    const panicked = await simulatorFor({ ...market, sellRevert: panic }).simulate(TOKEN, 1);
+    expect(panicked.sell_revert_reason).toBe("Panic(17)");
+
+    const custom = await simulatorFor({ ...market, sellRevert: "0xdeadbeef" + "00".repeat(32) }).simulate(TOKEN, 1);
+    expect(custom.sell_revert_reason).toBe("custom error 0xdeadbeef");
+
+    const bare = await simulatorFor({ ...market, sellRevert: "0x" }).simulate(TOKEN, 1);
+    expect(bare.sell_revert_reason).toBe("reverted without reason");
+  });
+
+  test("flags a sell that returns nothing", async () => {
+    const result = await simulatorFor({ ...market, returnedNative: 0n }).simulate(TOKEN, 1);
+
+    expect(result.is_honeypot).toBe(true);
+    expect(result.honeypot_reason).toBe("Sell returned nothing");
+  });
+
+  test("flags a buy that delivers no tokens", async () => {
+    const result = await simulatorFor({ ...market, receivedTokens: 0n }).simulate(TOKEN, 1);
+
+    expect(result.is_honeypot).toBe(true);
+    expect(result.honeypot_reason).toBe("Buy delivered no tokens");
+  });
+
+  test("reports chains without a configured DEX", async () => {
+    const result = await simulatorFor(market).simulate(TOKEN, 56);
+
+    expect(result.is_honeypot).toBeNull();
+    expect(result.error).toBe("Sell simulation not configured for chain 56");
+  });
+});
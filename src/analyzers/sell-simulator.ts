@@ -0,0 +1,566 @@
+/**
+ * Sell Simulation - Self-hosted honeypot detection via eth_call state overrides
+ *
+ * Simulates a round trip through the chain's main Uniswap V2-style router
+ * without sending a transaction: wrap native currency, buy the token, sell
+ * everything back. Comparing what the router quotes with what actually
+ * arrives gives the effective buy and sell taxes; a sell that reverts (or
+ * returns nothing) is a honeypot.
+ *
+ * How it works:
+ * - A throwaway wallet gets Multicall3's bytecode and a native balance through
+ *   `eth_call` state overrides, so it can run every step in one call with state
+ *   carried over between steps (`aggregate3Value`)
+ * - A first pass learns how many tokens the buy delivers, a second pass sells
+ *   exactly that amount; both are pinned to the same block
+ *
+ * Features:
+ * - Independent second opinion next to honeypot.is (no external API)
+ * - Effective buy/sell taxes including fee-on-transfer tokens
+ * - Revert reasons for failed buys and sells
+ * - Works against any node that supports state overrides (geth, erigon, anvil)
+ */
+
+import { Web3 } from "web3";
+import type { RpcProvider } from "../rpc/rpc-pool";
+import { sumRiskContributions, type Analyzer, type AnalyzerResult } from "./analyzer";
+import { MULTICALL3_ADDRESS } from "./multicall";
+import { MAX_UINT256, parseUint256 } from "./token-amounts";
+
+/**
+ * DEX used for the simulated round trip on one chain
+ */
+export interface SimulationDex {
+  /** DEX name, e.g. "Uniswap V2" */
+  name: string;
+  /** Uniswap V2-compatible router */
+  router: string;
+  /** Wrapped native currency (WETH, WBNB, ...) */
+  wrappedNative: string;
+  /** Native currency spent on the buy, in wei */
+  amountIn: bigint;
+}
+
+/**
+ * Result structure from a sell simulation
+ */
+export interface SellSimulationResult extends AnalyzerResult {
+  /** Data source identifier */
+  source: string;
+  /** Numerical risk score 0-100 (higher = more dangerous) */
+  risk_score: number;
+  /** Whether the simulated sell failed */
+  is_honeypot: boolean | null;
+  /** Effective buy tax percentage (0-100) */
+  buy_tax: number | null;
+  /** Effective sell tax percentage (0-100) */
+  sell_tax: number | null;
+  /** Explanation if honeypot detected */
+  honeypot_reason: string;
+  /** DEX the round trip went through */
+  dex?: string;
+  /** Router address */
+  router?: string;
+  /** Block the simulation ran against */
+  block_number?: number;
+  /** Wrapped native spent on the buy, in wei (decimal string) */
+  amount_in?: string;
+  /** Tokens received from the buy, in base units (decimal string) */
+  tokens_received?: string;
+  /** Wrapped native received from the sell, in wei (decimal string) */
+  native_returned?: string;
+  /** Revert reason of the buy swap */
+  buy_revert_reason?: string;
+  /** Revert reason of the sell swap */
+  sell_revert_reason?: string;
+  /** Error message if the simulation could not run */
+  error?: string;
+}
+
+/**
+ * Configuration options for SellSimulator
+ */
+export interface SellSimulatorOptions {
+  /** DEX per chain (see `ChainRegistry.simulationDexes()`) */
+  dexes?: Record<number, SimulationDex>;
+  /** RPC request timeout in milliseconds */
+  timeout?: number;
+  /** Weight of the simulation in the safety score (default 0.25) */
+  weight?: number;
+  /** Whether to enable verbose logging */
+  verbose?: boolean;
+}
+
+/**
+ * Outcome of one call inside the simulated batch
+ */
+interface CallOutcome {
+  success: boolean;
+  returnData: string;
+}
+
+/**
+ * One aggregate3Value call: target, allowFailure, value, callData
+ */
+type SimulationCall = [string, boolean, bigint, string];
+
+/**
+ * Steps of the buy pass, and the steps the sell pass adds after them
+ */
+type BuyStep = "wrap" | "approve" | "quote" | "buy" | "balance";
+type SellStep = "approveSell" | "sellQuote" | "nativeBefore" | "sell" | "nativeAfter";
+
+/**
+ * SellSimulator - Simulates a buy and a sell of a token via eth_call
+ *
+ * Usage:
+ * ```typescript
+ * const simulator = new SellSimulator(registry.rpcUrls(), { dexes: registry.simulationDexes() });
+ * const result = await simulator.simulate("0x...", 1);
+ *
+ * if (result.is_honeypot) {
+ *   console.log("Cannot sell:", result.honeypot_reason);
+ * }
+ *
+ * // Against a local fork: `anvil --fork-url <rpc>`
+ * const local = new SellSimulator({ 1: "http://127.0.0.1:8545" }, { dexes: registry.simulationDexes() });
+ * ```
+ */
+export class SellSimulator implements Analyzer<SellSimulationResult> {
+  readonly source = "simulation";
+  readonly description = "Local buy/sell round trip via eth_call state overrides (full analyses)";
+  readonly type = "rpc";
+  readonly weight: number;
+  private web3Instances: Map<number, Web3> = new Map();
+  private readonly dexes: Record<number, SimulationDex>;
+  private readonly timeout: number;
+  private readonly verbose: boolean;
+
+  /** Multicall3 bytecode per chain, fetched once */
+  private readonly multicallCode: Map<number, string> = new Map();
+
+  /** Throwaway wallet the simulation runs from */
+  private readonly SIMULATION_WALLET = "0x" + "5ee11517".repeat(5);
+
+  private readonly AGGREGATE3_VALUE_ABI = {
+    name: "aggregate3Value",
+    type: "function",
+    inputs: [
+      {
+        name: "calls",
+        type: "tuple[]",
+        components: [
+          { name: "target", type: "address" },
+          { name: "allowFailure", type: "bool" },
+          { name: "value", type: "uint256" },
+          { name: "callData", type: "bytes" },
+        ],
+      },
+    ],
+  } as const;
+
+  /** Error(string) and Panic(uint256) selectors */
+  private readonly ERROR_SELECTOR = "0x08c379a0";
+  private readonly PANIC_SELECTOR = "0x4e487b71";
+
+  /**
+   * Initialize simulator with RPC URLs for different chains
+   *
+   * @param rpcUrls - Mapping of chain ID to RPC endpoint URL or pool (must support state overrides)
+   * @param options - Configuration options
+   */
+  constructor(rpcUrls: Record<number, RpcProvider>, options: SellSimulatorOptions = {}) {
+    this.dexes = options.dexes ?? {};
+    this.timeout = options.timeout || 10000;
+    this.weight = options.weight ?? 0.25;
+    this.verbose = options.verbose || false;
+
+    for (const [chainIdStr, rpcUrl] of Object.entries(rpcUrls)) {
+      const chainId = Number(chainIdStr);
+      if (!this.dexes[chainId]) continue;
+
+      try {
+        this.web3Instances.set(chainId, new Web3(rpcUrl));
+      } catch (error: any) {
+        console.error(`Error initializing Web3 for chain ${chainId}: ${error.message}`);
+      }
+    }
+
+    this.log(`Initialized with ${this.web3Instances.size} chain(s)`);
+  }
+
+  /**
+   * Simulate buying and selling a token
+   *
+   * @param tokenAddress - Token contract address
+   * @param chainId - Blockchain network ID
+   * @returns Promise resolving to the simulation result
+   *
+   * @example
+   * ```typescript
+   * const result = await simulator.simulate("0x...", 56);
+   * console.log(`Buy tax: ${result.buy_tax}%, sell tax: ${result.sell_tax}%`);
+   * ```
+   */
+  async simulate(tokenAddress: string, chainId: number): Promise<SellSimulationResult> {
+    const web3 = this.web3Instances.get(chainId);
+    const dex = this.dexes[chainId];
+
+    if (!web3 || !dex) {
+      return this.errorResponse(`Sell simulation not configured for chain ${chainId}`);
+    }
+
+    if (!web3.utils.isAddress(tokenAddress)) {
+      return this.errorResponse("Invalid Ethereum address format");
+    }
+
+    const token = tokenAddress.toLowerCase();
+    this.log(`Simulating round trip for ${token} on chain ${chainId} via ${dex.name}`);
+
+    try {
+      const code = await this.getMulticallCode(web3, chainId);
+      if (!code) {
+        return this.errorResponse(`Multicall3 is not deployed on chain ${chainId}`);
+      }
+
+      const blockNumber = await this.withTimeout(() => web3.eth.getBlockNumber(), this.timeout);
+      const block = web3.utils.numberToHex(blockNumber);
+      const buyPath = [dex.wrappedNative, token];
+      const sellPath = [token, dex.wrappedNative];
+      const base = {
+        dex: dex.name,
+        router: dex.router,
+        block_number: Number(blockNumber),
+        amount_in: dex.amountIn.toString(),
+      };
+
+      // Pass 1: buy, to learn how many tokens actually arrive
+      const buySteps = this.buySteps(web3, dex, buyPath);
+      const { quote, buy, balance } = await this.run(web3, code, block, dex.amountIn, buySteps);
+
+      if (!quote.success) {
+        return { ...this.errorResponse(`No ${dex.name} liquidity for this token`), ...base };
+      }
+      if (!buy.success) {
+        const reason = this.decodeRevert(web3, buy.returnData);
+        return { ...this.errorResponse(`Buy simulation reverted: ${reason}`), ...base, buy_revert_reason: reason };
+      }
+
+      const expectedTokens = this.decodeAmountOut(web3, quote.returnData);
+      const received = this.decodeUint(web3, balance);
+      if (received === undefined || received === 0n) {
+        return {
+          ...this.baseResult(),
+          ...base,
+          is_honeypot: true,
+          ...sumRiskContributions([{ factor: "tokens_received", value: "0", points: 100 }]),
+          tokens_received: "0",
+          honeypot_reason: "Buy delivered no tokens",
+        };
+      }
+
+      // Pass 2: the same buy, then sell everything received
+      const sellSteps: Array<[BuyStep | SellStep, SimulationCall]> = [
+        ...buySteps,
+        ["approveSell", this.call(token, this.encode(web3, "approve(address,uint256)", ["address", "uint256"], [dex.router, received]))],
+        ["sellQuote", this.call(dex.router, this.encode(web3, "getAmountsOut(uint256,address[])", ["uint256", "address[]"], [received, sellPath]))],
+        ["nativeBefore", this.call(dex.wrappedNative, this.encode(web3, "balanceOf(address)", ["address"], [this.SIMULATION_WALLET]))],
+        [
+          "sell",
+          this.call(
+            dex.router,
+            this.encode(
+              web3,
+              "swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256,uint256,address[],address,uint256)",
+              ["uint256", "uint256", "address[]", "address", "uint256"],
+              [received, 0, sellPath, this.SIMULATION_WALLET, MAX_UINT256]
+            )
+          ),
+        ],
+        ["nativeAfter", this.call(dex.wrappedNative, this.encode(web3, "balanceOf(address)", ["address"], [this.SIMULATION_WALLET]))],
+      ];
+      const { sellQuote, nativeBefore, sell, nativeAfter } = await this.run(web3, code, block, dex.amountIn, sellSteps);
+
+      const buyTax = this.taxPercent(expectedTokens, received);
+      const result: SellSimulationResult = {
+        ...this.baseResult(),
+        ...base,
+        buy_tax: buyTax,
+        tokens_received: received.toString(),
+      };
+
+      if (!sell.success) {
+        const reason = this.decodeRevert(web3, sell.returnData);
+        return {
+          ...result,
+          is_honeypot: true,
+          ...sumRiskContributions([{ factor: "sell_revert_reason", value: reason, points: 100 }]),
+          sell_revert_reason: reason,
+          honeypot_reason: `Sell reverted: ${reason}`,
+        };
+      }
+
+      const expectedNative = sellQuote.success ? this.decodeAmountOut(web3, sellQuote.returnData) : undefined;
+      const returned = (this.decodeUint(web3, nativeAfter) ?? 0n) - (this.decodeUint(web3, nativeBefore) ?? 0n);
+      if (returned <= 0n) {
+        return {
+          ...result,
+          is_honeypot: true,
+          ...sumRiskContributions([{ factor: "native_returned", value: "0", points: 100 }]),
+          native_returned: "0",
+          honeypot_reason: "Sell returned nothing",
+        };
+      }
+
+      const sellTax = this.taxPercent(expectedNative, returned);
+      const simulated: SellSimulationResult = {
+        ...result,
+        is_honeypot: false,
+        sell_tax: sellTax,
+        native_returned: returned.toString(),
+        ...this.taxRisk(buyTax, sellTax),
+      };
+
+      this.log("Simulation complete:", {
+        token,
+        chainId,
+        buy_tax: simulated.buy_tax,
+        sell_tax: simulated.sell_tax,
+      });
+
+      return simulated;
+    } catch (error: any) {
+      console.error(`Sell simulation error for ${tokenAddress}:`, error.message);
+      return this.errorResponse(`Simulation failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Build a result for a simulation that was intentionally not run
+   * (treated like a failed source by the scoring engine)
+   */
+  skippedResult(reason: string): SellSimulationResult {
+    return this.errorResponse(reason);
+  }
+
+  /**
+   * Check if a specific chain can be simulated
+   */
+  isChainSupported(chainId: number): boolean {
+    return this.web3Instances.has(chainId);
+  }
+
+  /**
+   * Steps that wrap native currency and buy the token
+   * (wrap, approve, quote, swap, read token balance)
+   */
+  private buySteps(web3: Web3, dex: SimulationDex, path: string[]): Array<[BuyStep, SimulationCall]> {
+    const token = path[1]!;
+
+    return [
+      ["wrap", this.call(dex.wrappedNative, this.encode(web3, "deposit()", [], []), dex.amountIn)],
+      ["approve", this.call(dex.wrappedNative, this.encode(web3, "approve(address,uint256)", ["address", "uint256"], [dex.router, dex.amountIn]))],
+      ["quote", this.call(dex.router, this.encode(web3, "getAmountsOut(uint256,address[])", ["uint256", "address[]"], [dex.amountIn, path]))],
+      [
+        "buy",
+        this.call(
+          dex.router,
+          this.encode(
+            web3,
+            "swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256,uint256,address[],address,uint256)",
+            ["uint256", "uint256", "address[]", "address", "uint256"],
+            [dex.amountIn, 0, path, this.SIMULATION_WALLET, MAX_UINT256]
+          )
+        ),
+      ],
+      ["balance", this.call(token, this.encode(web3, "balanceOf(address)", ["address"], [this.SIMULATION_WALLET]))],
+    ];
+  }
+
+  /**
+   * Run named steps from the simulation wallet in a single eth_call
+   *
+   * @returns Outcome of every step by name
+   */
+  private async run<TStep extends string>(
+    web3: Web3,
+    multicallCode: string,
+    block: string,
+    value: bigint,
+    steps: Array<[TStep, SimulationCall]>
+  ): Promise<Record<TStep, CallOutcome>> {
+    const calls = steps.map(([, call]) => call);
+    const data = web3.eth.abi.encodeFunctionCall(this.AGGREGATE3_VALUE_ABI, [calls]);
+    const transaction = {
+      from: this.SIMULATION_WALLET,
+      to: this.SIMULATION_WALLET,
+      value: web3.utils.numberToHex(value),
+      gas: web3.utils.numberToHex(30_000_000),
+      data,
+    };
+    const overrides = {
+      [this.SIMULATION_WALLET]: {
+        code: multicallCode,
+        balance: web3.utils.numberToHex(value * 10n),
+      },
+    };
+
+    const raw = await this.withTimeout(
+      () => web3.requestManager.send({ method: "eth_call", params: [transaction, block, overrides] }),
+      this.timeout
+    );
+
+    const decoded = web3.eth.abi.decodeParameter("(bool,bytes)[]", String(raw)) as unknown as unknown[][];
+    if (decoded.length !== steps.length) {
+      throw new Error(`Expected ${steps.length} call results, got ${decoded.length}`);
+    }
+
+    return Object.fromEntries(
+      steps.map(([name], index) => [
+        name,
+        { success: Boolean(decoded[index]![0]), returnData: String(decoded[index]![1]) },
+      ])
+    ) as Record<TStep, CallOutcome>;
+  }
+
+  /**
+   * Multicall3 bytecode of a chain (injected into the simulation wallet)
+   */
+  private async getMulticallCode(web3: Web3, chainId: number): Promise<string | null> {
+    const cached = this.multicallCode.get(chainId);
+    if (cached) return cached;
+
+    const code = await this.withTimeout(() => web3.eth.getCode(MULTICALL3_ADDRESS), this.timeout);
+    if (!code || code === "0x") return null;
+
+    this.multicallCode.set(chainId, code);
+    return code;
+  }
+
+  /**
+   * One aggregate3Value call (failures allowed so every step reports back)
+   */
+  private call(target: string, callData: string, value: bigint = 0n): SimulationCall {
+    return [target, true, value, callData];
+  }
+
+  /**
+   * ABI-encode a function call from its signature
+   */
+  private encode(web3: Web3, signature: string, types: string[], values: unknown[]): string {
+    const selector = web3.eth.abi.encodeFunctionSignature(signature);
+    return types.length === 0
+      ? selector
+      : selector + web3.eth.abi.encodeParameters(types, values).slice(2);
+  }
+
+  /**
+   * Last element of a getAmountsOut result
+   */
+  private decodeAmountOut(web3: Web3, returnData: string): bigint | undefined {
+    try {
+      const amounts = web3.eth.abi.decodeParameter("uint256[]", returnData) as unknown as unknown[];
+      return parseUint256(amounts[amounts.length - 1]);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * uint256 returned by a successful call
+   */
+  private decodeUint(web3: Web3, outcome: CallOutcome): bigint | undefined {
+    if (!outcome.success) return undefined;
+
+    try {
+      return parseUint256(web3.eth.abi.decodeParameter("uint256", outcome.returnData));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Human-readable revert reason from revert data
+   */
+  private decodeRevert(web3: Web3, returnData: string): string {
+    try {
+      if (returnData.startsWith(this.ERROR_SELECTOR)) {
+        return String(web3.eth.abi.decodeParameter("string", "0x" + returnData.slice(10)));
+      }
+      if (returnData.startsWith(this.PANIC_SELECTOR)) {
+        return `Panic(${web3.eth.abi.decodeParameter("uint256", "0x" + returnData.slice(10))})`;
+      }
+    } catch {
+      // Malformed revert data: fall through to the raw value
+    }
+
+    return returnData && returnData !== "0x" ? `custom error ${returnData.slice(0, 10)}` : "reverted without reason";
+  }
+
+  /**
+   * Percentage of the quoted amount lost in transfer (the DEX fee is already in the quote)
+   */
+  private taxPercent(expected: bigint | undefined, actual: bigint): number | null {
+    if (expected === undefined || expected === 0n) return null;
+    if (actual >= expected) return 0;
+
+    // Basis points keep two decimals without leaving BigInt
+    return Number(((expected - actual) * 10000n) / expected) / 100;
+  }
+
+  /**
+   * Convert the highest effective tax to a risk score (0-100, higher = more dangerous)
+   */
+  private taxRisk(buyTax: number | null, sellTax: number | null): Pick<SellSimulationResult, "risk_score" | "risk_factors"> {
+    const [factor, tax] = (sellTax ?? 0) >= (buyTax ?? 0) ? ["sell_tax", sellTax ?? 0] : ["buy_tax", buyTax ?? 0];
+    const points = tax > 50 ? 90 : tax > 20 ? 70 : tax > 10 ? 45 : tax > 5 ? 20 : 5;
+
+    return sumRiskContributions([{ factor, value: tax, points }]);
+  }
+
+  /**
+   * Execute function with timeout
+   */
+  private async withTimeout<T>(fn: () => Promise<T>, timeoutMs: number): Promise<T> {
+    return Promise.race([
+      fn(),
+      new Promise<T>((_, reject) =>
+        setTimeout(() => reject(new Error("Operation timeout")), timeoutMs)
+      ),
+    ]);
+  }
+
+  /**
+   * Result defaults shared by successful simulations
+   */
+  private baseResult(): SellSimulationResult {
+    return {
+      source: "simulation",
+      risk_score: 50,
+      is_honeypot: null,
+      buy_tax: null,
+      sell_tax: null,
+      honeypot_reason: "",
+    };
+  }
+
+  /**
+   * Create error response with default values
+   */
+  private errorResponse(error: string): SellSimulationResult {
+    return { ...this.baseResult(), error };
+  }
+
+  /**
+   * Conditional logging based on verbose flag
+   */
+  private log(message: string, data?: any): void {
+    if (this.verbose) {
+      if (data) {
+        console.log(`[SellSimulator] ${message}`, data);
+      } else {
+        console.log(`[SellSimulator] ${message}`);
+      }
+    }
+  }
+}
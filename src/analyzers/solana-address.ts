@@ -0,0 +1,146 @@
+/**
+ * Solana Addresses - Base58 public keys and program-derived addresses
+ *
+ * Solana accounts are 32-byte ed25519 public keys written in base58. Program
+ * derived addresses (PDAs) are sha256 hashes of seeds that deliberately fall
+ * off the ed25519 curve, so no private key exists for them. These helpers
+ * cover what the Solana analyzer needs without a Solana SDK dependency.
+ */
+
+import { createHash } from "node:crypto";
+
+const BASE58_ALPHABET = "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+/** ed25519 field prime 2^255 - 19 */
+const P = 2n ** 255n - 19n;
+
+/**
+ * Base58 public key: 32 to 44 characters from the base58 alphabet
+ */
+export const SOLANA_ADDRESS_PATTERN = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+/**
+ * Encode bytes as base58
+ */
+export function encodeBase58(bytes: Uint8Array): string {
+  let value = 0n;
+  for (const byte of bytes) value = (value << 8n) | BigInt(byte);
+
+  let encoded = "";
+  while (value > 0n) {
+    encoded = BASE58_ALPHABET[Number(value % 58n)] + encoded;
+    value /= 58n;
+  }
+
+  // Leading zero bytes are written as leading "1"s
+  for (const byte of bytes) {
+    if (byte !== 0) break;
+    encoded = "1" + encoded;
+  }
+
+  return encoded;
+}
+
+/**
+ * Decode a base58 string
+ *
+ * @returns The bytes, or undefined if the string is not valid base58
+ */
+export function decodeBase58(text: string): Uint8Array | undefined {
+  let value = 0n;
+  for (const char of text) {
+    const digit = BASE58_ALPHABET.indexOf(char);
+    if (digit < 0) return undefined;
+    value = value * 58n + BigInt(digit);
+  }
+
+  const bytes: number[] = [];
+  while (value > 0n) {
+    bytes.unshift(Number(value & 0xffn));
+    value >>= 8n;
+  }
+  for (const char of text) {
+    if (char !== "1") break;
+    bytes.unshift(0);
+  }
+
+  return Uint8Array.from(bytes);
+}
+
+/**
+ * Whether a string is a base58 Solana public key (decodes to 32 bytes)
+ */
+export function isSolanaAddress(address: string): boolean {
+  return SOLANA_ADDRESS_PATTERN.test(address) && decodeBase58(address)?.length === 32;
+}
+
+/**
+ * Whether 32 bytes are a point on the ed25519 curve (a possible wallet key)
+ *
+ * Decompresses the point: y is the little-endian value without the sign bit,
+ * and x² = (y² - 1) / (d·y² + 1) must have a square root mod p.
+ */
+export function isOnCurve(bytes: Uint8Array): boolean {
+  let y = 0n;
+  for (let i = bytes.length - 1; i >= 0; i--) y = (y << 8n) | BigInt(bytes[i]!);
+  y &= (1n << 255n) - 1n;
+  if (y >= P) return false;
+
+  const d = mod(-121665n * modPow(121666n, P - 2n));
+  const y2 = mod(y * y);
+  const u = mod(y2 - 1n);
+  const v = mod(d * y2 + 1n);
+
+  // Candidate root x = u·v³·(u·v⁷)^((p-5)/8); valid if v·x² is ±u
+  const v3 = mod(v * v * v);
+  const x = mod(u * v3 * modPow(mod(u * v3 * v3 * v), (P - 5n) / 8n));
+  const vx2 = mod(v * x * x);
+
+  return vx2 === u || vx2 === mod(-u);
+}
+
+/**
+ * Find the program-derived address of seeds (Solana's findProgramAddress)
+ *
+ * @param seeds - Seed byte strings (each at most 32 bytes)
+ * @param programId - Base58 program ID
+ * @returns Base58 address and bump seed, or undefined if the program ID is invalid
+ */
+export function findProgramAddress(
+  seeds: Uint8Array[],
+  programId: string
+): { address: string; bump: number } | undefined {
+  const program = decodeBase58(programId);
+  if (program?.length !== 32) return undefined;
+
+  for (let bump = 255; bump >= 0; bump--) {
+    const hash = createHash("sha256");
+    for (const seed of seeds) hash.update(seed);
+    hash.update(Uint8Array.of(bump));
+    hash.update(program);
+    hash.update("ProgramDerivedAddress");
+
+    const candidate = new Uint8Array(hash.digest());
+    if (!isOnCurve(candidate)) {
+      return { address: encodeBase58(candidate), bump };
+    }
+  }
+
+  return undefined;
+}
+
+function mod(value: bigint): bigint {
+  const result = value % P;
+  return result < 0n ? result + P : result;
+}
+
+function modPow(base: bigint, exponent: bigint): bigint {
+  let result = 1n;
+  base = mod(base);
+  while (exponent > 0n) {
+    if (exponent & 1n) result = mod(result * base);
+    base = mod(base * base);
+    exponent >>= 1n;
+  }
+  return result;
+}
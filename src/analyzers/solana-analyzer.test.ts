@@ -0,0 +1,74 @@
+import { describe, expect, test } from "bun:test";
+import { generateKeyPairSync } from "crypto";
+import { stubProvider } from "../rpc/stub-provider";
+import { SolanaAnalyzer } from "./solana-analyzer";
+import { encodeBase58, findProgramAddress } from "./solana-address";
+
+const MINT = "EPjFWdd5AufqSo9zqqbTtN4C5ZbqdQK6oKb1Y7MgeZAk";
+const RAYDIUM_AUTHORITY = "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1";
+const ORCA_PROGRAM = "whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc";
+const ESCROW_PROGRAM = "11111111111111111111111111111111";
+
+/** A wallet: an ed25519 public key, on the curve */
+const wallet = () =>
+  encodeBase58(Buffer.from(generateKeyPairSync("ed25519").publicKey.export({ format: "jwk" }).x!, "base64url"));
+
+const WHALE = wallet();
+const TRADER = wallet();
+const WHIRLPOOL = findProgramAddress([Buffer.from("whirlpool")], ORCA_PROGRAM)!.address;
+const ESCROW = findProgramAddress([Buffer.from("escrow")], ESCROW_PROGRAM)!.address;
+
+/** Largest token accounts: [token account, owner, amount] */
+const ACCOUNTS: Array<[string, string, bigint]> = [
+  ["TokenAccount1111111111111111111111111111111", RAYDIUM_AUTHORITY, 400n],
+  ["TokenAccount2222222222222222222222222222222", WHIRLPOOL, 200n],
+  ["TokenAccount3333333333333333333333333333333", ESCROW, 100n],
+  ["TokenAccount4444444444444444444444444444444", WHALE, 200n],
+  ["TokenAccount5555555555555555555555555555555", TRADER, 100n],
+];
+
+/**
+ * Solana chain serving the largest accounts of one mint
+ */
+const mintChain = () =>
+  stubProvider((request) => {
+    const [first] = request.params ?? [];
+
+    switch (request.method) {
+      case "getTokenLargestAccounts":
+        return { value: ACCOUNTS.map(([address, , amount]) => ({ address, amount: amount.toString() })) };
+      case "getTokenSupply":
+        return { value: { amount: "1000", decimals: 6 } };
+      case "getMultipleAccounts":
+        return {
+          value: (first as string[]).map((address) => {
+            const tokenAccount = ACCOUNTS.find(([account]) => account === address);
+            if (tokenAccount) return { data: { parsed: { info: { owner: tokenAccount[1] } } } };
+            if (address === WHIRLPOOL) return { owner: ORCA_PROGRAM };
+            if (address === ESCROW) return { owner: ESCROW_PROGRAM };
+            return null;
+          }),
+        };
+      default:
+        throw new Error(`Unexpected ${request.method}`);
+    }
+  });
+
+describe("SolanaAnalyzer.getTopHolders", () => {
+  test("leaves pool vaults and other program accounts out of the distribution", async () => {
+    const analyzer = new SolanaAnalyzer({ 501: mintChain() });
+    const result = await analyzer.getTopHolders(MINT, 501);
+
+    expect(result.error).toBeUndefined();
+    expect(result.top_holders.map((holder) => holder.address)).toEqual([WHALE, TRADER]);
+    expect(result.circulating_supply).toBe("300");
+    expect(result.top_10_holders_percent).toBe(100);
+    expect(result.excluded).toEqual(
+      expect.arrayContaining([
+        { address: RAYDIUM_AUTHORITY, label: "lp" },
+        { address: WHIRLPOOL, label: "lp" },
+        { address: ESCROW, label: "program" },
+      ])
+    );
+  });
+});
@@ -0,0 +1,816 @@
+/**
+ * Solana Token Analysis - SPL Token and Token-2022 mints via Solana JSON-RPC
+ *
+ * Solana tokens are mint accounts of the SPL Token program (or its successor
+ * Token-2022) rather than contracts with their own code, so the risks live in
+ * the mint's authorities and extensions instead of in bytecode:
+ * - Mint authority (supply can be inflated)
+ * - Freeze authority (token accounts can be frozen, blocking sells)
+ * - Token-2022 extensions: transfer fee, permanent delegate, transfer hook,
+ *   default-frozen accounts, non-transferable, pausable
+ * - Metaplex / Token-2022 metadata and whether it can still be changed
+ * - Largest token accounts and their owners (pool vaults and other program
+ *   accounts excluded, like LP pairs on EVM chains)
+ *
+ * Results use the on-chain analyzer's and holder indexer's shapes so the
+ * scoring engine and the API response treat Solana tokens like EVM tokens.
+ * `is_erc20` reports whether the account is a valid mint, Solana's standard
+ * token interface.
+ *
+ * Features:
+ * - Plain JSON-RPC (jsonParsed encoding), no Solana SDK dependency
+ * - Works with an RPC URL or an RpcPool
+ * - Authority classification (wallet, multisig, program-owned account)
+ * - Graceful error handling
+ */
+
+import type { RpcProvider } from "../rpc/rpc-pool";
+import { sumRiskContributions, type Analyzer, type RiskContribution } from "./analyzer";
+import type { ContractCapability } from "./bytecode-analyzer";
+import type { ExcludedAddress, HolderBalance, HolderDistribution } from "./holder-indexer";
+import type { AccountType, OnChainCheckResult, TaxControlInfo } from "./onchain-analyzer";
+import { decodeBase58, encodeBase58, findProgramAddress, isOnCurve, isSolanaAddress } from "./solana-address";
+import { formatTokenAmount } from "./token-amounts";
+
+/**
+ * Account holding a mint authority
+ */
+export interface SolanaAuthority {
+  /** Base58 address */
+  address: string;
+  /** Kind of account (absent when the account does not exist, e.g. an unfunded PDA) */
+  type?: AccountType;
+}
+
+/**
+ * Token-2022 transfer fee in effect
+ */
+export interface SolanaTransferFee {
+  /** Fee on every transfer in percent */
+  fee_percent: number;
+  /** Maximum fee per transfer in base units (decimal string) */
+  maximum_fee: string;
+  /** Who can change the fee (null when fixed) */
+  authority: SolanaAuthority | null;
+  /** Fee taking effect at a later epoch, in percent */
+  scheduled_fee_percent?: number;
+  /** Epoch the scheduled fee takes effect */
+  scheduled_epoch?: number;
+}
+
+/**
+ * Token metadata and who can change it
+ */
+export interface SolanaTokenMetadata {
+  /** Metaplex metadata account or the Token-2022 metadata extension */
+  standard: "metaplex" | "token-2022";
+  /** Account the metadata is stored in */
+  address: string;
+  /** Who can change the metadata (null when none) */
+  update_authority: SolanaAuthority | null;
+  /** Whether name, symbol and URI can still be changed */
+  mutable: boolean;
+  /** Off-chain metadata URI */
+  uri?: string;
+}
+
+/**
+ * Authorities and extensions of an SPL mint
+ */
+export interface SolanaMintInfo {
+  /** Token program owning the mint */
+  program: "spl-token" | "token-2022";
+  /** Who can mint new tokens (null when minting is disabled for good) */
+  mint_authority: SolanaAuthority | null;
+  /** Who can freeze token accounts (null when none) */
+  freeze_authority: SolanaAuthority | null;
+  /** Token-2022 extension names, as reported by the RPC */
+  extensions: string[];
+  /** Transfer fee (transferFeeConfig extension) */
+  transfer_fee?: SolanaTransferFee;
+  /** Account that can transfer or burn tokens from any holder (permanentDelegate extension) */
+  permanent_delegate?: SolanaAuthority;
+  /** Program invoked on every transfer (transferHook extension) */
+  transfer_hook?: {
+    /** Hook program (null when no hook is set) */
+    program_id: string | null;
+    /** Who can change the hook program (null when fixed) */
+    authority: SolanaAuthority | null;
+  };
+  /** State of newly created token accounts (defaultAccountState extension) */
+  default_account_state?: "initialized" | "frozen";
+  /** Tokens cannot be transferred at all (nonTransferable extension) */
+  non_transferable: boolean;
+  /** Transfers can be paused (pausableConfig extension) */
+  pausable?: {
+    /** Whether transfers are paused right now */
+    paused: boolean;
+    /** Who can pause and resume (null when none) */
+    authority: SolanaAuthority | null;
+  };
+  /** Token metadata (absent when the token has none) */
+  metadata?: SolanaTokenMetadata;
+}
+
+/**
+ * Result structure from Solana mint analysis
+ */
+export interface SolanaCheckResult extends OnChainCheckResult {
+  /** Authorities and extensions of the mint (absent if the account is not a mint) */
+  solana?: SolanaMintInfo;
+}
+
+/**
+ * Configuration options for SolanaAnalyzer
+ */
+export interface SolanaAnalyzerOptions {
+  /** RPC request timeout in milliseconds (URL providers; pools use their own) */
+  timeout?: number;
+  /** Number of top holders returned (default 10) */
+  topHolders?: number;
+  /** Weight of mint analysis in the safety score (default 0.3, like on-chain analysis) */
+  weight?: number;
+  /** Whether to enable verbose logging */
+  verbose?: boolean;
+}
+
+/**
+ * SolanaAnalyzer - Analyzes SPL and Token-2022 mints via Solana JSON-RPC
+ *
+ * Usage:
+ * ```typescript
+ * const analyzer = new SolanaAnalyzer({ 501: "https://api.mainnet-beta.solana.com" });
+ *
+ * const result = await analyzer.analyzeToken("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", 501);
+ * console.log(`Mint authority: ${result.solana?.mint_authority?.address ?? "disabled"}`);
+ *
+ * const holders = await analyzer.getTopHolders("EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v", 501);
+ * console.log(`Top 10 hold ${holders.top_10_holders_percent}%`);
+ * ```
+ */
+export class SolanaAnalyzer implements Analyzer<SolanaCheckResult> {
+  readonly source = "solana";
+  readonly description = "SPL Token and Token-2022 mint authorities, extensions and metadata";
+  readonly type = "rpc";
+  readonly weight: number;
+  private providers: Map<number, RpcProvider> = new Map();
+  private readonly timeout: number;
+  private readonly topHolders: number;
+  private readonly verbose: boolean;
+  private requestId = 0;
+
+  private readonly TOKEN_PROGRAMS: Record<string, SolanaMintInfo["program"]> = {
+    TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA: "spl-token",
+    TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb: "token-2022",
+  };
+
+  private readonly METADATA_PROGRAM = "metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s";
+
+  private readonly SYSTEM_PROGRAM = "11111111111111111111111111111111";
+
+  /** Squads v3 and v4 multisig programs */
+  private readonly MULTISIG_PROGRAMS = [
+    "SMPLecH534NA9acpos4G6x7uf3LWbCAwZQE9e8ZekMu",
+    "SQDS4ep65T869zMMBKyuUq6aD6EgTu8psMjkvj52pCf",
+  ];
+
+  /** Size of an SPL Token multisig account */
+  private readonly TOKEN_MULTISIG_SIZE = 355;
+
+  /** Tokens sent here are gone for good */
+  private readonly BURN_ADDRESSES = ["1nc1nerator11111111111111111111111111111111"];
+
+  /** Vault authorities shared by every pool of an AMM */
+  private readonly AMM_AUTHORITIES = [
+    "5Q544fKrFoe6tsEbD7S8EmxGTJYAKtTVhAW5Q5pge4j1", // Raydium AMM v4
+    "GpMZbSM2GgvTKHJirzeGasWcoSRcgSyDq3T6iuZVCB3Y", // Raydium CPMM
+  ];
+
+  /** AMM programs whose pool accounts own their own vaults */
+  private readonly AMM_PROGRAMS = [
+    "whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc", // Orca Whirlpools
+    "CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK", // Raydium CLMM
+    "LBUZKhRxPF3XUpBCjp4YzTKgLccjZhTSDM9YuVaPwxo", // Meteora DLMM
+  ];
+
+  /**
+   * Initialize analyzer with RPC URLs for different chains
+   *
+   * @param rpcUrls - Mapping of chain ID to Solana RPC endpoint URL or pool
+   * @param options - Configuration options
+   */
+  constructor(rpcUrls: Record<number, RpcProvider>, options: SolanaAnalyzerOptions = {}) {
+    this.timeout = options.timeout || 15000;
+    this.topHolders = options.topHolders || 10;
+    this.weight = options.weight ?? 0.3;
+    this.verbose = options.verbose || false;
+
+    for (const [chainIdStr, rpcUrl] of Object.entries(rpcUrls)) {
+      this.providers.set(Number(chainIdStr), rpcUrl);
+    }
+
+    this.log(`Initialized with ${this.providers.size} chain(s)`);
+  }
+
+  /**
+   * Analyze a mint's authorities, extensions and metadata
+   *
+   * @param mintAddress - Base58 mint address
+   * @param chainId - Network ID the Solana RPC is registered under
+   * @returns Promise resolving to the mint analysis
+   */
+  async analyzeToken(mintAddress: string, chainId: number): Promise<SolanaCheckResult> {
+    if (!this.providers.has(chainId)) {
+      return this.errorResponse(`Chain ${chainId} not configured`);
+    }
+
+    if (!isSolanaAddress(mintAddress)) {
+      return this.errorResponse("Invalid Solana address format");
+    }
+
+    this.log(`Analyzing mint ${mintAddress} on chain ${chainId}`);
+
+    try {
+      // Step 1: Read the mint account
+      const account = await this.rpc<any>(chainId, "getAccountInfo", [mintAddress, { encoding: "jsonParsed" }]);
+      const program = this.TOKEN_PROGRAMS[account?.value?.owner];
+      const parsed = account?.value?.data?.parsed;
+
+      if (!account?.value) {
+        return {
+          source: "solana",
+          is_contract: false,
+          has_code: null,
+          code_size: null,
+          is_erc20: false,
+          risk_score: 100,
+          error: "Account does not exist",
+        };
+      }
+
+      if (!program || parsed?.type !== "mint") {
+        return {
+          source: "solana",
+          is_contract: true,
+          has_code: null,
+          code_size: null,
+          is_erc20: false,
+          risk_score: 100,
+          error: "Account is not an SPL token mint",
+        };
+      }
+
+      const info = parsed.info;
+      const extensions: Array<{ extension: string; state?: any }> = info.extensions ?? [];
+      const extension = (name: string) => extensions.find((entry) => entry.extension === name)?.state;
+
+      // Step 2: Metadata, fee epoch and authority account types
+      const transferFee = extension("transferFeeConfig");
+      const [metadata, epoch] = await Promise.all([
+        this.readMetadata(chainId, mintAddress, extension("tokenMetadata")),
+        transferFee ? this.rpc<any>(chainId, "getEpochInfo", []).then((epochInfo) => Number(epochInfo?.epoch)) : undefined,
+      ]);
+
+      const hook = extension("transferHook");
+      const pausable = extension("pausableConfig");
+      const types = await this.classifyAccounts(chainId, [
+        info.mintAuthority,
+        info.freezeAuthority,
+        transferFee?.transferFeeConfigAuthority,
+        extension("permanentDelegate")?.delegate,
+        hook?.authority,
+        pausable?.authority,
+        metadata?.updateAuthority,
+      ]);
+      const authority = (address: string | null | undefined): SolanaAuthority | null =>
+        address ? { address, type: types.get(address) } : null;
+
+      // Step 3: Build the mint description
+      const decimals = Number(info.decimals);
+      const supply = BigInt(info.supply ?? "0");
+      const mint: SolanaMintInfo = {
+        program,
+        mint_authority: authority(info.mintAuthority),
+        freeze_authority: authority(info.freezeAuthority),
+        extensions: extensions.map((entry) => entry.extension),
+        transfer_fee: transferFee && this.describeTransferFee(transferFee, epoch, authority),
+        permanent_delegate: authority(extension("permanentDelegate")?.delegate) ?? undefined,
+        transfer_hook: hook && { program_id: hook.programId ?? null, authority: authority(hook.authority) },
+        default_account_state: extension("defaultAccountState")?.accountState,
+        non_transferable: extension("nonTransferable") !== undefined,
+        pausable: pausable && { paused: Boolean(pausable.paused), authority: authority(pausable.authority) },
+        metadata: metadata && {
+          standard: metadata.standard,
+          address: metadata.address,
+          update_authority: authority(metadata.updateAuthority),
+          mutable: metadata.mutable,
+          uri: metadata.uri || undefined,
+        },
+      };
+
+      const checks = {
+        has_name: Boolean(metadata?.name),
+        has_symbol: Boolean(metadata?.symbol),
+        valid_decimals: decimals >= 0 && decimals <= 18,
+        has_supply: supply > 0n,
+        // Balances and code are the token program's: always present for a mint
+        has_balance_of: true,
+        reasonable_code_size: true,
+      };
+
+      const result: SolanaCheckResult = {
+        source: "solana",
+        is_contract: true,
+        has_code: null,
+        code_size: null,
+        is_erc20: Boolean(info.isInitialized),
+        name: metadata?.name || undefined,
+        symbol: metadata?.symbol || undefined,
+        decimals,
+        total_supply: supply.toString(),
+        total_supply_formatted: formatTokenAmount(supply, decimals),
+        ...this.calculateRiskScore(mint, checks),
+        checks,
+        metadata: {
+          is_mintable: mint.mint_authority !== null,
+          is_pausable: mint.pausable !== undefined,
+          capabilities: this.getCapabilities(mint),
+        },
+        tax_control: this.describeTaxControl(mint.transfer_fee),
+        solana: mint,
+      };
+
+      this.log("Mint analysis complete:", {
+        mint: mintAddress,
+        program,
+        mint_authority: mint.mint_authority?.address ?? null,
+        freeze_authority: mint.freeze_authority?.address ?? null,
+        extensions: mint.extensions,
+        risk_score: result.risk_score,
+      });
+
+      return result;
+    } catch (error: any) {
+      console.error(`Solana analysis error for ${mintAddress}:`, error.message);
+      return this.errorResponse(`Analysis failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Largest holders of a mint, from its largest token accounts
+   *
+   * The RPC returns the 20 largest token accounts; they are grouped by owner.
+   * Owners off the ed25519 curve are program-derived accounts (pool vaults,
+   * escrows) rather than wallets and are excluded, labelled "lp" when they
+   * belong to a known AMM. The holder count is not available this way and is
+   * reported as null.
+   *
+   * @param mintAddress - Base58 mint address
+   * @param chainId - Network ID the Solana RPC is registered under
+   * @returns Promise resolving to the holder distribution
+   */
+  async getTopHolders(mintAddress: string, chainId: number): Promise<HolderDistribution> {
+    if (!this.providers.has(chainId)) {
+      return this.holderErrorResponse(`Chain ${chainId} not configured`);
+    }
+
+    if (!isSolanaAddress(mintAddress)) {
+      return this.holderErrorResponse("Invalid Solana address format");
+    }
+
+    try {
+      const [largest, supply] = await Promise.all([
+        this.rpc<any>(chainId, "getTokenLargestAccounts", [mintAddress]),
+        this.rpc<any>(chainId, "getTokenSupply", [mintAddress]),
+      ]);
+      const tokenAccounts: Array<{ address: string; amount: string }> = largest?.value ?? [];
+
+      // Token accounts belong to wallets (or programs); group balances by owner
+      const owners = await this.rpc<any>(chainId, "getMultipleAccounts", [
+        tokenAccounts.map((account) => account.address),
+        { encoding: "jsonParsed" },
+      ]);
+      const balances = new Map<string, bigint>();
+      tokenAccounts.forEach((account, i) => {
+        const owner: string = owners?.value?.[i]?.data?.parsed?.info?.owner ?? account.address;
+        balances.set(owner, (balances.get(owner) ?? 0n) + BigInt(account.amount));
+      });
+
+      const excluded: ExcludedAddress[] = [
+        ...this.BURN_ADDRESSES.map((address) => ({ address, label: "burn" as const })),
+        ...(await this.labelProgramOwners(chainId, Array.from(balances.keys()))),
+      ];
+      const skip = new Set(excluded.map((entry) => entry.address));
+      const locked = Array.from(skip).reduce((sum, address) => sum + (balances.get(address) ?? 0n), 0n);
+      const circulating = BigInt(supply?.value?.amount ?? "0") - locked;
+
+      const holders = Array.from(balances.entries())
+        .filter(([address, balance]) => balance > 0n && !skip.has(address))
+        .sort((a, b) => (b[1] > a[1] ? 1 : b[1] < a[1] ? -1 : 0));
+
+      if (circulating <= 0n) {
+        return { ...this.holderErrorResponse("Token has no circulating supply"), excluded };
+      }
+
+      const share = (balance: bigint) => Number((balance * 1_000_000n) / circulating) / 10_000;
+      const top10 = share(holders.slice(0, 10).reduce((sum, [, balance]) => sum + balance, 0n));
+      const topHolders: HolderBalance[] = holders.slice(0, this.topHolders).map(([address, balance]) => ({
+        address,
+        balance: balance.toString(),
+        percent: share(balance),
+      }));
+
+      this.log(`Top 10 holders of ${mintAddress} own ${top10}%`);
+
+      return {
+        source: "solana_holders",
+        ...sumRiskContributions([
+          { factor: "top_10_holders_percent", value: top10, points: this.concentrationToScore(top10) },
+        ]),
+        holder_count: null,
+        top_10_holders_percent: top10,
+        top_holders: topHolders,
+        gini: null,
+        circulating_supply: circulating.toString(),
+        excluded,
+      };
+    } catch (error: any) {
+      console.error(`Solana holder lookup error for ${mintAddress}:`, error.message);
+      return this.holderErrorResponse(`Holder lookup failed: ${error.message}`);
+    }
+  }
+
+  /**
+   * Exclusions for token account owners that are program-derived accounts
+   *
+   * Known AMM vault authorities and accounts of known AMM programs are pool
+   * liquidity ("lp"); any other off-curve owner is a "program" account.
+   */
+  private async labelProgramOwners(chainId: number, owners: string[]): Promise<ExcludedAddress[]> {
+    const programOwned = owners.filter((owner) => {
+      const bytes = decodeBase58(owner);
+      return bytes !== undefined && bytes.length === 32 && !isOnCurve(bytes) && !this.BURN_ADDRESSES.includes(owner);
+    });
+    if (programOwned.length === 0) return [];
+
+    // Which program each owner account belongs to (missing for pure authorities)
+    let programs: Array<string | undefined> = [];
+    try {
+      const accounts = await this.rpc<any>(chainId, "getMultipleAccounts", [
+        programOwned,
+        { encoding: "base64", dataSlice: { offset: 0, length: 0 } },
+      ]);
+      programs = programOwned.map((_, i) => accounts?.value?.[i]?.owner);
+    } catch (error: any) {
+      this.log(`Could not read owner programs: ${error.message}`);
+    }
+
+    return programOwned.map((address, i) => {
+      const program = programs[i];
+      const amm = this.AMM_AUTHORITIES.includes(address) || (program !== undefined && this.AMM_PROGRAMS.includes(program));
+      return { address, label: amm ? "lp" : "program" };
+    });
+  }
+
+  /**
+   * Build a result for a holder lookup that was intentionally not run
+   */
+  skippedHoldersResult(reason: string): HolderDistribution {
+    return this.holderErrorResponse(reason);
+  }
+
+  /**
+   * Read token metadata: the Token-2022 extension, else the Metaplex account
+   */
+  private async readMetadata(
+    chainId: number,
+    mintAddress: string,
+    extension: any
+  ): Promise<
+    | {
+        standard: SolanaTokenMetadata["standard"];
+        address: string;
+        updateAuthority: string | null;
+        mutable: boolean;
+        name: string;
+        symbol: string;
+        uri: string;
+      }
+    | undefined
+  > {
+    if (extension) {
+      return {
+        standard: "token-2022",
+        address: mintAddress,
+        updateAuthority: extension.updateAuthority ?? null,
+        mutable: Boolean(extension.updateAuthority),
+        name: String(extension.name ?? "").trim(),
+        symbol: String(extension.symbol ?? "").trim(),
+        uri: String(extension.uri ?? "").trim(),
+      };
+    }
+
+    const pda = findProgramAddress(
+      [new TextEncoder().encode("metadata"), decodeBase58(this.METADATA_PROGRAM)!, decodeBase58(mintAddress)!],
+      this.METADATA_PROGRAM
+    );
+    if (!pda) return undefined;
+
+    try {
+      const account = await this.rpc<any>(chainId, "getAccountInfo", [pda.address, { encoding: "base64" }]);
+      const data = account?.value?.data?.[0];
+      if (!data || account.value.owner !== this.METADATA_PROGRAM) return undefined;
+
+      return { standard: "metaplex", address: pda.address, ...this.parseMetaplexMetadata(Buffer.from(data, "base64")) };
+    } catch (error: any) {
+      this.log(`Failed to read metadata of ${mintAddress}: ${error.message}`);
+      return undefined;
+    }
+  }
+
+  /**
+   * Decode the fields we need from a Metaplex metadata account (Borsh layout)
+   *
+   * key u8 | update_authority [32] | mint [32] | name, symbol, uri (u32 length + bytes)
+   * | seller_fee_basis_points u16 | creators Option<Vec<[34]>> | primary_sale_happened bool | is_mutable bool
+   */
+  private parseMetaplexMetadata(data: Buffer): {
+    updateAuthority: string | null;
+    mutable: boolean;
+    name: string;
+    symbol: string;
+    uri: string;
+  } {
+    let offset = 65;
+    const readString = () => {
+      const length = data.readUInt32LE(offset);
+      const value = data.subarray(offset + 4, offset + 4 + length).toString("utf8");
+      offset += 4 + length;
+      // Metaplex pads strings to a fixed length with NUL bytes
+      return value.replace(/\0/g, "").trim();
+    };
+
+    const name = readString();
+    const symbol = readString();
+    const uri = readString();
+
+    offset += 2;
+    if (data[offset++] === 1) {
+      offset += 4 + data.readUInt32LE(offset) * 34;
+    }
+    offset += 1;
+
+    // An all-zero update authority (the system program's ID) means nobody
+    const authority = encodeBase58(data.subarray(1, 33));
+    const updateAuthority = authority === this.SYSTEM_PROGRAM ? null : authority;
+    return { updateAuthority, mutable: data[offset] === 1 && updateAuthority !== null, name, symbol, uri };
+  }
+
+  /**
+   * Transfer fee in effect at the current epoch
+   */
+  private describeTransferFee(
+    config: any,
+    epoch: number | undefined,
+    authority: (address: string | null | undefined) => SolanaAuthority | null
+  ): SolanaTransferFee {
+    const older = config.olderTransferFee ?? {};
+    const newer = config.newerTransferFee ?? older;
+    const newerActive = epoch === undefined || Number(newer.epoch) <= epoch;
+    const current = newerActive ? newer : older;
+
+    return {
+      fee_percent: Number(current.transferFeeBasisPoints ?? 0) / 100,
+      maximum_fee: String(current.maximumFee ?? "0"),
+      authority: authority(config.transferFeeConfigAuthority),
+      scheduled_fee_percent: newerActive ? undefined : Number(newer.transferFeeBasisPoints ?? 0) / 100,
+      scheduled_epoch: newerActive ? undefined : Number(newer.epoch),
+    };
+  }
+
+  /**
+   * Transfer fee in the on-chain analyzer's tax control shape
+   */
+  private describeTaxControl(transferFee?: SolanaTransferFee): TaxControlInfo | undefined {
+    if (!transferFee) return undefined;
+
+    const mutable = transferFee.authority !== null;
+    return {
+      setters: mutable ? ["SetTransferFee"] : [],
+      mutable,
+      buy_fee: transferFee.fee_percent,
+      sell_fee: transferFee.fee_percent,
+      // Token-2022 caps the fee at 100% (10000 basis points), i.e. no real ceiling
+      max_fee: mutable ? undefined : transferFee.fee_percent,
+      fee_getters: [],
+    };
+  }
+
+  /**
+   * Classify authority accounts by their owner program
+   */
+  private async classifyAccounts(
+    chainId: number,
+    addresses: Array<string | null | undefined>
+  ): Promise<Map<string, AccountType>> {
+    const unique = Array.from(new Set(addresses.filter((address): address is string => Boolean(address))));
+    const types = new Map<string, AccountType>();
+    if (unique.length === 0) return types;
+
+    try {
+      const accounts = await this.rpc<any>(chainId, "getMultipleAccounts", [unique, { encoding: "base64" }]);
+
+      unique.forEach((address, i) => {
+        const account = accounts?.value?.[i];
+        if (!account) return;
+
+        const size = Buffer.from(account.data?.[0] ?? "", "base64").length;
+        if (account.executable) {
+          types.set(address, "contract");
+        } else if (this.MULTISIG_PROGRAMS.includes(account.owner)) {
+          types.set(address, "multisig");
+        } else if (this.TOKEN_PROGRAMS[account.owner] && size === this.TOKEN_MULTISIG_SIZE) {
+          types.set(address, "multisig");
+        } else if (account.owner === this.SYSTEM_PROGRAM && size === 0) {
+          types.set(address, "eoa");
+        } else {
+          types.set(address, "contract");
+        }
+      });
+    } catch (error: any) {
+      this.log(`Failed to classify authorities: ${error.message}`);
+    }
+
+    return types;
+  }
+
+  /**
+   * Mint powers in the bytecode analyzer's capability vocabulary
+   */
+  private getCapabilities(mint: SolanaMintInfo): ContractCapability[] {
+    const capabilities: ContractCapability[] = [];
+    if (mint.mint_authority) capabilities.push("mint");
+    if (mint.freeze_authority || mint.permanent_delegate) capabilities.push("blacklist");
+    if (mint.pausable?.authority) capabilities.push("pause");
+    if (mint.transfer_fee?.authority) capabilities.push("fee_control");
+    if (mint.transfer_hook?.program_id || mint.transfer_hook?.authority) capabilities.push("trading_control");
+    return capabilities;
+  }
+
+  /**
+   * Calculate risk score based on mint authorities and extensions
+   * Returns 0-100 (higher = more dangerous)
+   */
+  private calculateRiskScore(
+    mint: SolanaMintInfo,
+    checks: Record<string, boolean>
+  ): Pick<SolanaCheckResult, "risk_score" | "risk_factors"> {
+    const factors: RiskContribution[] = [];
+    const add = (factor: string, value: RiskContribution["value"], points: number) =>
+      factors.push({ factor, value, points });
+
+    // Missing standard properties
+    if (!checks.has_name) add("has_name", false, 10);
+    if (!checks.has_symbol) add("has_symbol", false, 10);
+    if (!checks.valid_decimals) add("valid_decimals", false, 15);
+    if (!checks.has_supply) add("has_supply", false, 15);
+
+    // Authorities still in someone's hands
+    if (mint.mint_authority) add("mint_authority", mint.mint_authority.address, 20);
+    if (mint.freeze_authority) add("freeze_authority", mint.freeze_authority.address, 20);
+    if (mint.metadata?.mutable) add("metadata_mutable", true, 5);
+
+    // Token-2022 extensions that can take tokens or block transfers
+    if (mint.permanent_delegate) add("permanent_delegate", mint.permanent_delegate.address, 40);
+    if (mint.non_transferable) add("non_transferable", true, 50);
+    if (mint.default_account_state === "frozen") add("default_account_state", "frozen", 30);
+    if (mint.pausable?.paused) {
+      add("paused", true, 40);
+    } else if (mint.pausable?.authority) {
+      add("pause_authority", mint.pausable.authority.address, 10);
+    }
+    if (mint.transfer_hook?.program_id) {
+      add("transfer_hook_program", mint.transfer_hook.program_id, 20);
+    } else if (mint.transfer_hook?.authority) {
+      add("transfer_hook_authority", mint.transfer_hook.authority.address, 5);
+    }
+
+    const fee = mint.transfer_fee;
+    if (fee) {
+      if (fee.fee_percent > 10) add("transfer_fee_percent", fee.fee_percent, 20);
+      else if (fee.fee_percent > 5) add("transfer_fee_percent", fee.fee_percent, 10);
+      else if (fee.fee_percent > 0) add("transfer_fee_percent", fee.fee_percent, 5);
+      if (fee.authority) add("transfer_fee_authority", fee.authority.address, 5);
+    }
+
+    return sumRiskContributions(factors);
+  }
+
+  /**
+   * Map top-10 concentration to a risk score (same scale as the holder indexer)
+   */
+  private concentrationToScore(top10Percent: number): number {
+    if (top10Percent > 90) return 90;
+    if (top10Percent > 75) return 70;
+    if (top10Percent > 50) return 45;
+    if (top10Percent > 30) return 20;
+    return 5;
+  }
+
+  /**
+   * Send a Solana JSON-RPC request
+   *
+   * @returns The `result` field; throws on transport and JSON-RPC errors
+   */
+  private async rpc<T>(chainId: number, method: string, params: unknown[]): Promise<T> {
+    const provider = this.providers.get(chainId)!;
+    const payload = { jsonrpc: "2.0", id: ++this.requestId, method, params };
+
+    let body: any;
+    if (typeof provider === "string") {
+      const response = await fetch(provider, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(this.timeout),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      body = await response.json();
+    } else {
+      body = await provider.request(payload);
+    }
+
+    if (body?.error) {
+      throw new Error(body.error.message || `RPC error ${body.error.code}`);
+    }
+    return body?.result as T;
+  }
+
+  /**
+   * Create error response structure
+   */
+  private errorResponse(error: string): SolanaCheckResult {
+    return {
+      source: "solana",
+      is_contract: null,
+      has_code: null,
+      code_size: null,
+      is_erc20: null,
+      risk_score: 50, // Unknown = medium risk
+      error,
+    };
+  }
+
+  /**
+   * Create holder lookup error response structure
+   */
+  private holderErrorResponse(error: string): HolderDistribution {
+    return {
+      source: "solana_holders",
+      risk_score: 50,
+      holder_count: null,
+      top_10_holders_percent: null,
+      top_holders: [],
+      gini: null,
+      excluded: [],
+      error,
+    };
+  }
+
+  /**
+   * Conditional logging based on verbose flag
+   */
+  private log(message: string, data?: any): void {
+    if (this.verbose) {
+      if (data) {
+        console.log(`[SolanaAnalyzer] ${message}`, data);
+      } else {
+        console.log(`[SolanaAnalyzer] ${message}`);
+      }
+    }
+  }
+
+  /**
+   * Get list of supported chain IDs
+   */
+  getSupportedChains(): number[] {
+    return Array.from(this.providers.keys());
+  }
+
+  /**
+   * Check if a specific chain is supported
+   */
+  isChainSupported(chainId: number): boolean {
+    return this.providers.has(chainId);
+  }
+
+  /**
+   * Confidence added by mint data: a valid mint with name and symbol
+   */
+  confidence(result: SolanaCheckResult): number {
+    if (!result.is_erc20) return 0;
+    return 0.05 + (result.checks?.has_name ? 0.025 : 0) + (result.checks?.has_symbol ? 0.025 : 0);
+  }
+}
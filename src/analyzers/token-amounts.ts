@@ -0,0 +1,50 @@
+/**
+ * Token Amounts - Exact uint256 handling
+ *
+ * ERC20 amounts are uint256 values that routinely exceed Number's 53-bit
+ * precision (and can overflow it entirely). Amounts are kept as BigInt and
+ * exposed as decimal strings: the raw base-unit value plus a
+ * decimals-adjusted human-readable value.
+ */
+
+/**
+ * Largest value a uint256 can hold
+ */
+export const MAX_UINT256 = 2n ** 256n - 1n;
+
+/**
+ * Parse a contract call result into a uint256 BigInt
+ *
+ * @param value - Raw call result (bigint, numeric string or safe integer)
+ * @returns The value, or undefined if it is not a valid uint256
+ */
+export function parseUint256(value: unknown): bigint | undefined {
+  try {
+    if (typeof value === "number" && !Number.isSafeInteger(value)) return undefined;
+    if (typeof value !== "bigint" && typeof value !== "string" && typeof value !== "number") {
+      return undefined;
+    }
+
+    const parsed = BigInt(value);
+    return parsed >= 0n && parsed <= MAX_UINT256 ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Format base units as an exact decimal string
+ *
+ * @param raw - Amount in base units
+ * @param decimals - Token decimals
+ * @returns e.g. formatTokenAmount(1500000000000000000n, 18) === "1.5"
+ */
+export function formatTokenAmount(raw: bigint, decimals: number): string {
+  if (decimals <= 0) return raw.toString();
+
+  const base = 10n ** BigInt(decimals);
+  const whole = raw / base;
+  const fraction = (raw % base).toString().padStart(decimals, "0").replace(/0+$/, "");
+
+  return fraction ? `${whole}.${fraction}` : whole.toString();
+}
@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, setSystemTime, test } from "bun:test";
+import { AnalysisCache } from "./analysis-cache";
+
+const KEY = AnalysisCache.key(1, "0xAbC0000000000000000000000000000000000001");
+const START = new Date("2026-01-01T00:00:00Z");
+
+const advance = (seconds: number) => setSystemTime(new Date(Date.now() + seconds * 1000));
+
+/**
+ * Loader returning an incrementing counter, to tell loads apart
+ */
+const counter = () => {
+  let loads = 0;
+  const loader = async () => ++loads;
+  return { loader, loads: () => loads };
+};
+
+describe("AnalysisCache", () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test("serves hits until the kind's TTL expires", async () => {
+    setSystemTime(START);
+    const cache = new AnalysisCache({ ttls: { honeypot: 60, bytecode: 3600 } });
+    const { loader } = counter();
+
+    const first = await cache.getOrLoad("honeypot", KEY, loader);
+    advance(59);
+    const hit = await cache.getOrLoad("honeypot", KEY, loader);
+    advance(2);
+    const expired = await cache.getOrLoad("honeypot", KEY, loader);
+
+    expect(first).toEqual({ value: 1, cachedAt: START.getTime(), fresh: true });
+    expect(hit).toEqual({ value: 1, cachedAt: START.getTime(), fresh: false });
+    expect(expired).toMatchObject({ value: 2, fresh: true });
+  });
+
+  test("keeps kinds apart, each with its own TTL", async () => {
+    setSystemTime(START);
+    const cache = new AnalysisCache({ ttls: { honeypot: 60, bytecode: 3600 } });
+    const { loader } = counter();
+
+    await cache.getOrLoad("honeypot", KEY, loader);
+    await cache.getOrLoad("bytecode", KEY, loader);
+    advance(120);
+
+    expect((await cache.getOrLoad("bytecode", KEY, loader)).value).toBe(2);
+    expect((await cache.getOrLoad("honeypot", KEY, loader)).value).toBe(3);
+  });
+
+  test("does not cache kinds with a TTL of 0", async () => {
+    const cache = new AnalysisCache({ ttls: { simulation: 0 } });
+    const { loader, loads } = counter();
+
+    await cache.getOrLoad("simulation", KEY, loader);
+    await cache.getOrLoad("simulation", KEY, loader);
+
+    expect(loads()).toBe(2);
+    expect(cache.size).toBe(0);
+  });
+
+  test("reloads entries older than max_age", async () => {
+    setSystemTime(START);
+    const cache = new AnalysisCache({ ttls: { onchain: 600 } });
+    const { loader } = counter();
+
+    await cache.getOrLoad("onchain", KEY, loader);
+    advance(30);
+
+    expect((await cache.getOrLoad("onchain", KEY, loader, { maxAge: 60 })).value).toBe(1);
+    expect((await cache.getOrLoad("onchain", KEY, loader, { maxAge: 10 })).value).toBe(2);
+  });
+
+  test("max_age does not extend an entry past its TTL", async () => {
+    setSystemTime(START);
+    const cache = new AnalysisCache({ ttls: { honeypot: 60 } });
+    const { loader } = counter();
+
+    await cache.getOrLoad("honeypot", KEY, loader);
+    advance(90);
+
+    expect((await cache.getOrLoad("honeypot", KEY, loader, { maxAge: 3600 })).value).toBe(2);
+  });
+
+  test("forced refresh reloads and replaces the cached entry", async () => {
+    const cache = new AnalysisCache();
+    const { loader } = counter();
+
+    await cache.getOrLoad("liquidity", KEY, loader);
+    const refreshed = await cache.getOrLoad("liquidity", KEY, loader, { refresh: true });
+    const after = await cache.getOrLoad("liquidity", KEY, loader);
+
+    expect(refreshed).toMatchObject({ value: 2, fresh: true });
+    expect(after).toMatchObject({ value: 2, fresh: false });
+  });
+
+  test("concurrent lookups share a single load", async () => {
+    const cache = new AnalysisCache();
+    let release!: (value: string) => void;
+    let loads = 0;
+    const loader = () => {
+      loads++;
+      return new Promise<string>((resolve) => (release = resolve));
+    };
+
+    const lookups = [
+      cache.getOrLoad("holders", KEY, loader),
+      cache.getOrLoad("holders", KEY, loader),
+      cache.getOrLoad("holders", KEY, loader, { refresh: true }),
+    ];
+    release("balances");
+    const results = await Promise.all(lookups);
+
+    expect(loads).toBe(1);
+    expect(results.map((result) => result.value)).toEqual(["balances", "balances", "balances"]);
+  });
+
+  test("does not cache values the cacheable predicate rejects", async () => {
+    const cache = new AnalysisCache();
+    const results = [{ error: "RPC down" }, { risk_score: 10 }];
+    const loader = async () => results.shift()!;
+    const cacheable = (result: { error?: string }) => !result.error;
+
+    const failed = await cache.getOrLoad("onchain", KEY, loader, {}, cacheable);
+    const retried = await cache.getOrLoad("onchain", KEY, loader, {}, cacheable);
+    const cached = await cache.getOrLoad("onchain", KEY, loader, {}, cacheable);
+
+    expect(failed.value).toEqual({ error: "RPC down" });
+    expect(retried).toMatchObject({ value: { risk_score: 10 }, fresh: true });
+    expect(cached).toMatchObject({ value: { risk_score: 10 }, fresh: false });
+  });
+
+  test("evicts the oldest entries beyond maxEntries", async () => {
+    const cache = new AnalysisCache({ maxEntries: 2 });
+    const { loader } = counter();
+    const keys = [1, 2, 3].map((chainId) => AnalysisCache.key(chainId, "0xabc"));
+
+    for (const key of keys) await cache.getOrLoad("onchain", key, loader);
+
+    expect(cache.size).toBe(2);
+    expect((await cache.getOrLoad("onchain", keys[2]!, loader)).fresh).toBe(false);
+    expect((await cache.getOrLoad("onchain", keys[0]!, loader)).fresh).toBe(true);
+  });
+
+  test("keys hex addresses case-insensitively but base58 addresses as given", () => {
+    expect(AnalysisCache.key(1, "0xABC")).toBe(AnalysisCache.key(1, "0xabc"));
+    expect(AnalysisCache.key(501, "So1ana")).not.toBe(AnalysisCache.key(501, "so1ana"));
+  });
+});
@@ -0,0 +1,212 @@
+/**
+ * Analysis Cache - TTL cache for analyzer results keyed by chain and address
+ *
+ * Avoids hitting honeypot.is and the RPC again for a token that was analyzed
+ * moments ago. Each kind of data has its own time-to-live:
+ * - bytecode: practically immutable, cached for a long time
+ * - onchain: ERC20 metadata and supply, changes rarely
+ * - creation: creation block and deployer reputation, expensive archive lookups
+ * - honeypot: taxes and liquidity, changes often
+ * - simulation: local buy/sell simulation, changes as often as honeypot data
+ * - liquidity: DEX pools and LP locks, changes with liquidity events
+ * - holders: balances rebuilt from Transfer logs, expensive to recompute
+ *
+ * Features:
+ * - Per-kind TTLs (a TTL of 0 disables caching for that kind)
+ * - Per-request `maxAge` and forced refresh
+ * - Concurrent lookups for the same entry share a single load
+ * - Bounded size (oldest entries are evicted first)
+ */
+
+/**
+ * Kinds of cached data
+ */
+export type CacheKind =
+  | "bytecode"
+  | "onchain"
+  | "creation"
+  | "honeypot"
+  | "simulation"
+  | "liquidity"
+  | "holders";
+
+/**
+ * A value returned from the cache
+ */
+export interface CachedValue<T> {
+  /** The cached or freshly loaded value */
+  value: T;
+  /** When the value was loaded (unix ms) */
+  cachedAt: number;
+  /** Whether the value was loaded for this lookup rather than served from cache */
+  fresh: boolean;
+}
+
+/**
+ * Per-lookup freshness requirements
+ */
+export interface CacheLookupOptions {
+  /** Maximum acceptable age in seconds (defaults to the kind's TTL) */
+  maxAge?: number;
+  /** Ignore cached entries and reload */
+  refresh?: boolean;
+}
+
+/**
+ * Configuration options for AnalysisCache
+ */
+export interface AnalysisCacheOptions {
+  /** Time-to-live per kind in seconds */
+  ttls?: Partial<Record<CacheKind, number>>;
+  /** Maximum number of cached entries across all kinds */
+  maxEntries?: number;
+  /** Whether to enable verbose logging */
+  verbose?: boolean;
+}
+
+interface CacheEntry {
+  value: unknown;
+  cachedAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Default TTLs in seconds
+ */
+export const DEFAULT_CACHE_TTLS: Record<CacheKind, number> = {
+  bytecode: 86400,
+  onchain: 600,
+  creation: 3600,
+  honeypot: 60,
+  simulation: 60,
+  liquidity: 300,
+  holders: 600,
+};
+
+/**
+ * AnalysisCache - Caches analyzer results per (kind, chain, address)
+ *
+ * Usage:
+ * ```typescript
+ * const cache = new AnalysisCache({ ttls: { honeypot: 30 } });
+ *
+ * const { value, cachedAt, fresh } = await cache.getOrLoad(
+ *   "honeypot",
+ *   AnalysisCache.key(1, "0x..."),
+ *   () => honeypotChecker.checkToken("0x...", 1),
+ *   { maxAge: 10 },
+ *   (result) => !result.error
+ * );
+ * ```
+ */
+export class AnalysisCache {
+  private readonly entries: Map<string, CacheEntry> = new Map();
+  private readonly pending: Map<string, Promise<CachedValue<unknown>>> = new Map();
+  private readonly ttls: Record<CacheKind, number>;
+  private readonly maxEntries: number;
+  private readonly verbose: boolean;
+
+  constructor(options: AnalysisCacheOptions = {}) {
+    this.ttls = { ...DEFAULT_CACHE_TTLS, ...options.ttls };
+    this.maxEntries = options.maxEntries || 5000;
+    this.verbose = options.verbose || false;
+  }
+
+  /**
+   * Cache key for a token (hex addresses are case-insensitive, base58 ones are not)
+   */
+  static key(chainId: number, address: string): string {
+    return `${chainId}:${/^0x/i.test(address) ? address.toLowerCase() : address}`;
+  }
+
+  /**
+   * Return a cached value if fresh enough, otherwise load and cache it
+   *
+   * @param kind - Kind of data (selects the TTL)
+   * @param key - Token key from `AnalysisCache.key`
+   * @param loader - Loads the value on a miss
+   * @param options - Per-request freshness requirements
+   * @param cacheable - Whether a loaded value may be cached (e.g. skip errors)
+   * @returns The value with its load time and whether it was loaded now
+   */
+  async getOrLoad<T>(
+    kind: CacheKind,
+    key: string,
+    loader: () => Promise<T>,
+    options: CacheLookupOptions = {},
+    cacheable: (value: T) => boolean = () => true
+  ): Promise<CachedValue<T>> {
+    const entryKey = `${kind}:${key}`;
+    const now = Date.now();
+    const entry = this.entries.get(entryKey);
+
+    if (entry && !options.refresh) {
+      const maxAgeMs = options.maxAge !== undefined ? options.maxAge * 1000 : Infinity;
+      if (entry.expiresAt > now && now - entry.cachedAt <= maxAgeMs) {
+        this.log(`Hit ${entryKey} (age ${now - entry.cachedAt}ms)`);
+        return { value: entry.value as T, cachedAt: entry.cachedAt, fresh: false };
+      }
+    }
+
+    // Join a load already in flight; its result is as fresh as any new load
+    const inFlight = this.pending.get(entryKey);
+    if (inFlight) {
+      return inFlight as Promise<CachedValue<T>>;
+    }
+
+    const load = (async (): Promise<CachedValue<T>> => {
+      const value = await loader();
+      const cachedAt = Date.now();
+      const ttl = this.ttls[kind];
+
+      if (ttl > 0 && cacheable(value)) {
+        this.set(entryKey, { value, cachedAt, expiresAt: cachedAt + ttl * 1000 });
+        this.log(`Stored ${entryKey} for ${ttl}s`);
+      }
+
+      return { value, cachedAt, fresh: true };
+    })();
+
+    this.pending.set(entryKey, load);
+    try {
+      return await load;
+    } finally {
+      this.pending.delete(entryKey);
+    }
+  }
+
+  /**
+   * Number of cached entries
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Store an entry, evicting the oldest entries when full
+   */
+  private set(entryKey: string, entry: CacheEntry): void {
+    // Re-insert so the Map's insertion order tracks recency
+    this.entries.delete(entryKey);
+    this.entries.set(entryKey, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Conditional logging based on verbose flag
+   */
+  private log(message: string, data?: any): void {
+    if (this.verbose) {
+      if (data) {
+        console.log(`[AnalysisCache] ${message}`, data);
+      } else {
+        console.log(`[AnalysisCache] ${message}`);
+      }
+    }
+  }
+}
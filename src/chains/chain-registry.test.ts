@@ -0,0 +1,39 @@
+import { describe, expect, test } from "bun:test";
+import { ChainRegistry, DEFAULT_CHAINS } from "./chain-registry";
+
+describe("ChainRegistry", () => {
+  const registry = new ChainRegistry(DEFAULT_CHAINS);
+
+  test("configures DEX settings for every built-in EVM chain", () => {
+    const evm = DEFAULT_CHAINS.filter((chain) => chain.vm === "evm").map((chain) => String(chain.id));
+
+    expect(Object.keys(registry.simulationDexes()).sort()).toEqual([...evm].sort());
+    expect(Object.keys(registry.liquidityConfig()).sort()).toEqual([...evm].sort());
+  });
+
+  test("takes the wrapped native token from the chain", () => {
+    for (const chain of DEFAULT_CHAINS.filter((chain) => chain.vm === "evm")) {
+      const wrapped = chain.nativeToken.wrapped;
+      const quoteTokens = registry.liquidityConfig()[chain.id]!.quoteTokens;
+
+      expect(registry.simulationDexes()[chain.id]!.wrappedNative).toBe(wrapped!);
+      expect(quoteTokens[0]).toBe(wrapped!);
+      expect(quoteTokens.filter((token) => token === wrapped)).toHaveLength(1);
+    }
+  });
+
+  test("does not repeat a wrapped native token listed as a quote token", () => {
+    const ethereum = DEFAULT_CHAINS.find((chain) => chain.id === 1)!;
+    const custom = new ChainRegistry([
+      {
+        ...ethereum,
+        liquidity: { ...ethereum.liquidity!, quoteTokens: [ethereum.liquidity!.quoteTokens[0]!, ethereum.nativeToken.wrapped!] },
+      },
+    ]);
+
+    expect(custom.liquidityConfig()[1]!.quoteTokens).toEqual([
+      ethereum.nativeToken.wrapped!,
+      ethereum.liquidity!.quoteTokens[0]!,
+    ]);
+  });
+});
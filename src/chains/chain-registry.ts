@@ -0,0 +1,432 @@
+/**
+ * Chain Registry - Supported chains and everything the service knows about them
+ *
+ * Single source for chain IDs, names, RPC endpoints, native tokens, explorers
+ * and DEX settings. The API schemas, manifest, docs and HTML page are all
+ * generated from it, so a chain is added by configuration alone. Solana is
+ * registered under the pseudo chain ID 501 with `vm: svm`.
+ *
+ * The built-in chains can be extended or overridden with a JSON or YAML file
+ * (`CHAINS_CONFIG`). Entries are merged over the built-in chain with the same
+ * `id`; `enabled: false` removes a chain:
+ *
+ * ```yaml
+ * chains:
+ *   - id: 59144
+ *     name: Linea
+ *     rpcUrls: ["https://rpc.linea.build"]
+ *     nativeToken: { symbol: ETH, decimals: 18, wrapped: "0xe5d7c2a44ffddf6b295a15c148167daaaf5cf34f" }
+ *     explorer: { name: LineaScan, url: "https://lineascan.build" }
+ *   - id: 43114
+ *     enabled: false
+ * ```
+ *
+ * Features:
+ * - JSON and YAML config files (YAML via Bun's built-in parser)
+ * - Per-chain RPC override from an environment variable (`rpcEnv`)
+ * - EVM and Solana (SVM) chains
+ * - DEX routers, factories and LP lockers for the sell simulation and
+ *   liquidity analysis (the wrapped native token is never repeated)
+ * - Invalid entries are skipped with a warning
+ */
+
+import { readFileSync } from "fs";
+import { z } from "zod";
+import type { LiquidityChainConfig } from "../analyzers/liquidity-analyzer";
+import type { SimulationDex } from "../analyzers/sell-simulator";
+
+/**
+ * Virtual machine of a chain (selects the analyzers and the address format)
+ */
+export type ChainVm = "evm" | "svm";
+
+/**
+ * Everything the service knows about a chain
+ */
+export interface ChainConfig {
+  /** EVM chain ID (pseudo ID for non-EVM chains) */
+  id: number;
+  /** Virtual machine (default "evm") */
+  vm: ChainVm;
+  /** Display name */
+  name: string;
+  /** RPC endpoints, each "url" or "url|requestsPerSecond" */
+  rpcUrls: string[];
+  /** Environment variable whose comma-separated value replaces rpcUrls */
+  rpcEnv?: string;
+  /** Native gas token */
+  nativeToken: {
+    symbol: string;
+    decimals: number;
+    /** Wrapped native token (needed for the sell simulation) */
+    wrapped?: string;
+  };
+  /** Block explorer */
+  explorer?: {
+    name: string;
+    url: string;
+  };
+  /** V2-style router for the sell simulation */
+  simulation?: {
+    name: string;
+    router: string;
+    /** Native amount spent on the simulated buy, in wei */
+    amountIn: bigint;
+  };
+  /**
+   * Factories, quote tokens and LP lockers for liquidity analysis; the wrapped
+   * native token is added as the first quote token, so list only the others
+   */
+  liquidity?: LiquidityChainConfig;
+}
+
+const AddressSchema = z
+  .string()
+  .regex(/^0x[0-9a-fA-F]{40}$/, "must be a 0x-prefixed 20-byte address")
+  .transform((address) => address.toLowerCase());
+
+const NamedAddressSchema = z.object({ name: z.string().min(1), address: AddressSchema });
+
+/**
+ * A config file entry (everything but `id` may come from the built-in chain)
+ */
+const ChainEntrySchema = z.object({
+  id: z.number().int().positive(),
+  enabled: z.boolean().optional(),
+  vm: z.enum(["evm", "svm"]).optional(),
+  name: z.string().min(1).optional(),
+  rpcUrls: z.array(z.string().min(1)).min(1).optional(),
+  rpcEnv: z.string().min(1).optional(),
+  nativeToken: z
+    .object({
+      symbol: z.string().min(1),
+      decimals: z.number().int().min(0).max(255).default(18),
+      wrapped: AddressSchema.optional(),
+    })
+    .optional(),
+  explorer: z.object({ name: z.string().min(1), url: z.string().url() }).optional(),
+  simulation: z
+    .object({
+      name: z.string().min(1),
+      router: AddressSchema,
+      amountIn: z.union([z.string().regex(/^\d+$/), z.number().int().positive()]).transform((value) => BigInt(value)),
+    })
+    .optional(),
+  liquidity: z
+    .object({
+      v2Factories: z.array(NamedAddressSchema).default([]),
+      v3Factories: z.array(NamedAddressSchema).default([]),
+      quoteTokens: z.array(AddressSchema).default([]),
+      lockers: z.array(NamedAddressSchema).default([]),
+    })
+    .optional(),
+});
+
+const UNISWAP_V3_FACTORY = { name: "Uniswap V3", address: "0x1f98431c8ad98523631ae4a59f267346ea31f984" };
+
+/**
+ * Built-in chains
+ */
+export const DEFAULT_CHAINS: ChainConfig[] = [
+  {
+    id: 1,
+    vm: "evm",
+    name: "Ethereum",
+    rpcUrls: ["https://eth.llamarpc.com"],
+    rpcEnv: "ETHEREUM_RPC_URL",
+    nativeToken: { symbol: "ETH", decimals: 18, wrapped: "0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2" },
+    explorer: { name: "Etherscan", url: "https://etherscan.io" },
+    simulation: { name: "Uniswap V2", router: "0x7a250d5630b4cf539739df2c5dacb4c659f2488d", amountIn: 10n ** 16n },
+    liquidity: {
+      v2Factories: [
+        { name: "Uniswap V2", address: "0x5c69bee701ef814a2b6a3edd4b1652cb9cc5aa6f" },
+        { name: "SushiSwap", address: "0xc0aee478e3658e2610c5f7a4a2e1777ce9e4f2ac" },
+      ],
+      v3Factories: [UNISWAP_V3_FACTORY],
+      quoteTokens: [
+        "0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48", // USDC
+        "0xdac17f958d2ee523a2206206994597c13d831ec7", // USDT
+      ],
+      lockers: [
+        { name: "UNCX", address: "0x663a5c229c09b049e36dcc11a9b0d4a8eb9db214" },
+        { name: "Team Finance", address: "0xe2fe530c047f2d85298b07d9333c05737f1435fb" },
+        { name: "PinkLock", address: "0x71b5759d73262fbb223956913ecf4ecc51057641" },
+      ],
+    },
+  },
+  {
+    id: 56,
+    vm: "evm",
+    name: "BSC",
+    rpcUrls: ["https://bsc-dataseed1.binance.org"],
+    rpcEnv: "BSC_RPC_URL",
+    nativeToken: { symbol: "BNB", decimals: 18, wrapped: "0xbb4cdb9cbd36b01bd1cbaebf2de08d9173bc095c" },
+    explorer: { name: "BscScan", url: "https://bscscan.com" },
+    simulation: { name: "PancakeSwap V2", router: "0x10ed43c718714eb63d5aa57b78b54704e256b1e8", amountIn: 5n * 10n ** 16n },
+    liquidity: {
+      v2Factories: [{ name: "PancakeSwap V2", address: "0xca143ce32fe78f1f7019d7d551a6402fc5350c73" }],
+      v3Factories: [{ name: "PancakeSwap V3", address: "0x0bfbcf9fa4f9c56b0f40a671ad40e0805a091865" }],
+      quoteTokens: [
+        "0x55d398326f99059ff775485246999027b3197955", // USDT
+        "0x8ac76a51cc950d9822d68b83fe1ad97b32cd580d", // USDC
+      ],
+      lockers: [
+        { name: "UNCX", address: "0xc765bddb93b0d1c1a88282ba0fa6b2d00e3e0c83" },
+        { name: "PinkLock", address: "0x407993575c91ce7643a4d4ccacc9a98c36ee1bbe" },
+      ],
+    },
+  },
+  {
+    id: 137,
+    vm: "evm",
+    name: "Polygon",
+    rpcUrls: ["https://polygon-rpc.com"],
+    rpcEnv: "POLYGON_RPC_URL",
+    nativeToken: { symbol: "POL", decimals: 18, wrapped: "0x0d500b1d8e8ef31e21c99d1db9a6444d3adf1270" },
+    explorer: { name: "PolygonScan", url: "https://polygonscan.com" },
+    simulation: { name: "QuickSwap", router: "0xa5e0829caced8ffdd4de3c43696c57f7d7a678ff", amountIn: 50n * 10n ** 18n },
+    liquidity: {
+      v2Factories: [{ name: "QuickSwap", address: "0x5757371414417b8c6caad45baef941abc7d3ab32" }],
+      v3Factories: [UNISWAP_V3_FACTORY],
+      quoteTokens: ["0x2791bca1f2de4661ed88a30c99a7a9449aa84174"], // USDC.e
+      lockers: [],
+    },
+  },
+  {
+    id: 42161,
+    vm: "evm",
+    name: "Arbitrum",
+    rpcUrls: ["https://arb1.arbitrum.io/rpc"],
+    rpcEnv: "ARBITRUM_RPC_URL",
+    nativeToken: { symbol: "ETH", decimals: 18, wrapped: "0x82af49447d8a07e3bd95bd0d56f35241523fbab1" },
+    explorer: { name: "Arbiscan", url: "https://arbiscan.io" },
+    simulation: { name: "SushiSwap", router: "0x1b02da8cb0d097eb8d57a175b88c7d8b47997506", amountIn: 10n ** 16n },
+    liquidity: {
+      v2Factories: [{ name: "SushiSwap", address: "0xc35dadb65012ec5796536bd9864ed8773abc74c4" }],
+      v3Factories: [UNISWAP_V3_FACTORY],
+      quoteTokens: ["0xaf88d065e77c8cc2239327c5edb3a432268e5831"], // USDC
+      lockers: [],
+    },
+  },
+  {
+    id: 10,
+    vm: "evm",
+    name: "Optimism",
+    rpcUrls: ["https://mainnet.optimism.io"],
+    rpcEnv: "OPTIMISM_RPC_URL",
+    nativeToken: { symbol: "ETH", decimals: 18, wrapped: "0x4200000000000000000000000000000000000006" },
+    explorer: { name: "Optimistic Etherscan", url: "https://optimistic.etherscan.io" },
+    simulation: { name: "Uniswap V2", router: "0x4a7b5da61326a6379179b40d00f57e5bbdc962c2", amountIn: 10n ** 16n },
+    liquidity: {
+      v2Factories: [{ name: "Uniswap V2", address: "0x0c3c1c532f1e39edf36be9fe0be1410313e074bf" }],
+      v3Factories: [UNISWAP_V3_FACTORY],
+      quoteTokens: ["0x0b2c639c533813f4aa9d7837caf62653d097ff85"], // USDC
+      lockers: [],
+    },
+  },
+  {
+    id: 8453,
+    vm: "evm",
+    name: "Base",
+    rpcUrls: ["https://mainnet.base.org"],
+    rpcEnv: "BASE_RPC_URL",
+    nativeToken: { symbol: "ETH", decimals: 18, wrapped: "0x4200000000000000000000000000000000000006" },
+    explorer: { name: "BaseScan", url: "https://basescan.org" },
+    simulation: { name: "Uniswap V2", router: "0x4752ba5dbc23f44d87826276bf6fd6b1c372ad24", amountIn: 10n ** 16n },
+    liquidity: {
+      v2Factories: [{ name: "Uniswap V2", address: "0x8909dc15e40173ff4699343b6eb8132c65e18ec6" }],
+      v3Factories: [{ name: "Uniswap V3", address: "0x33128a8fc17869897dce68ed026d694621f6fdfd" }],
+      quoteTokens: ["0x833589fcd6edb6e08f4c7c32d4f71b54bda02913"], // USDC
+      lockers: [],
+    },
+  },
+  {
+    id: 43114,
+    vm: "evm",
+    name: "Avalanche",
+    rpcUrls: ["https://api.avax.network/ext/bc/C/rpc"],
+    rpcEnv: "AVALANCHE_RPC_URL",
+    nativeToken: { symbol: "AVAX", decimals: 18, wrapped: "0xb31f66aa3c1e785363f0875a1b74e27b85fd66c7" },
+    explorer: { name: "Snowtrace", url: "https://snowtrace.io" },
+    simulation: { name: "Trader Joe", router: "0x60ae616a2155ee3d9a68541ba4544862310933d4", amountIn: 10n ** 18n },
+    liquidity: {
+      v2Factories: [{ name: "Trader Joe", address: "0x9ad6c38be94206ca50bb0d90783181662f0cfa10" }],
+      v3Factories: [{ name: "Uniswap V3", address: "0x740b1c1de25031c31ff4fc9a62f554a55cdc1bad" }],
+      quoteTokens: ["0xb97ef9ef8734c71904d8002f8b6bc66dd9c48a6e"], // USDC
+      lockers: [],
+    },
+  },
+  {
+    id: 501,
+    vm: "svm",
+    name: "Solana",
+    rpcUrls: ["https://api.mainnet-beta.solana.com"],
+    rpcEnv: "SOLANA_RPC_URL",
+    nativeToken: { symbol: "SOL", decimals: 9 },
+    explorer: { name: "Solana Explorer", url: "https://explorer.solana.com" },
+  },
+];
+
+/**
+ * ChainRegistry - Lookup of the supported chains and derived configuration
+ *
+ * Usage:
+ * ```typescript
+ * const registry = loadChainRegistry(process.env.CHAINS_CONFIG);
+ *
+ * const onchain = new OnChainAnalyzer(registry.rpcUrls());
+ * const simulator = new SellSimulator(registry.rpcUrls(), { dexes: registry.simulationDexes() });
+ * console.log(registry.ids, registry.names());
+ * ```
+ */
+export class ChainRegistry {
+  private readonly chains: Map<number, ChainConfig>;
+
+  constructor(chains: ChainConfig[]) {
+    this.chains = new Map(chains.map((chain) => [chain.id, chain]));
+  }
+
+  /**
+   * Supported chain IDs, in configuration order
+   */
+  get ids(): number[] {
+    return Array.from(this.chains.keys());
+  }
+
+  /**
+   * All supported chains
+   */
+  list(): ChainConfig[] {
+    return Array.from(this.chains.values());
+  }
+
+  /**
+   * A chain's configuration
+   */
+  get(chainId: number): ChainConfig | undefined {
+    return this.chains.get(chainId);
+  }
+
+  /**
+   * Chain ID to display name
+   */
+  names(): Record<number, string> {
+    return Object.fromEntries(this.list().map((chain) => [chain.id, chain.name]));
+  }
+
+  /**
+   * Virtual machine of a chain (undefined for unknown chains)
+   */
+  vm(chainId: number): ChainVm | undefined {
+    return this.get(chainId)?.vm;
+  }
+
+  /**
+   * Chain ID to comma-separated RPC endpoints (environment overrides applied)
+   *
+   * @param env - Environment to read `rpcEnv` overrides from
+   * @param vm - Only chains of this virtual machine (default "evm")
+   */
+  rpcUrls(env: Record<string, string | undefined> = process.env, vm: ChainVm = "evm"): Record<number, string> {
+    return Object.fromEntries(
+      this.list()
+        .filter((chain) => chain.vm === vm)
+        .map((chain) => [chain.id, (chain.rpcEnv && env[chain.rpcEnv]) || chain.rpcUrls.join(",")])
+    );
+  }
+
+  /**
+   * Sell simulation routers of chains that configure one
+   */
+  simulationDexes(): Record<number, SimulationDex> {
+    const dexes: Record<number, SimulationDex> = {};
+
+    for (const chain of this.list()) {
+      if (chain.vm === "evm" && chain.simulation && chain.nativeToken.wrapped) {
+        dexes[chain.id] = { ...chain.simulation, wrappedNative: chain.nativeToken.wrapped };
+      }
+    }
+
+    return dexes;
+  }
+
+  /**
+   * Liquidity settings of chains that configure them (wrapped native first)
+   */
+  liquidityConfig(): Record<number, LiquidityChainConfig> {
+    const config: Record<number, LiquidityChainConfig> = {};
+
+    for (const chain of this.list()) {
+      if (chain.vm !== "evm" || !chain.liquidity) continue;
+
+      const wrapped = chain.nativeToken.wrapped;
+      const others = chain.liquidity.quoteTokens.filter((token) => token !== wrapped);
+      config[chain.id] = { ...chain.liquidity, quoteTokens: wrapped ? [wrapped, ...others] : others };
+    }
+
+    return config;
+  }
+
+  /**
+   * Explorer page of an address (undefined when the chain has no explorer)
+   */
+  explorerAddressUrl(chainId: number, address: string): string | undefined {
+    const explorer = this.get(chainId)?.explorer;
+    return explorer ? `${explorer.url.replace(/\/+$/, "")}/address/${address}` : undefined;
+  }
+}
+
+/**
+ * Load the chain registry: built-in chains merged with an optional config file
+ *
+ * @param path - JSON or YAML file (`.yaml`/`.yml`) with a `chains` array (or a
+ *   bare array); the built-in chains are used alone when omitted or unreadable
+ * @returns The registry of enabled chains
+ */
+export function loadChainRegistry(path: string | undefined): ChainRegistry {
+  const chains = new Map(DEFAULT_CHAINS.map((chain) => [chain.id, chain]));
+  if (!path) return new ChainRegistry(Array.from(chains.values()));
+
+  let entries: unknown;
+  try {
+    const text = readFileSync(path, "utf8");
+    const parsed: any = /\.ya?ml$/i.test(path) ? Bun.YAML.parse(text) : JSON.parse(text);
+    entries = Array.isArray(parsed) ? parsed : parsed?.chains;
+  } catch (error: any) {
+    console.warn(`Could not load chain config from ${path}: ${error.message}`);
+    return new ChainRegistry(Array.from(chains.values()));
+  }
+
+  if (!Array.isArray(entries)) {
+    console.warn(`Ignoring chain config ${path}: expected a "chains" array`);
+    return new ChainRegistry(Array.from(chains.values()));
+  }
+
+  for (const raw of entries) {
+    const entry = ChainEntrySchema.safeParse(raw);
+    if (!entry.success) {
+      console.warn(`Ignoring invalid chain entry ${JSON.stringify(raw)}: ${entry.error.issues[0]?.message}`);
+      continue;
+    }
+
+    const { enabled, ...override } = entry.data;
+    if (enabled === false) {
+      chains.delete(override.id);
+      continue;
+    }
+
+    const merged = { vm: "evm" as const, ...chains.get(override.id), ...override };
+    if (!merged.name || !merged.rpcUrls || !merged.nativeToken) {
+      console.warn(`Ignoring chain ${override.id}: name, rpcUrls and nativeToken are required for new chains`);
+      continue;
+    }
+    if (merged.simulation && !merged.nativeToken.wrapped) {
+      console.warn(`Chain ${override.id}: simulation needs nativeToken.wrapped; simulation disabled`);
+      delete merged.simulation;
+    }
+
+    chains.set(override.id, merged as ChainConfig);
+  }
+
+  return new ChainRegistry(Array.from(chains.values()));
+}
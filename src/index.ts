@@ -4,7 +4,7 @@
  * A comprehensive token safety analysis service that detects honeypots,
  * scams, and risky tokens across multiple blockchain networks.
  * 
- * Powered by x402 micropayments on Base network.
+ * Powered by x402 micropayments (USDC on Base, Optimism, Arbitrum and Polygon).
  * Built for AI agents using the Lucid protocol.
  * 
  * FINAL PERFECT VERSION - x402scan compatible
@@ -13,9 +13,64 @@
 import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { z } from "zod";
+import { HolderIndexer } from "./analyzers/holder-indexer";
 import { HoneypotChecker } from "./analyzers/honeypot-checker";
+import { loadKnownScams } from "./analyzers/known-scams";
+import { LiquidityAnalyzer } from "./analyzers/liquidity-analyzer";
 import { OnChainAnalyzer } from "./analyzers/onchain-analyzer";
 import { ScoringEngine } from "./analyzers/scoring-engine";
+import { SellSimulator } from "./analyzers/sell-simulator";
+import { isSolanaAddress } from "./analyzers/solana-address";
+import { SolanaAnalyzer, type SolanaCheckResult, type SolanaMintInfo } from "./analyzers/solana-analyzer";
+import { AnalysisCache, type CacheLookupOptions } from "./cache/analysis-cache";
+import { loadChainRegistry } from "./chains/chain-registry";
+import {
+  evaluateBatchChargePolicy,
+  evaluateChargePolicy,
+  type ChargeDecision,
+} from "./payments/charge-policy";
+import {
+  CreditLedger,
+  MemoryCreditStore,
+  SqliteCreditStore,
+  type CreditAccount,
+  type CreditStore,
+} from "./payments/credit-ledger";
+import {
+  HttpFacilitatorClient,
+  MockFacilitatorClient,
+  type FacilitatorClient,
+} from "./payments/facilitator-client";
+import {
+  MemoryNonceStore,
+  NonceLedger,
+  RedisNonceStore,
+  SqliteNonceStore,
+  type NonceStore,
+} from "./payments/nonce-ledger";
+import {
+  KNOWN_PAYMENT_ASSETS,
+  fromAssetAmount,
+  resolvePaymentOptions,
+  toAssetAmount,
+  type PaymentOption,
+} from "./payments/payment-networks";
+import { PaymentVerifier } from "./payments/payment-verifier";
+import {
+  ANALYSIS_DEPTHS,
+  PricingTable,
+  formatUsdc,
+  parseChainSurcharges,
+  type AnalysisDepth,
+  type PriceQuote,
+} from "./payments/pricing";
+import {
+  encodePaymentResponse,
+  type FieldDef,
+  type X402Accept,
+  type X402Response,
+} from "./payments/x402";
+import { parseRpcEndpoints, RpcPool, type RpcStrategy } from "./rpc/rpc-pool";
 
 // ========================================
 // CONFIGURATION
@@ -24,169 +79,770 @@ import { ScoringEngine } from "./analyzers/scoring-engine";
 const PORT = process.env.PORT || 3000;
 const PAYMENT_ADDRESS = process.env.PAYMENT_ADDRESS || "0xe7A413d4192fdee1bB5ecdF9D07A1827Eb15Bc1F";
 const FACILITATOR_URL = process.env.FACILITATOR_URL || "https://facilitator.daydreams.systems";
-const NETWORK = process.env.NETWORK || "base";
+const FACILITATOR_MODE = process.env.FACILITATOR_MODE || "http";
+const NONCE_STORE = process.env.NONCE_STORE || "memory";
+const NONCE_DB_PATH = process.env.NONCE_DB_PATH || "./data/nonces.sqlite";
+const CREDIT_STORE = process.env.CREDIT_STORE || "memory";
+const CREDIT_DB_PATH = process.env.CREDIT_DB_PATH || "./data/credits.sqlite";
+// Comma-separated network[:ASSET] list, e.g. "base,optimism,arbitrum,polygon"
+const PAYMENT_NETWORKS = process.env.PAYMENT_NETWORKS || process.env.NETWORK || "base";
 const DEFAULT_PRICE = parseInt(process.env.DEFAULT_PRICE || "20000");
+const QUICK_PRICE = parseInt(process.env.QUICK_PRICE || "5000");
+const CHAIN_SURCHARGES = parseChainSurcharges(process.env.CHAIN_SURCHARGES);
+const TOPUP_MINIMUM = parseInt(process.env.TOPUP_MINIMUM || "1000000");
+// Result cache TTLs in seconds (0 disables caching of that kind)
+const CACHE_TTL_BYTECODE = parseInt(process.env.CACHE_TTL_BYTECODE || "86400");
+const CACHE_TTL_ONCHAIN = parseInt(process.env.CACHE_TTL_ONCHAIN || "600");
+const CACHE_TTL_CREATION = parseInt(process.env.CACHE_TTL_CREATION || "3600");
+const CACHE_TTL_HONEYPOT = parseInt(process.env.CACHE_TTL_HONEYPOT || "60");
+const CACHE_TTL_SIMULATION = parseInt(process.env.CACHE_TTL_SIMULATION || "60");
+const CACHE_TTL_LIQUIDITY = parseInt(process.env.CACHE_TTL_LIQUIDITY || "300");
+const CACHE_TTL_HOLDERS = parseInt(process.env.CACHE_TTL_HOLDERS || "600");
+const CACHE_MAX_ENTRIES = parseInt(process.env.CACHE_MAX_ENTRIES || "5000");
+const BATCH_MAX_ITEMS = parseInt(process.env.BATCH_MAX_ITEMS || "25");
+const BATCH_CONCURRENCY = parseInt(process.env.BATCH_CONCURRENCY || "4");
+// Local buy/sell simulation for full analyses (needs RPCs that support eth_call state overrides)
+const SELL_SIMULATION = process.env.SELL_SIMULATION !== "false";
+// Holder index from Transfer logs: blocks per eth_getLogs call, calls and retries per token
+const HOLDER_INDEX_CHUNK_SIZE = parseInt(process.env.HOLDER_INDEX_CHUNK_SIZE || "10000");
+const HOLDER_INDEX_MAX_REQUESTS = parseInt(process.env.HOLDER_INDEX_MAX_REQUESTS || "200");
+const HOLDER_INDEX_MAX_RETRIES = parseInt(process.env.HOLDER_INDEX_MAX_RETRIES || "50");
+// Creation block and deployer reputation for full analyses (needs archive RPCs); JSON list of known scam addresses
+const DEPLOYER_LOOKUP = process.env.DEPLOYER_LOOKUP !== "false";
+const KNOWN_SCAMS_FILE = process.env.KNOWN_SCAMS_FILE;
+// Chain registry: JSON or YAML file adding, overriding or disabling chains
+const CHAINS_CONFIG = process.env.CHAINS_CONFIG;
+// RPC pools: endpoint selection, per-endpoint requests/second (0 = unlimited) and ejection
+const RPC_STRATEGY: RpcStrategy = process.env.RPC_STRATEGY === "latency" ? "latency" : "round_robin";
+const RPC_RATE_LIMIT = parseFloat(process.env.RPC_RATE_LIMIT || "0");
+const RPC_MAX_FAILURES = parseInt(process.env.RPC_MAX_FAILURES || "3");
+const RPC_EJECT_SECONDS = parseInt(process.env.RPC_EJECT_SECONDS || "30");
+// Analyses below this confidence (0.0-1.0) are not charged
+const MIN_CHARGE_CONFIDENCE = parseFloat(process.env.MIN_CHARGE_CONFIDENCE || "0.6");
 const SERVICE_URL = process.env.SERVICE_URL || process.env.RAILWAY_PUBLIC_DOMAIN 
   ? `https://${process.env.RAILWAY_PUBLIC_DOMAIN}` 
   : `http://localhost:${PORT}`;
 
-// USDC contract address on Base
-const USDC_BASE = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
-
-// RPC URLs configuration
-const RPC_URLS: Record<number, string> = {
-  1: process.env.ETHEREUM_RPC_URL || "https://eth.llamarpc.com",
-  56: process.env.BSC_RPC_URL || "https://bsc-dataseed1.binance.org",
-  137: process.env.POLYGON_RPC_URL || "https://polygon-rpc.com",
-  42161: process.env.ARBITRUM_RPC_URL || "https://arb1.arbitrum.io/rpc",
-  10: process.env.OPTIMISM_RPC_URL || "https://mainnet.optimism.io",
-  8453: process.env.BASE_RPC_URL || "https://mainnet.base.org",
-  43114: process.env.AVALANCHE_RPC_URL || "https://api.avax.network/ext/bc/C/rpc",
-};
+// Accepted (network, asset, payTo) combinations; falls back to USDC on Base
+const resolvedPaymentOptions = resolvePaymentOptions(PAYMENT_NETWORKS, PAYMENT_ADDRESS);
+const PAYMENT_OPTIONS: PaymentOption[] =
+  resolvedPaymentOptions.length > 0
+    ? resolvedPaymentOptions
+    : [{ asset: KNOWN_PAYMENT_ASSETS[0]!, payTo: PAYMENT_ADDRESS }];
+const PRIMARY_PAYMENT = PAYMENT_OPTIONS[0]!;
+
+// Public description of the accepted payment options (manifest, docs, health)
+const ACCEPTED_PAYMENTS = PAYMENT_OPTIONS.map(({ asset, payTo }) => ({
+  network: asset.network,
+  asset: asset.address,
+  assetSymbol: asset.symbol,
+  payTo,
+}));
+
+// Supported chains; RPC URLs are comma-separated lists, optionally `url|requestsPerSecond`
+const chainRegistry = loadChainRegistry(CHAINS_CONFIG);
+const CHAIN_IDS = chainRegistry.ids;
+const RPC_URLS: Record<number, string> = chainRegistry.rpcUrls();
+
+// One failover pool per chain, shared by all analyzers so limits and health are global
+const createRpcPools = (urls: Record<number, string>): Record<number, RpcPool> =>
+  Object.fromEntries(
+    Object.entries(urls).map(([chainId, endpoints]) => [
+      chainId,
+      new RpcPool(parseRpcEndpoints(endpoints), {
+        strategy: RPC_STRATEGY,
+        rateLimit: RPC_RATE_LIMIT,
+        maxFailures: RPC_MAX_FAILURES,
+        ejectSeconds: RPC_EJECT_SECONDS,
+      }),
+    ])
+  );
+const RPC_POOLS = createRpcPools(RPC_URLS);
+
+// Solana chains speak their own JSON-RPC dialect and only serve the Solana analyzer
+const SOLANA_RPC_POOLS = createRpcPools(chainRegistry.rpcUrls(process.env, "svm"));
 
 // Chain ID to name mapping
-const CHAIN_NAMES: Record<number, string> = {
-  1: "Ethereum",
-  56: "BSC",
-  137: "Polygon",
-  42161: "Arbitrum",
-  10: "Optimism",
-  8453: "Base",
-  43114: "Avalanche",
+const CHAIN_NAMES: Record<number, string> = chainRegistry.names();
+
+// Pricing table (USDC base units): per route, per analysis depth, plus chain surcharges
+const pricing = new PricingTable({
+  routes: {
+    analyze: {
+      type: "fixed",
+      method: "POST",
+      path: "/api/v1/analyze",
+      description: `Token safety analysis - AI-powered honeypot and scam detection across ${CHAIN_IDS.length} blockchains`,
+      prices: {
+        quick: QUICK_PRICE,
+        full: DEFAULT_PRICE,
+      },
+      defaultDepth: "full",
+    },
+    batch: {
+      type: "batch",
+      method: "POST",
+      path: "/api/v1/analyze/batch",
+      description: "Batch token safety analysis - screen a wallet or token list with a single payment",
+      itemRoute: "analyze",
+      maxItems: BATCH_MAX_ITEMS,
+    },
+    topup: {
+      type: "deposit",
+      method: "POST",
+      path: "/api/v1/account/topup",
+      description: "Prepaid credits - deposit USDC once and receive an API key for token safety analyses",
+      minimumAmount: TOPUP_MINIMUM,
+    },
+  },
+  chainSurcharges: CHAIN_SURCHARGES,
+});
+
+// ========================================
+// INITIALIZE ANALYZERS
+// ========================================
+
+const honeypotChecker = new HoneypotChecker({ verbose: false });
+const onchainAnalyzer = new OnChainAnalyzer(RPC_POOLS, {
+  verbose: false,
+  deployerLookup: DEPLOYER_LOOKUP,
+  knownScams: loadKnownScams(KNOWN_SCAMS_FILE),
+});
+const sellSimulator = new SellSimulator(SELL_SIMULATION ? RPC_POOLS : {}, {
+  dexes: chainRegistry.simulationDexes(),
+  verbose: false,
+});
+const liquidityAnalyzer = new LiquidityAnalyzer(RPC_POOLS, {
+  chains: chainRegistry.liquidityConfig(),
+  verbose: false,
+});
+const holderIndexer = new HolderIndexer(RPC_POOLS, {
+  chunkSize: HOLDER_INDEX_CHUNK_SIZE,
+  maxRequests: HOLDER_INDEX_MAX_REQUESTS,
+  maxRetries: HOLDER_INDEX_MAX_RETRIES,
+  verbose: false,
+});
+const solanaAnalyzer = new SolanaAnalyzer(SOLANA_RPC_POOLS, { verbose: false });
+const scoringEngine = new ScoringEngine({
+  analyzers: [honeypotChecker, onchainAnalyzer, sellSimulator, liquidityAnalyzer, holderIndexer, solanaAnalyzer],
+  verbose: false,
+});
+
+/**
+ * Whether an analyzer serves a chain (EVM or Solana)
+ */
+const isChainSupported = (chainId: number): boolean =>
+  onchainAnalyzer.isChainSupported(chainId) || solanaAnalyzer.isChainSupported(chainId);
+
+// Analyzer results per chain + address: bytecode rarely changes, taxes and liquidity often do
+const analysisCache = new AnalysisCache({
+  ttls: {
+    bytecode: CACHE_TTL_BYTECODE,
+    onchain: CACHE_TTL_ONCHAIN,
+    creation: CACHE_TTL_CREATION,
+    honeypot: CACHE_TTL_HONEYPOT,
+    simulation: CACHE_TTL_SIMULATION,
+    liquidity: CACHE_TTL_LIQUIDITY,
+    holders: CACHE_TTL_HOLDERS,
+  },
+  maxEntries: CACHE_MAX_ENTRIES,
+  verbose: false,
+});
+
+// x402 facilitator: "mock" verifies locally and fakes settlement (offline testing)
+const facilitator: FacilitatorClient =
+  FACILITATOR_MODE === "mock"
+    ? new MockFacilitatorClient()
+    : new HttpFacilitatorClient(FACILITATOR_URL, { verbose: false });
+
+// Ledger of used payment nonces: "memory", "sqlite" or "redis" (REDIS_URL)
+const nonceStore: NonceStore =
+  NONCE_STORE === "sqlite"
+    ? new SqliteNonceStore(NONCE_DB_PATH)
+    : NONCE_STORE === "redis"
+      ? new RedisNonceStore(new Bun.RedisClient(process.env.REDIS_URL))
+      : new MemoryNonceStore();
+const nonceLedger = new NonceLedger(nonceStore, { verbose: false });
+
+// Prepaid credit accounts: "memory" or "sqlite" (CREDIT_DB_PATH)
+const creditStore: CreditStore =
+  CREDIT_STORE === "sqlite" ? new SqliteCreditStore(CREDIT_DB_PATH) : new MemoryCreditStore();
+const creditLedger = new CreditLedger(creditStore, { verbose: false });
+
+const paymentVerifier = new PaymentVerifier(facilitator, { ledger: nonceLedger, verbose: false });
+
+// Input validation schema: 0x addresses on EVM chains, base58 mints on Solana
+const EvmAddressSchema = z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid Ethereum address");
+const SolanaAddressSchema = z.string().refine(isSolanaAddress, "Invalid Solana address");
+
+const TokenSchema = z.object({
+  token_address: z.union([EvmAddressSchema, SolanaAddressSchema]),
+  chain_id: z.number().int().positive(),
+});
+
+/**
+ * Reject addresses in the other chain family's format
+ */
+const matchAddressToChain = (token: z.infer<typeof TokenSchema>, ctx: z.RefinementCtx) => {
+  const solana = chainRegistry.vm(token.chain_id) === "svm";
+  if ((solana ? SolanaAddressSchema : EvmAddressSchema).safeParse(token.token_address).success) return;
+
+  ctx.addIssue({
+    code: z.ZodIssueCode.custom,
+    path: ["token_address"],
+    message: solana ? "Solana tokens need a base58 mint address" : "EVM tokens need a 0x-prefixed address",
+  });
 };
 
+const TokenCheckSchema = TokenSchema.extend({
+  depth: z.enum(["quick", "full"]).default("full"),
+  max_age: z.number().int().nonnegative().optional(),
+  refresh: z.boolean().default(false),
+  explain: z.boolean().default(false),
+}).superRefine(matchAddressToChain);
+
+type TokenCheckInput = z.infer<typeof TokenCheckSchema>;
+
+// Batch requests: items are validated one by one so a bad entry only fails itself
+const BatchItemSchema = TokenSchema.superRefine(matchAddressToChain);
+
+const BatchCheckSchema = z.object({
+  tokens: z.array(z.unknown()).min(1).max(BATCH_MAX_ITEMS),
+  depth: z.enum(["quick", "full"]).default("full"),
+  max_age: z.number().int().nonnegative().optional(),
+  refresh: z.boolean().default(false),
+});
+
 // ========================================
-// X402 PROTOCOL TYPES
+// X402 PAYMENT MIDDLEWARE
 // ========================================
 
-type X402Response = {
-  x402Version: number;
-  error?: string;
-  accepts?: Array<X402Accept>;
-  payer?: string;
+/**
+ * x402 input schema per paid route
+ */
+const ROUTE_BODY_FIELDS: Record<string, Record<string, FieldDef>> = {
+  analyze: {
+    token_address: {
+      type: "string",
+      required: true,
+      description: "Token address: 0x-prefixed hex (42 characters) on EVM chains, base58 mint on Solana",
+    },
+    chain_id: {
+      type: "number",
+      required: true,
+      description: "Blockchain network ID",
+      enum: CHAIN_IDS.map(String),
+    },
+    depth: {
+      type: "string",
+      required: false,
+      description: "Analysis depth: quick (on-chain only) or full (deep scan, default)",
+      enum: [...ANALYSIS_DEPTHS],
+    },
+    max_age: {
+      type: "number",
+      required: false,
+      description: "Maximum age in seconds of cached analyzer data to accept (0 = always fresh)",
+    },
+    refresh: {
+      type: "boolean",
+      required: false,
+      description: "Bypass the result cache and re-run every analyzer",
+    },
+    explain: {
+      type: "boolean",
+      required: false,
+      description: "Include the per-source breakdown of the safety score",
+    },
+  },
+  batch: {
+    tokens: {
+      type: "array",
+      required: true,
+      description: `Tokens to analyze (1-${BATCH_MAX_ITEMS}), each {token_address, chain_id}; priced per valid item`,
+      properties: {
+        token_address: {
+          type: "string",
+          required: true,
+          description: "Token address: 0x-prefixed hex (42 characters) on EVM chains, base58 mint on Solana",
+        },
+        chain_id: {
+          type: "number",
+          required: true,
+          description: "Blockchain network ID",
+          enum: CHAIN_IDS.map(String),
+        },
+      },
+    },
+    depth: {
+      type: "string",
+      required: false,
+      description: "Analysis depth for every item: quick (on-chain only) or full (deep scan, default)",
+      enum: [...ANALYSIS_DEPTHS],
+    },
+    max_age: {
+      type: "number",
+      required: false,
+      description: "Maximum age in seconds of cached analyzer data to accept (0 = always fresh)",
+    },
+    refresh: {
+      type: "boolean",
+      required: false,
+      description: "Bypass the result cache and re-run every analyzer",
+    },
+  },
+  topup: {
+    amount: {
+      type: "number",
+      required: false,
+      description: `Deposit in USDC base units (6 decimals, minimum ${TOPUP_MINIMUM})`,
+    },
+  },
 };
 
-type X402Accept = {
-  scheme: "exact";
-  network: "base";
-  maxAmountRequired: string;
-  resource: string;
-  description: string;
-  mimeType: string;
-  payTo: string;
-  maxTimeoutSeconds: number;
-  asset: string;
-  outputSchema?: {
-    input: {
-      type: "http";
-      method: "GET" | "POST";
-      bodyType?: "json" | "form-data" | "multipart-form-data" | "text" | "binary";
-      queryParams?: Record<string, FieldDef>;
-      bodyFields?: Record<string, FieldDef>;
-      headerFields?: Record<string, FieldDef>;
-    };
-    output?: Record<string, any>;
+/**
+ * x402 header schema per paid route
+ */
+const ROUTE_HEADER_FIELDS: Record<string, Record<string, FieldDef>> = {
+  analyze: {
+    "X-API-Key": {
+      type: "string",
+      required: false,
+      description: "Prepaid API key from /api/v1/account/topup (alternative to per-call payment)",
+    },
+  },
+  batch: {
+    "X-API-Key": {
+      type: "string",
+      required: false,
+      description: "Prepaid API key from /api/v1/account/topup (alternative to per-call payment)",
+    },
+  },
+  topup: {
+    "X-API-Key": {
+      type: "string",
+      required: false,
+      description: "Existing API key to add credits to (omit to create a new key)",
+    },
+  },
+};
+
+/**
+ * Payment requirements for a priced request, one entry per accepted network/asset
+ */
+const buildPaymentAccepts = (quote: PriceQuote): X402Accept[] => {
+  const route = pricing.getRoute(quote.route);
+
+  return PAYMENT_OPTIONS.map(({ asset, payTo }) => ({
+    scheme: "exact",
+    network: asset.network,
+    maxAmountRequired: toAssetAmount(quote.amount, asset),
+    resource: `${SERVICE_URL}${route.path}`,
+    description: route.description,
+    mimeType: "application/json",
+    payTo,
+    maxTimeoutSeconds: 300,
+    asset: asset.address,
+    outputSchema: {
+      input: {
+        type: "http",
+        method: route.method,
+        bodyType: "json",
+        bodyFields: ROUTE_BODY_FIELDS[quote.route],
+        headerFields: ROUTE_HEADER_FIELDS[quote.route],
+      },
+    },
+    extra: {
+      // EIP-712 domain of the asset, needed to verify transferWithAuthorization
+      name: asset.eip712Name,
+      version: asset.eip712Version,
+      assetSymbol: asset.symbol,
+      facilitatorUrl: FACILITATOR_URL,
+      priceDisplay: quote.display,
+      pricing: {
+        depth: quote.depth,
+        items: quote.items,
+        baseAmount: quote.baseAmount,
+        chainSurcharge: quote.chainSurcharge,
+      },
+      supportedChains: CHAIN_IDS,
+    },
+  }));
+};
+
+/**
+ * Respond with 402 and the payment requirements
+ */
+const paymentRequired = (c: any, accepts: X402Accept[], error: string, payer?: string) => {
+  const x402Response: X402Response = {
+    x402Version: 1,
+    error,
+    accepts,
+    ...(payer ? { payer } : {}),
   };
-  extra?: Record<string, any>;
+
+  c.header("X-402", JSON.stringify(x402Response));
+  c.header("Content-Type", "application/json");
+
+  return c.json(x402Response, 402);
 };
 
-type FieldDef = {
-  type?: string;
-  required?: boolean | string[];
-  description?: string;
-  enum?: string[];
-  properties?: Record<string, FieldDef>;
+/**
+ * Whether a raw batch entry is valid and on a supported chain
+ */
+const isBatchItemAnalyzable = (item: unknown): boolean => {
+  const parsed = BatchItemSchema.safeParse(item);
+  return parsed.success && isChainSupported(parsed.data.chain_id);
 };
 
-// ========================================
-// INITIALIZE ANALYZERS
-// ========================================
+/**
+ * Read the price-relevant fields from a JSON request body (if any)
+ */
+const readPricingParams = async (
+  c: any
+): Promise<{ depth?: AnalysisDepth; chainId?: number; amount?: number; chainIds?: number[] }> => {
+  try {
+    const body = await c.req.json();
+    return {
+      depth: ANALYSIS_DEPTHS.includes(body?.depth) ? body.depth : undefined,
+      chainId: Number.isInteger(body?.chain_id) ? body.chain_id : undefined,
+      amount: Number.isInteger(body?.amount) ? body.amount : undefined,
+      // Batch items that will actually be analyzed (invalid entries are not charged)
+      chainIds: Array.isArray(body?.tokens)
+        ? body.tokens
+            .filter(isBatchItemAnalyzable)
+            .map((item: { chain_id: number }) => item.chain_id)
+        : undefined,
+    };
+  } catch {
+    return {};
+  }
+};
 
-const honeypotChecker = new HoneypotChecker({ verbose: false });
-const onchainAnalyzer = new OnChainAnalyzer(RPC_URLS, { verbose: false });
-const scoringEngine = new ScoringEngine({ verbose: false });
+/**
+ * Read a prepaid API key from `X-API-Key` or `Authorization: Bearer`
+ */
+const readApiKey = (c: any): string | undefined => {
+  const header = c.req.header("X-API-Key");
+  if (header) return header.trim();
 
-// Input validation schema
-const TokenCheckSchema = z.object({
-  token_address: z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid Ethereum address"),
-  chain_id: z.number().int().positive(),
+  const authorization = c.req.header("Authorization");
+  const match = authorization?.match(/^Bearer\s+(.+)$/i);
+  return match ? match[1].trim() : undefined;
+};
+
+/**
+ * Public view of a credit account (never includes the key hash)
+ */
+const describeAccount = (account: CreditAccount) => ({
+  id: account.id,
+  owner: account.owner,
+  balance: account.balance,
+  balanceDisplay: formatUsdc(account.balance),
+  totalDeposited: account.totalDeposited,
+  totalSpent: account.totalSpent,
+  requestCount: account.requestCount,
+  createdAt: new Date(account.createdAt).toISOString(),
+  updatedAt: new Date(account.updatedAt).toISOString(),
 });
 
-// ========================================
-// X402 PAYMENT MIDDLEWARE - CORRECTED
-// ========================================
+/**
+ * Result of billing a paid request
+ */
+type BillingOutcome = {
+  /** How the request was paid for */
+  method: "x402" | "credits";
+  /** Whether the client ended up paying */
+  charged: boolean;
+  /** Amount charged in USDC base units (0 when not charged) */
+  amount: number;
+  /** Machine-readable reason when not charged */
+  reason?: string;
+  /** Human-readable explanation when not charged */
+  message?: string;
+  /** Settlement failure reason (x402 only; the request must not be served) */
+  settlementError?: string;
+  /** Settlement transaction hash (x402 only) */
+  transaction?: string;
+  /** Payer address */
+  payer?: string;
+  /** Remaining prepaid balance (credits only) */
+  creditsRemaining?: number;
+  /** Unbilled part of the price given back in USDC base units (partially billed batches) */
+  refunded?: number;
+  /** New API key holding the refund as prepaid credits (x402 only) */
+  refundApiKey?: string;
+};
 
-const x402Middleware = async (c: any, next: any) => {
-  const paymentProof = c.req.header("X-402-Payment-Proof");
-  
-  // Always return 402 if no payment proof
-  if (!paymentProof) {
-    const accepts: X402Accept = {
-      scheme: "exact",
-      network: "base",
-      maxAmountRequired: DEFAULT_PRICE.toString(),
-      resource: `${SERVICE_URL}/api/v1/analyze`,
-      description: "Token safety analysis - AI-powered honeypot and scam detection across 7 blockchains",
-      mimeType: "application/json",
-      payTo: PAYMENT_ADDRESS,
-      maxTimeoutSeconds: 300,
-      asset: USDC_BASE,
-      outputSchema: {
-        input: {
-          type: "http",
-          method: "POST",
-          bodyType: "json",
-          bodyFields: {
-            token_address: {
-              type: "string",
-              required: true,
-              description: "Token contract address (0x-prefixed hex string, 42 characters)",
-            },
-            chain_id: {
-              type: "number",
-              required: true,
-              description: "Blockchain network ID",
-              enum: ["1", "56", "137", "42161", "10", "8453", "43114"],
-            },
+/**
+ * A verified payment that has not been charged yet
+ *
+ * Handlers call `finalize` once they know whether the work is worth paying
+ * for; requests that never reach it (validation errors, crashes) are not charged.
+ */
+type BillingSession = {
+  method: "x402" | "credits";
+  quote: PriceQuote;
+  /** Amount authorized in USDC base units (an x402 payment may exceed the quote) */
+  authorizedAmount: number;
+  payer?: string;
+  /** Settle / keep the debit, or release / refund it */
+  finalize(decision: ChargeDecision): Promise<BillingOutcome>;
+  /** Set once finalized */
+  outcome?: BillingOutcome;
+};
+
+/**
+ * Require payment for a route: an x402 payment proof priced from the pricing
+ * table or, when `allowCredits` is set, a funded prepaid API key.
+ *
+ * Payment is verified (or credits reserved) up front but only charged when
+ * the handler finalizes the billing session with a positive charge decision.
+ */
+const x402Middleware = (route: string, options: { allowCredits?: boolean } = {}) => async (
+  c: any,
+  next: any
+) => {
+  const quote = pricing.quote(route, await readPricingParams(c));
+  const accepts = buildPaymentAccepts(quote);
+  const paymentProof = c.req.header("X-402-Payment-Proof") || c.req.header("X-PAYMENT");
+  const apiKey = options.allowCredits ? readApiKey(c) : undefined;
+
+  let session: BillingSession;
+
+  // Prepaid credits instead of a per-call payment
+  if (!paymentProof && apiKey) {
+    // Reserve the price now so concurrent requests cannot overdraw the balance
+    const debit = await creditLedger.debit(apiKey, quote.amount);
+
+    if (debit.reason === "invalid_api_key") {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: "INVALID_API_KEY",
+            message: "Unknown API key",
           },
         },
-      },
-      extra: {
-        facilitatorUrl: FACILITATOR_URL,
-        priceDisplay: `${(DEFAULT_PRICE / 1000000).toFixed(2)} USDC`,
-        supportedChains: [1, 56, 137, 42161, 10, 8453, 43114],
+        401
+      );
+    }
+
+    if (!debit.success || !debit.account) {
+      c.header("X-Credits-Remaining", String(debit.account?.balance ?? 0));
+      return paymentRequired(c, accepts, "insufficient_credits", debit.account?.owner);
+    }
+
+    const account = debit.account;
+    c.header("X-Credits-Remaining", String(account.balance));
+
+    session = {
+      method: "credits",
+      quote,
+      authorizedAmount: quote.amount,
+      payer: account.owner,
+      finalize: async (decision) => {
+        // Partially billed batches give back the price of the unbilled items
+        const unbilled = decision.charge ? quote.amount - (decision.amount ?? quote.amount) : 0;
+
+        if (decision.charge && unbilled <= 0) {
+          console.log(`💳 Debited ${quote.display} from ${account.id} (balance ${formatUsdc(account.balance)})`);
+          return { method: "credits", charged: true, amount: quote.amount, creditsRemaining: account.balance };
+        }
+
+        if (decision.charge) {
+          const refunded = await creditLedger.refund(apiKey, unbilled, true);
+          const balance = refunded?.balance ?? account.balance;
+          console.log(`💳 Debited ${formatUsdc(quote.amount - unbilled)} from ${account.id} (balance ${formatUsdc(balance)})`);
+          c.header("X-Credits-Remaining", String(balance));
+          return {
+            method: "credits",
+            charged: true,
+            amount: quote.amount - unbilled,
+            refunded: unbilled,
+            creditsRemaining: balance,
+          };
+        }
+
+        const refunded = await creditLedger.refund(apiKey, quote.amount);
+        const balance = refunded?.balance ?? account.balance;
+        console.log(`↩️ Refunded ${quote.display} to ${account.id}: ${decision.reason}`);
+        c.header("X-Credits-Remaining", String(balance));
+        return {
+          method: "credits",
+          charged: false,
+          amount: 0,
+          reason: decision.reason,
+          message: decision.message,
+          creditsRemaining: balance,
+        };
       },
     };
+  } else {
+    // Always return 402 if no payment proof
+    if (!paymentProof) {
+      return paymentRequired(c, accepts, "Payment required");
+    }
 
-    const x402Response: X402Response = {
-      x402Version: 1,
-      error: "Payment required",
-      accepts: [accepts],
-    };
+    // Match the proof to an accepted network/asset, verify it locally, then with the facilitator
+    const verification = await paymentVerifier.verify(paymentProof, accepts);
+    if (!verification.isValid || !verification.payment || !verification.requirements) {
+      console.warn(`🚫 Payment rejected: ${verification.invalidReason}`);
+      return paymentRequired(
+        c,
+        accepts,
+        verification.invalidReason || "Invalid payment",
+        verification.payer
+      );
+    }
 
-    c.header("X-402", JSON.stringify(x402Response));
-    c.header("Content-Type", "application/json");
-    
-    // FIXED: Return the X402Response directly, not nested
-    return c.json(x402Response, 402);
-  }
+    const payment = verification.payment;
+    const requirements = verification.requirements;
+
+    // Amount actually authorized, normalized to USDC base units (may exceed the quote)
+    const asset = PAYMENT_OPTIONS.find(
+      (option) =>
+        option.asset.network === requirements.network &&
+        option.asset.address === requirements.asset
+    )?.asset;
+    const authorizedAmount = asset
+      ? fromAssetAmount(payment.payload.authorization.value, asset)
+      : quote.amount;
+
+    session = {
+      method: "x402",
+      quote,
+      authorizedAmount,
+      payer: verification.payer,
+      finalize: async (decision) => {
+        if (!decision.charge) {
+          await paymentVerifier.release(payment, requirements);
+          console.log(`↩️ Payment from ${verification.payer} not settled: ${decision.reason}`);
+          return {
+            method: "x402",
+            charged: false,
+            amount: 0,
+            reason: decision.reason,
+            message: decision.message,
+            payer: verification.payer,
+          };
+        }
 
-  // If payment proof exists, verify it
-  if (paymentProof) {
-    console.log(`💰 Payment received: ${paymentProof.substring(0, 20)}...`);
+        const settlement = await paymentVerifier.settle(payment, requirements);
+        if (!settlement.success) {
+          return {
+            method: "x402",
+            charged: false,
+            amount: 0,
+            settlementError: settlement.errorReason || "Payment settlement failed",
+            payer: settlement.payer || verification.payer,
+          };
+        }
+
+        const payer = settlement.payer || verification.payer;
+        console.log(
+          `💰 Payment of ${formatUsdc(authorizedAmount)} settled on ${settlement.network} from ${payer}: ${settlement.transaction}`
+        );
+        c.header("X-PAYMENT-RESPONSE", encodePaymentResponse(settlement));
+
+        // An authorization settles in full: give back unbilled batch items as prepaid credits
+        const unbilled = Math.min(authorizedAmount, quote.amount - (decision.amount ?? quote.amount));
+        if (unbilled > 0) {
+          const refund = await creditLedger.createAccount(payer || "unknown", unbilled);
+          console.log(`↩️ Refunded ${formatUsdc(unbilled)} to ${payer} as credits on ${refund.account.id}`);
+          return {
+            method: "x402",
+            charged: true,
+            amount: authorizedAmount - unbilled,
+            refunded: unbilled,
+            refundApiKey: refund.apiKey,
+            creditsRemaining: refund.account.balance,
+            transaction: settlement.transaction,
+            payer,
+          };
+        }
+
+        return {
+          method: "x402",
+          charged: true,
+          amount: authorizedAmount,
+          transaction: settlement.transaction,
+          payer,
+        };
+      },
+    };
   }
 
-  await next();
+  // Finalize at most once, recording the outcome on the session
+  const finalize = session.finalize;
+  session.finalize = async (decision) => {
+    session.outcome ??= await finalize(decision);
+    c.header("X-Payment-Charged", String(session.outcome.charged));
+    return session.outcome;
+  };
+
+  c.set("billing", session);
+  c.set("quote", quote);
+
+  try {
+    await next();
+  } finally {
+    // The handler never decided (error response or crash): don't charge for it
+    if (!session.outcome) {
+      await session.finalize({
+        charge: false,
+        reason: "request_failed",
+        message: "Request did not complete - no charge applied",
+      });
+    }
+  }
 };
 
+/**
+ * Respond with 402 when a chargeable request could not be settled
+ */
+const settlementFailed = (c: any, billing: BillingOutcome) =>
+  paymentRequired(
+    c,
+    buildPaymentAccepts(c.get("billing").quote),
+    billing.settlementError || "Payment settlement failed",
+    billing.payer
+  );
+
+/**
+ * Public view of a billing outcome for response metadata
+ */
+const describeBilling = (billing: BillingOutcome) => ({
+  method: billing.method,
+  charged: billing.charged,
+  amount: billing.amount,
+  amountDisplay: formatUsdc(billing.amount),
+  ...(billing.charged ? {} : { reason: billing.reason, message: billing.message }),
+  ...(billing.refunded
+    ? {
+        refund: {
+          amount: billing.refunded,
+          display: formatUsdc(billing.refunded),
+          // Shown once: the unbilled amount is spendable as prepaid credits with this key
+          apiKey: billing.refundApiKey,
+        },
+      }
+    : {}),
+});
+
 // ========================================
 // CREATE HONO APP
 // ========================================
 
-const app = new Hono();
+const app = new Hono<{
+  Variables: {
+    billing?: BillingSession;
+    quote?: PriceQuote;
+  };
+}>();
 
 // CORS middleware
-app.use("/*", cors());
+app.use("/*", cors({ exposeHeaders: ["X-402", "X-PAYMENT-RESPONSE", "X-Credits-Remaining", "X-Payment-Charged"] }));
 
 // ========================================
 // HEALTH & STATUS ENDPOINTS
@@ -200,9 +856,28 @@ app.get("/health", (c) => {
     timestamp: new Date().toISOString(),
     uptime: process.uptime(),
     payment: {
-      address: PAYMENT_ADDRESS,
-      network: NETWORK,
-      priceUsdc: (DEFAULT_PRICE / 1000000).toFixed(2),
+      address: PRIMARY_PAYMENT.payTo,
+      network: PRIMARY_PAYMENT.asset.network,
+      networks: ACCEPTED_PAYMENTS.map((payment) => payment.network),
+      priceUsdc: formatUsdc(pricing.quote("analyze").amount).replace(" USDC", ""),
+    },
+    cache: {
+      entries: analysisCache.size,
+      ttlSeconds: {
+        bytecode: CACHE_TTL_BYTECODE,
+        onchain: CACHE_TTL_ONCHAIN,
+        creation: CACHE_TTL_CREATION,
+        honeypot: CACHE_TTL_HONEYPOT,
+        simulation: CACHE_TTL_SIMULATION,
+        liquidity: CACHE_TTL_LIQUIDITY,
+        holders: CACHE_TTL_HOLDERS,
+      },
+    },
+    rpc: {
+      strategy: RPC_STRATEGY,
+      chains: Object.fromEntries(
+        Object.entries({ ...RPC_POOLS, ...SOLANA_RPC_POOLS }).map(([chainId, pool]) => [chainId, pool.getHealth()])
+      ),
     },
   });
 });
@@ -212,24 +887,27 @@ app.get("/health", (c) => {
 // ========================================
 
 app.get("/.well-known/agent.json", (c) => {
+  const analyzeQuote = pricing.quote("analyze");
+
   const manifest = {
     "@context": "https://lucid.app/agent/v1",
     id: "token-safety-check",
     name: "Token Safety Check",
     version: "1.0.0",
-    description: "AI-powered token safety analyzer that detects honeypots, scams, and risky tokens across 7 blockchain networks. Analyzes buy/sell taxes, holder concentration, contract verification, and technical risks.",
+    description: `AI-powered token safety analyzer that detects honeypots, scams, and risky tokens across ${CHAIN_IDS.length} blockchain networks. Analyzes buy/sell taxes, holder concentration, contract verification, and technical risks.`,
     
     // X402 Payment Configuration
     payment: {
       protocol: "x402",
       version: 1,
-      network: NETWORK,
-      payTo: PAYMENT_ADDRESS,
-      asset: USDC_BASE,
-      assetSymbol: "USDC",
-      pricePerRequest: DEFAULT_PRICE,
-      priceDisplay: `${(DEFAULT_PRICE / 1000000).toFixed(2)} USDC`,
+      network: PRIMARY_PAYMENT.asset.network,
+      payTo: PRIMARY_PAYMENT.payTo,
+      asset: PRIMARY_PAYMENT.asset.address,
+      assetSymbol: PRIMARY_PAYMENT.asset.symbol,
+      pricePerRequest: analyzeQuote.amount,
+      priceDisplay: analyzeQuote.display,
       facilitatorUrl: FACILITATOR_URL,
+      accepts: ACCEPTED_PAYMENTS,
     },
 
     // Agent Capabilities
@@ -249,7 +927,7 @@ app.get("/.well-known/agent.json", (c) => {
       {
         name: "analyze-token",
         displayName: "Analyze Token Safety",
-        description: "Comprehensive token safety analysis including honeypot detection, tax analysis, centralization risks, and technical verification. Returns safety score, risk level, warnings, and actionable recommendations.",
+        description: "Comprehensive token safety analysis including honeypot detection, tax analysis, centralization risks, and technical verification. Returns safety score, risk level, structured findings (stable codes, severity, category, evidence), warnings, and actionable recommendations.",
         
         endpoint: {
           method: "POST",
@@ -257,6 +935,7 @@ app.get("/.well-known/agent.json", (c) => {
           contentType: "application/json",
           requiresPayment: true,
           paymentProtocol: "x402",
+          alternativeAuth: "X-API-Key (prepaid credits)",
         },
 
         input: {
@@ -264,17 +943,39 @@ app.get("/.well-known/agent.json", (c) => {
           properties: {
             token_address: {
               type: "string",
-              description: "Token contract address (0x-prefixed hex, 42 characters)",
-              pattern: "^0x[a-fA-F0-9]{40}$",
+              description: "Token address: 0x-prefixed hex (42 characters) on EVM chains, base58 mint on Solana",
+              pattern: "^(0x[a-fA-F0-9]{40}|[1-9A-HJ-NP-Za-km-z]{32,44})$",
               example: "0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48",
             },
             chain_id: {
               type: "integer",
               description: "Blockchain network identifier",
-              enum: [1, 56, 137, 42161, 10, 8453, 43114],
-              enumNames: ["Ethereum", "BSC", "Polygon", "Arbitrum", "Optimism", "Base", "Avalanche"],
+              enum: CHAIN_IDS,
+              enumNames: CHAIN_IDS.map((id) => CHAIN_NAMES[id]),
               example: 1,
             },
+            depth: {
+              type: "string",
+              description: "Analysis depth: quick (on-chain only) or full (deep scan)",
+              enum: [...ANALYSIS_DEPTHS],
+              default: "full",
+            },
+            max_age: {
+              type: "integer",
+              description: "Maximum age in seconds of cached analyzer data to accept",
+              minimum: 0,
+            },
+            refresh: {
+              type: "boolean",
+              description: "Bypass the result cache",
+              default: false,
+            },
+            explain: {
+              type: "boolean",
+              description:
+                "Include analysis.explanation: each source's weight, points added or removed, and the risk factors behind its score",
+              default: false,
+            },
           },
           required: ["token_address", "chain_id"],
         },
@@ -304,36 +1005,75 @@ app.get("/.well-known/agent.json", (c) => {
         ],
 
         pricing: {
-          amount: DEFAULT_PRICE,
-          currency: "USDC",
-          network: "base",
-          display: `${(DEFAULT_PRICE / 1000000).toFixed(2)} USDC per analysis`,
+          ...pricing.describe("analyze"),
+          amount: analyzeQuote.amount,
+          networks: ACCEPTED_PAYMENTS.map((payment) => payment.network),
+          display: `${analyzeQuote.display} per analysis`,
+        },
+      },
+      {
+        name: "analyze-token-batch",
+        displayName: "Analyze Token List",
+        description: `Safety analysis for up to ${BATCH_MAX_ITEMS} tokens (e.g. a wallet's holdings) with a single payment. Invalid or failing tokens are reported per item without failing the batch and are not charged for.`,
+
+        endpoint: {
+          method: "POST",
+          url: `${SERVICE_URL}/api/v1/analyze/batch`,
+          contentType: "application/json",
+          requiresPayment: true,
+          paymentProtocol: "x402",
+          alternativeAuth: "X-API-Key (prepaid credits)",
+        },
+
+        input: {
+          type: "object",
+          properties: {
+            tokens: {
+              type: "array",
+              minItems: 1,
+              maxItems: BATCH_MAX_ITEMS,
+              items: {
+                type: "object",
+                properties: {
+                  token_address: { type: "string", pattern: "^(0x[a-fA-F0-9]{40}|[1-9A-HJ-NP-Za-km-z]{32,44})$" },
+                  chain_id: { type: "integer", enum: CHAIN_IDS },
+                },
+                required: ["token_address", "chain_id"],
+              },
+            },
+            depth: {
+              type: "string",
+              enum: [...ANALYSIS_DEPTHS],
+              default: "full",
+            },
+          },
+          required: ["tokens"],
+        },
+
+        pricing: {
+          ...pricing.describe("batch"),
+          networks: ACCEPTED_PAYMENTS.map((payment) => payment.network),
+          display: `${analyzeQuote.display} per token`,
         },
       },
     ],
 
     // Supported Blockchains
-    supportedChains: Object.entries(CHAIN_NAMES).map(([id, name]) => ({
-      chainId: parseInt(id),
-      name,
+    supportedChains: chainRegistry.list().map((chain) => ({
+      chainId: chain.id,
+      name: chain.name,
+      nativeToken: chain.nativeToken.symbol,
+      explorer: chain.explorer?.url,
       supported: true,
     })),
 
     // Data Sources
-    dataSources: [
-      {
-        name: "honeypot.is",
-        description: "Honeypot detection and token simulation",
-        type: "api",
-        weight: 0.6,
-      },
-      {
-        name: "on-chain",
-        description: "Direct blockchain verification via Web3",
-        type: "rpc",
-        weight: 0.4,
-      },
-    ],
+    dataSources: scoringEngine.describeSources().map(({ source, description, type, weight }) => ({
+      name: source,
+      description,
+      type,
+      weight,
+    })),
 
     // Metadata
     metadata: {
@@ -357,6 +1097,9 @@ app.get("/.well-known/agent.json", (c) => {
     links: {
       self: `${SERVICE_URL}/.well-known/agent.json`,
       analyze: `${SERVICE_URL}/api/v1/analyze`,
+      batch: `${SERVICE_URL}/api/v1/analyze/batch`,
+      topup: `${SERVICE_URL}/api/v1/account/topup`,
+      account: `${SERVICE_URL}/api/v1/account`,
       health: `${SERVICE_URL}/health`,
       docs: `${SERVICE_URL}/docs`,
       register: "https://www.x402scan.com/resources/register",
@@ -366,11 +1109,412 @@ app.get("/.well-known/agent.json", (c) => {
   return c.json(manifest);
 });
 
+// ========================================
+// ANALYSIS HELPERS
+// ========================================
+
+/**
+ * Error body for a chain the analyzers have no RPC for
+ */
+const unsupportedChainError = (chainId: number) => ({
+  code: "UNSUPPORTED_CHAIN",
+  message: `Chain ID ${chainId} is not supported`,
+  supportedChains: [...onchainAnalyzer.getSupportedChains(), ...solanaAnalyzer.getSupportedChains()],
+});
+
+/**
+ * Cache requirements from the request body, falling back to `Cache-Control`
+ * (`no-cache` forces a refresh, `max-age=N` bounds the accepted age)
+ */
+const readCacheOptions = (
+  c: any,
+  input: { max_age?: number; refresh: boolean }
+): CacheLookupOptions => {
+  const cacheControl: string = c.req.header("Cache-Control") || "";
+  const headerMaxAge = cacheControl.match(/max-age=(\d+)/i);
+
+  return {
+    refresh: input.refresh || /no-cache/i.test(cacheControl),
+    maxAge: input.max_age ?? (headerMaxAge ? parseInt(headerMaxAge[1]!) : undefined),
+  };
+};
+
+/**
+ * Solana counterpart of runAnalysis: mint analysis plus the largest holders
+ * (full depth); honeypot.is, the sell simulation and liquidity analysis are EVM-only
+ */
+const runSolanaAnalysis = async (input: TokenCheckInput, cacheOptions: CacheLookupOptions) => {
+  const key = AnalysisCache.key(input.chain_id, input.token_address);
+
+  const [onchain, holders] = await Promise.all([
+    analysisCache.getOrLoad(
+      "onchain",
+      key,
+      () => solanaAnalyzer.analyzeToken(input.token_address, input.chain_id),
+      cacheOptions,
+      (data) => !data.error
+    ),
+    input.depth === "full"
+      ? analysisCache.getOrLoad(
+          "holders",
+          key,
+          () => solanaAnalyzer.getTopHolders(input.token_address, input.chain_id),
+          cacheOptions,
+          (data) => !data.error
+        )
+      : null,
+  ]);
+
+  const skipped = input.depth === "full" ? "Not available on Solana" : "Skipped for quick analysis";
+  const honeypotData = honeypotChecker.skippedResult(skipped);
+  const onchainData = onchain.value;
+  const simulationData = sellSimulator.skippedResult(skipped);
+  const liquidityData = liquidityAnalyzer.skippedResult(skipped);
+  const holdersData = holders?.value ?? solanaAnalyzer.skippedHoldersResult("Skipped for quick analysis");
+  const result = scoringEngine.aggregate([honeypotData, onchainData, simulationData, liquidityData, holdersData]);
+
+  const used = holders ? [onchain, holders] : [onchain];
+  const cachedAt = Math.min(...used.map((entry) => entry.cachedAt));
+  const fresh = used.every((entry) => entry.fresh);
+
+  return { honeypotData, onchainData, simulationData, liquidityData, holdersData, result, cachedAt, fresh };
+};
+
+/**
+ * Run the analyzers in parallel (through the result cache) and aggregate
+ * their results (quick checks are on-chain only)
+ */
+const runAnalysis = async (input: TokenCheckInput, cacheOptions: CacheLookupOptions = {}) => {
+  if (chainRegistry.vm(input.chain_id) === "svm") {
+    return runSolanaAnalysis(input, cacheOptions);
+  }
+
+  const key = AnalysisCache.key(input.chain_id, input.token_address);
+  const simulate = input.depth === "full" && sellSimulator.isChainSupported(input.chain_id);
+  const checkLiquidity = input.depth === "full" && liquidityAnalyzer.isChainSupported(input.chain_id);
+  const indexHolders = input.depth === "full" && holderIndexer.isChainSupported(input.chain_id);
+
+  // Creation block and deployer reputation take dozens of archive calls: full analyses only
+  const creationLoad =
+    input.depth === "full"
+      ? analysisCache.getOrLoad(
+          "creation",
+          key,
+          () => onchainAnalyzer.lookupCreation(input.token_address, input.chain_id),
+          cacheOptions,
+          (creation) => creation !== null
+        )
+      : null;
+
+  const liquidityLoad = checkLiquidity
+    ? analysisCache.getOrLoad(
+        "liquidity",
+        key,
+        () => liquidityAnalyzer.analyzeToken(input.token_address, input.chain_id),
+        cacheOptions,
+        (data) => !data.error
+      )
+    : null;
+
+  // LP pools and lockers hold liquidity, not tokens anyone can sell: leave them out
+  const holdersLoad = indexHolders
+    ? Promise.all([liquidityLoad, creationLoad]).then(([liquidity, creation]) =>
+        analysisCache.getOrLoad(
+          "holders",
+          key,
+          () =>
+            holderIndexer.indexToken(input.token_address, input.chain_id, {
+              exclude: [
+                ...(liquidity?.value.pools ?? []).map((pool) => ({ address: pool.address, label: "lp" as const })),
+                ...liquidityAnalyzer
+                  .getLockers(input.chain_id)
+                  .map((locker) => ({ address: locker.address, label: "locker" as const })),
+              ],
+              creation: creation?.value
+                ? { block: creation.value.block, deployer: creation.value.deployer?.address }
+                : undefined,
+            }),
+          cacheOptions,
+          (data) => !data.error
+        )
+      )
+    : null;
+
+  const [honeypot, onchain, simulation, liquidity, holders] = await Promise.all([
+    input.depth === "full"
+      ? analysisCache.getOrLoad(
+          "honeypot",
+          key,
+          () => honeypotChecker.checkToken(input.token_address, input.chain_id),
+          cacheOptions,
+          (data) => !data.error
+        )
+      : null,
+    analysisCache.getOrLoad(
+      "onchain",
+      // Full analyses include creation data, quick ones do not
+      input.depth === "full" ? `${key}:full` : key,
+      async () => {
+        // Only deployed code is cached: an empty address may still get a contract
+        const code = await analysisCache.getOrLoad(
+          "bytecode",
+          key,
+          () => onchainAnalyzer.getCode(input.token_address, input.chain_id),
+          cacheOptions,
+          (code) => Boolean(code && code !== "0x")
+        );
+        const creation = await creationLoad;
+        return onchainAnalyzer.analyzeToken(input.token_address, input.chain_id, {
+          code: code.value ?? undefined,
+          creation: creation?.value,
+        });
+      },
+      cacheOptions,
+      (data) => !data.error
+    ),
+    simulate
+      ? analysisCache.getOrLoad(
+          "simulation",
+          key,
+          () => sellSimulator.simulate(input.token_address, input.chain_id),
+          cacheOptions,
+          (data) => !data.error
+        )
+      : null,
+    liquidityLoad,
+    holdersLoad,
+  ]);
+
+  const honeypotData = honeypot?.value ?? honeypotChecker.skippedResult("Skipped for quick analysis");
+  const onchainData = onchain.value;
+  const simulationData =
+    simulation?.value ??
+    sellSimulator.skippedResult(
+      input.depth === "full" ? `Sell simulation not available on chain ${input.chain_id}` : "Skipped for quick analysis"
+    );
+  const liquidityData =
+    liquidity?.value ??
+    liquidityAnalyzer.skippedResult(
+      input.depth === "full" ? `Liquidity analysis not available on chain ${input.chain_id}` : "Skipped for quick analysis"
+    );
+  const holdersData =
+    holders?.value ??
+    holderIndexer.skippedResult(
+      input.depth === "full" ? `Holder index not available on chain ${input.chain_id}` : "Skipped for quick analysis"
+    );
+  const result = scoringEngine.aggregate([honeypotData, onchainData, simulationData, liquidityData, holdersData]);
+
+  // Freshness of the oldest piece of data the result is built from
+  const used = [honeypot, onchain, simulation, liquidity, holders].filter((entry) => entry !== null);
+  const cachedAt = Math.min(...used.map((entry) => entry.cachedAt));
+  const fresh = used.every((entry) => entry.fresh);
+
+  return { honeypotData, onchainData, simulationData, liquidityData, holdersData, result, cachedAt, fresh };
+};
+
+/**
+ * Public shape of a Solana mint's authorities and extensions
+ */
+const formatSolanaMint = (mint: SolanaMintInfo | undefined) =>
+  mint && {
+    program: mint.program,
+    mintAuthority: mint.mint_authority,
+    freezeAuthority: mint.freeze_authority,
+    extensions: mint.extensions,
+    transferFee: mint.transfer_fee && {
+      feePercent: mint.transfer_fee.fee_percent,
+      maximumFee: mint.transfer_fee.maximum_fee,
+      authority: mint.transfer_fee.authority,
+      scheduledFeePercent: mint.transfer_fee.scheduled_fee_percent,
+      scheduledEpoch: mint.transfer_fee.scheduled_epoch,
+    },
+    permanentDelegate: mint.permanent_delegate,
+    transferHook: mint.transfer_hook && {
+      programId: mint.transfer_hook.program_id,
+      authority: mint.transfer_hook.authority,
+    },
+    defaultAccountState: mint.default_account_state,
+    nonTransferable: mint.non_transferable,
+    pausable: mint.pausable,
+    metadata: mint.metadata && {
+      standard: mint.metadata.standard,
+      address: mint.metadata.address,
+      updateAuthority: mint.metadata.update_authority,
+      mutable: mint.metadata.mutable,
+      uri: mint.metadata.uri,
+    },
+  };
+
+/**
+ * Public response shape of one token analysis (without request metadata)
+ */
+const formatAnalysis = (
+  input: TokenCheckInput,
+  { honeypotData, onchainData, simulationData, liquidityData, holdersData, result }: Awaited<ReturnType<typeof runAnalysis>>
+) => ({
+  // Token identification
+  token: {
+    address: input.token_address,
+    chainId: input.chain_id,
+    chainName: CHAIN_NAMES[input.chain_id] || "Unknown",
+    explorerUrl: chainRegistry.explorerAddressUrl(input.chain_id, input.token_address),
+    name: honeypotData.metadata?.token_name || onchainData.name,
+    symbol: honeypotData.metadata?.token_symbol || onchainData.symbol,
+  },
+
+  // Safety analysis
+  analysis: {
+    safetyScore: result.safety_score,
+    riskLevel: result.risk_level,
+    isHoneypot: result.is_honeypot,
+    confidence: result.confidence,
+
+    // Detailed findings (warnings are their rendered messages)
+    findings: result.findings,
+    warnings: result.warnings,
+    recommendations: result.recommendations,
+
+    // Risk breakdown
+    risks: {
+      tax: result.metadata?.tax_risk || "unknown",
+      taxMutability: result.metadata?.tax_mutability_risk || "unknown",
+      centralization: result.metadata?.centralization_risk || "unknown",
+      technical: result.metadata?.technical_risk || "unknown",
+      liquidity: result.metadata?.liquidity_risk || "unknown",
+    },
+
+    // Score breakdown: safetyScore = round(50 + sum of points), on request
+    explanation: input.explain ? result.explanation : undefined,
+
+    // Verification
+    sources: result.sources_checked,
+    redFlags: result.metadata?.red_flags_count || 0,
+    passedBasicChecks: result.metadata?.passed_basic_checks || false,
+  },
+
+  // Technical details
+  details: {
+    honeypot: {
+      buyTax: honeypotData.buy_tax,
+      sellTax: honeypotData.sell_tax,
+      transferTax: honeypotData.transfer_tax,
+      holderCount: honeypotData.holder_count,
+      top10HoldersPercent: honeypotData.top_10_holders_percent,
+      contractVerified: honeypotData.contract_verified,
+      isProxy: honeypotData.is_proxy,
+      liquidityUsd: honeypotData.metadata?.liquidity_usd,
+      honeypotReason: honeypotData.honeypot_reason,
+    },
+    onchain: {
+      isContract: onchainData.is_contract,
+      isERC20: onchainData.is_erc20,
+      codeSize: onchainData.code_size,
+      totalSupply: onchainData.total_supply,
+      totalSupplyFormatted: onchainData.total_supply_formatted,
+      contractBalance: onchainData.contract_balance,
+      contractBalanceFormatted: onchainData.contract_balance_formatted,
+      capabilities: onchainData.metadata?.capabilities,
+      dangerousFunctions: onchainData.metadata?.dangerous_functions,
+      ownership: onchainData.ownership,
+      restrictions: onchainData.restrictions,
+      taxControl: onchainData.tax_control && {
+        setters: onchainData.tax_control.setters,
+        mutable: onchainData.tax_control.mutable,
+        buyFee: onchainData.tax_control.buy_fee,
+        sellFee: onchainData.tax_control.sell_fee,
+        maxFee: onchainData.tax_control.max_fee,
+      },
+      creationBlock: onchainData.metadata?.creation_block,
+      creator: onchainData.metadata?.creator,
+      createdAt: onchainData.metadata?.created_at,
+      tokenAgeSeconds: onchainData.metadata?.token_age_seconds,
+      deployer: onchainData.deployer && {
+        address: onchainData.deployer.address,
+        walletAgeSeconds: onchainData.deployer.wallet_age_seconds,
+        transactionCount: onchainData.deployer.transaction_count,
+        tokensDeployed: onchainData.deployer.tokens_deployed,
+        knownScamMatches: onchainData.deployer.known_scam_matches,
+        risk: onchainData.deployer.risk,
+      },
+      solana: formatSolanaMint((onchainData as SolanaCheckResult).solana),
+      decimals: onchainData.decimals,
+      checks: onchainData.checks,
+    },
+    simulation: simulationData.error
+      ? { error: simulationData.error }
+      : {
+          dex: simulationData.dex,
+          isHoneypot: simulationData.is_honeypot,
+          buyTax: simulationData.buy_tax,
+          sellTax: simulationData.sell_tax,
+          honeypotReason: simulationData.honeypot_reason,
+          sellRevertReason: simulationData.sell_revert_reason,
+          blockNumber: simulationData.block_number,
+        },
+    holders: holdersData.error
+      ? { error: holdersData.error }
+      : {
+          holderCount: holdersData.holder_count,
+          top10HoldersPercent: holdersData.top_10_holders_percent,
+          gini: holdersData.gini,
+          deployer: holdersData.deployer,
+          deployerSharePercent: holdersData.deployer_share_percent,
+          topHolders: holdersData.top_holders,
+          excluded: holdersData.excluded,
+          fromBlock: holdersData.from_block,
+          toBlock: holdersData.to_block,
+        },
+    liquidity: liquidityData.error
+      ? { error: liquidityData.error }
+      : {
+          primaryPool: liquidityData.primary_pool,
+          lpBurnedPercent: liquidityData.lp_burned_percent,
+          lpLockedPercent: liquidityData.lp_locked_percent,
+          poolAgeSeconds: liquidityData.pool_age_seconds,
+          pools: liquidityData.pools,
+        },
+    proxy: onchainData.proxy && {
+      isProxy: onchainData.proxy.is_proxy,
+      standard: onchainData.proxy.standard,
+      implementation: onchainData.proxy.implementation,
+      beacon: onchainData.proxy.beacon,
+      admin: onchainData.proxy.admin,
+      upgradeable: onchainData.proxy.upgradeable,
+      upgradeAuthority: onchainData.proxy.upgrade_authority,
+      implementationCodeSize: onchainData.proxy.implementation_code_size,
+    },
+  },
+});
+
+/**
+ * Map over items with at most `limit` promises in flight, preserving order
+ */
+const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]!, index);
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker)
+  );
+  return results;
+};
+
 // ========================================
 // MAIN API ENDPOINT - TOKEN ANALYSIS
 // ========================================
 
-app.post("/api/v1/analyze", x402Middleware, async (c) => {
+app.post("/api/v1/analyze", x402Middleware("analyze", { allowCredits: true }), async (c) => {
   const startTime = Date.now();
 
   try {
@@ -381,28 +1525,26 @@ app.post("/api/v1/analyze", x402Middleware, async (c) => {
     console.log(`\n🔍 [${new Date().toISOString()}] Analyzing token ${input.token_address} on chain ${input.chain_id}...`);
 
     // Check if chain is supported
-    if (!onchainAnalyzer.isChainSupported(input.chain_id)) {
+    if (!isChainSupported(input.chain_id)) {
       return c.json(
         {
           success: false,
-          error: {
-            code: "UNSUPPORTED_CHAIN",
-            message: `Chain ID ${input.chain_id} is not supported`,
-            supportedChains: onchainAnalyzer.getSupportedChains(),
-          },
+          error: unsupportedChainError(input.chain_id),
         },
         400
       );
     }
 
-    // Run both analyzers in parallel
-    const [honeypotData, onchainData] = await Promise.all([
-      honeypotChecker.checkToken(input.token_address, input.chain_id),
-      onchainAnalyzer.analyzeToken(input.token_address, input.chain_id),
-    ]);
+    const analysis = await runAnalysis(input, readCacheOptions(c, input));
+    const { result } = analysis;
 
-    // Aggregate results
-    const result = scoringEngine.aggregateResults(honeypotData, onchainData);
+    // Only charge for analyses that produced meaningful data
+    const billing = await c.get("billing")!.finalize(
+      evaluateChargePolicy(result, { minConfidence: MIN_CHARGE_CONFIDENCE })
+    );
+    if (billing.settlementError) {
+      return settlementFailed(c, billing);
+    }
 
     const processingTime = Date.now() - startTime;
 
@@ -412,65 +1554,168 @@ app.post("/api/v1/analyze", x402Middleware, async (c) => {
     console.log(`   Risk Level: ${result.risk_level}`);
     console.log(`   Is Honeypot: ${result.is_honeypot}`);
     console.log(`   Confidence: ${(result.confidence * 100).toFixed(0)}%`);
+    if (!billing.charged) {
+      console.log(`   Not charged: ${billing.message}`);
+    }
 
     // Return comprehensive response
     return c.json({
       success: true,
       data: {
-        // Token identification
-        token: {
-          address: input.token_address,
-          chainId: input.chain_id,
-          chainName: CHAIN_NAMES[input.chain_id] || "Unknown",
-          name: honeypotData.metadata?.token_name || onchainData.name,
-          symbol: honeypotData.metadata?.token_symbol || onchainData.symbol,
+        ...formatAnalysis(input, analysis),
+
+        // Metadata
+        meta: {
+          timestamp: new Date().toISOString(),
+          processingTimeMs: processingTime,
+          version: "1.0.0",
+          paymentReceived: billing.charged,
+          billing: describeBilling(billing),
+          creditsRemaining: billing.creditsRemaining,
+          paymentTransaction: billing.transaction,
+          depth: input.depth,
+          price: c.get("quote")?.display,
+          cachedAt: new Date(analysis.cachedAt).toISOString(),
+          fresh: analysis.fresh,
         },
+      },
+    });
+  } catch (error: any) {
+    console.error("❌ Error processing request:", error);
 
-        // Safety analysis
-        analysis: {
-          safetyScore: result.safety_score,
-          riskLevel: result.risk_level,
-          isHoneypot: result.is_honeypot,
-          confidence: result.confidence,
-          
-          // Detailed findings
-          warnings: result.warnings,
-          recommendations: result.recommendations,
-          
-          // Risk breakdown
-          risks: {
-            tax: result.metadata?.tax_risk || "unknown",
-            centralization: result.metadata?.centralization_risk || "unknown",
-            technical: result.metadata?.technical_risk || "unknown",
+    if (error instanceof z.ZodError) {
+      return c.json(
+        {
+          success: false,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input parameters",
+            details: error.errors,
           },
+        },
+        400
+      );
+    }
 
-          // Verification
-          sources: result.sources_checked,
-          redFlags: result.metadata?.red_flags_count || 0,
-          passedBasicChecks: result.metadata?.passed_basic_checks || false,
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: error.message || "An unexpected error occurred",
         },
+      },
+      500
+    );
+  }
+});
+
+// ========================================
+// BATCH ANALYSIS
+// ========================================
 
-        // Technical details
-        details: {
-          honeypot: {
-            buyTax: honeypotData.buy_tax,
-            sellTax: honeypotData.sell_tax,
-            transferTax: honeypotData.transfer_tax,
-            holderCount: honeypotData.holder_count,
-            top10HoldersPercent: honeypotData.top_10_holders_percent,
-            contractVerified: honeypotData.contract_verified,
-            isProxy: honeypotData.is_proxy,
-            liquidityUsd: honeypotData.metadata?.liquidity_usd,
-            honeypotReason: honeypotData.honeypot_reason,
+app.post("/api/v1/analyze/batch", x402Middleware("batch", { allowCredits: true }), async (c) => {
+  const startTime = Date.now();
+
+  try {
+    // Parse and validate the envelope; items are validated individually below
+    const body = await c.req.json();
+    const { tokens, depth, max_age, refresh } = BatchCheckSchema.parse(body);
+    const cacheOptions = readCacheOptions(c, { max_age, refresh });
+
+    console.log(`\n📦 [${new Date().toISOString()}] Analyzing batch of ${tokens.length} tokens (${depth})...`);
+
+    const items = await mapWithConcurrency(tokens, BATCH_CONCURRENCY, async (raw, index) => {
+      const itemStart = Date.now();
+      const parsed = BatchItemSchema.safeParse(raw);
+
+      if (!parsed.success) {
+        return {
+          index,
+          success: false as const,
+          error: {
+            code: "VALIDATION_ERROR",
+            message: "Invalid input parameters",
+            details: parsed.error.errors,
           },
-          onchain: {
-            isContract: onchainData.is_contract,
-            isERC20: onchainData.is_erc20,
-            codeSize: onchainData.code_size,
-            totalSupply: onchainData.total_supply,
-            decimals: onchainData.decimals,
-            checks: onchainData.checks,
+        };
+      }
+
+      const input: TokenCheckInput = { ...parsed.data, depth, max_age, refresh, explain: false };
+      if (!isChainSupported(input.chain_id)) {
+        return { index, success: false as const, error: unsupportedChainError(input.chain_id) };
+      }
+
+      // Price of this item within the batch quote
+      const amount = pricing.quote("batch", { depth, chainIds: [input.chain_id] }).amount;
+
+      try {
+        const analysis = await runAnalysis(input, cacheOptions);
+        return {
+          index,
+          success: true as const,
+          amount,
+          result: analysis.result,
+          data: {
+            ...formatAnalysis(input, analysis),
+            meta: {
+              timestamp: new Date().toISOString(),
+              processingTimeMs: Date.now() - itemStart,
+              version: "1.0.0",
+              depth,
+              cachedAt: new Date(analysis.cachedAt).toISOString(),
+              fresh: analysis.fresh,
+            },
+          },
+        };
+      } catch (error: any) {
+        console.error(`❌ Batch item ${index} failed:`, error);
+        return {
+          index,
+          success: false as const,
+          amount,
+          error: {
+            code: "INTERNAL_ERROR",
+            message: error.message || "An unexpected error occurred",
           },
+        };
+      }
+    });
+
+    // One payment covers the batch: charge only the items that produced meaningful data
+    const decision = evaluateBatchChargePolicy(
+      items.flatMap((item) =>
+        item.amount === undefined ? [] : [{ result: item.success ? item.result : null, amount: item.amount }]
+      ),
+      { minConfidence: MIN_CHARGE_CONFIDENCE }
+    );
+    const billing = await c.get("billing")!.finalize(decision);
+    if (billing.settlementError) {
+      return settlementFailed(c, billing);
+    }
+
+    const processingTime = Date.now() - startTime;
+    const succeeded = items.filter((item) => item.success).length;
+
+    console.log(`✅ Batch complete in ${processingTime}ms: ${succeeded}/${items.length} analyzed`);
+    if (!billing.charged) {
+      console.log(`   Not charged: ${billing.message}`);
+    }
+
+    return c.json({
+      success: true,
+      data: {
+        // Per-token results in request order, shaped like /api/v1/analyze responses
+        results: items.map(({ index, ...item }) =>
+          item.success
+            ? { index, success: true, data: item.data }
+            : { index, success: false, error: item.error }
+        ),
+
+        summary: {
+          requested: items.length,
+          succeeded,
+          failed: items.length - succeeded,
         },
 
         // Metadata
@@ -478,12 +1723,18 @@ app.post("/api/v1/analyze", x402Middleware, async (c) => {
           timestamp: new Date().toISOString(),
           processingTimeMs: processingTime,
           version: "1.0.0",
-          paymentReceived: !!c.req.header("X-402-Payment-Proof"),
+          paymentReceived: billing.charged,
+          billing: describeBilling(billing),
+          creditsRemaining: billing.creditsRemaining,
+          paymentTransaction: billing.transaction,
+          depth,
+          itemsBilled: billing.charged ? decision.billableItems : 0,
+          price: c.get("quote")?.display,
         },
       },
     });
   } catch (error: any) {
-    console.error("❌ Error processing request:", error);
+    console.error("❌ Error processing batch:", error);
 
     if (error instanceof z.ZodError) {
       return c.json(
@@ -491,7 +1742,7 @@ app.post("/api/v1/analyze", x402Middleware, async (c) => {
           success: false,
           error: {
             code: "VALIDATION_ERROR",
-            message: "Invalid input parameters",
+            message: `Provide between 1 and ${BATCH_MAX_ITEMS} tokens`,
             details: error.errors,
           },
         },
@@ -512,11 +1763,116 @@ app.post("/api/v1/analyze", x402Middleware, async (c) => {
   }
 });
 
+// ========================================
+// PREPAID CREDIT ACCOUNTS
+// ========================================
+
+app.post("/api/v1/account/topup", x402Middleware("topup"), async (c) => {
+  try {
+    // Deposits are always charged; settle before crediting anything
+    const billing = await c.get("billing")!.finalize({ charge: true });
+    if (billing.settlementError) {
+      return settlementFailed(c, billing);
+    }
+
+    const deposited = billing.amount;
+    const apiKey = readApiKey(c);
+
+    // Top up an existing key
+    if (apiKey) {
+      const account = await creditLedger.deposit(apiKey, deposited);
+      if (account) {
+        console.log(`💳 Topped up ${account.id} with ${formatUsdc(deposited)}`);
+        return c.json({
+          success: true,
+          data: {
+            deposited,
+            depositedDisplay: formatUsdc(deposited),
+            account: describeAccount(account),
+            paymentTransaction: billing.transaction,
+          },
+        });
+      }
+      // Unknown key: the payment has already settled, so open a new account rather than drop it
+      console.warn("⚠️ Top-up for unknown API key, issuing a new key instead");
+    }
+
+    const created = await creditLedger.createAccount(billing.payer || "unknown", deposited);
+    console.log(`💳 Opened ${created.account.id} with ${formatUsdc(deposited)}`);
+
+    return c.json(
+      {
+        success: true,
+        data: {
+          // Only returned once - store it securely
+          apiKey: created.apiKey,
+          deposited,
+          depositedDisplay: formatUsdc(deposited),
+          account: describeAccount(created.account),
+          paymentTransaction: billing.transaction,
+        },
+      },
+      201
+    );
+  } catch (error: any) {
+    console.error("❌ Error processing top-up:", error);
+
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: "INTERNAL_ERROR",
+          message: error.message || "An unexpected error occurred",
+        },
+      },
+      500
+    );
+  }
+});
+
+app.get("/api/v1/account", async (c) => {
+  const apiKey = readApiKey(c);
+
+  if (!apiKey) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: "API_KEY_REQUIRED",
+          message: "Provide an API key via the X-API-Key header",
+        },
+      },
+      401
+    );
+  }
+
+  const account = await creditLedger.getAccount(apiKey);
+  if (!account) {
+    return c.json(
+      {
+        success: false,
+        error: {
+          code: "INVALID_API_KEY",
+          message: "Unknown API key",
+        },
+      },
+      401
+    );
+  }
+
+  return c.json({
+    success: true,
+    data: describeAccount(account),
+  });
+});
+
 // ========================================
 // DOCUMENTATION ENDPOINTS
 // ========================================
 
 app.get("/docs", (c) => {
+  const analyzeQuote = pricing.quote("analyze");
+
   return c.json({
     name: "Token Safety Check API",
     version: "1.0.0",
@@ -525,24 +1881,75 @@ app.get("/docs", (c) => {
     
     authentication: {
       type: "x402",
-      network: NETWORK,
-      paymentAddress: PAYMENT_ADDRESS,
-      pricePerRequest: `${(DEFAULT_PRICE / 1000000).toFixed(2)} USDC`,
-      asset: USDC_BASE,
+      network: PRIMARY_PAYMENT.asset.network,
+      paymentAddress: PRIMARY_PAYMENT.payTo,
+      pricePerRequest: analyzeQuote.display,
+      asset: PRIMARY_PAYMENT.asset.address,
+      accepts: ACCEPTED_PAYMENTS,
+      alternative: {
+        type: "api-key",
+        header: "X-API-Key",
+        description: "Prepaid credits bought once via /api/v1/account/topup, debited per request",
+      },
+      chargePolicy: `Payment is settled only after analysis; nothing is charged (credits are refunded) when every data source fails or confidence is below ${(MIN_CHARGE_CONFIDENCE * 100).toFixed(0)}%. Batches are charged only for the tokens that pass this check; the price of the others is refunded (as prepaid credits for x402 payments, see meta.billing.refund)`,
     },
 
     endpoints: [
       {
         method: "POST",
         path: "/api/v1/analyze",
-        description: "Analyze token safety (requires x402 payment)",
+        description: "Analyze token safety (requires x402 payment or a funded API key)",
+        requiresPayment: true,
+        price: analyzeQuote.display,
+        pricing: pricing.describe("analyze"),
+        requestBody: {
+          token_address: "0x-prefixed hex address (42 chars), or base58 mint address on Solana",
+          chain_id: `Network ID (${CHAIN_IDS.join(", ")})`,
+          depth: `Optional: ${ANALYSIS_DEPTHS.map((depth) => `${depth} (${pricing.quote("analyze", { depth }).display})`).join(", ")}`,
+          max_age: "Optional: maximum age in seconds of cached data (or Cache-Control: max-age=N)",
+          refresh: "Optional: true to bypass the cache (or Cache-Control: no-cache)",
+          explain: "Optional: true to include the per-source score breakdown (analysis.explanation)",
+        },
+        response: "Comprehensive safety analysis with score, findings, warnings, recommendations (meta.cachedAt / meta.fresh report data age)",
+      },
+      {
+        method: "POST",
+        path: "/api/v1/analyze/batch",
+        description: `Analyze up to ${BATCH_MAX_ITEMS} tokens with one payment (x402 or API key)`,
         requiresPayment: true,
-        price: `${(DEFAULT_PRICE / 1000000).toFixed(2)} USDC`,
+        price: `${analyzeQuote.display} per token`,
+        pricing: pricing.describe("batch"),
         requestBody: {
-          token_address: "0x-prefixed hex address (42 chars)",
-          chain_id: "Network ID (1, 56, 137, 42161, 10, 8453, 43114)",
+          tokens: "Array of {token_address, chain_id}",
+          depth: "Optional: applies to every token",
+          max_age: "Optional: maximum age in seconds of cached data",
+          refresh: "Optional: true to bypass the cache",
+        },
+        response: "Per-token results shaped like /api/v1/analyze, with per-item errors (meta.billing.refund returns the price of unbilled tokens)",
+      },
+      {
+        method: "POST",
+        path: "/api/v1/account/topup",
+        description: "Deposit USDC via x402 and receive (or top up) a prepaid API key",
+        requiresPayment: true,
+        price: `from ${formatUsdc(pricing.getStartingPrice("topup"))}`,
+        pricing: pricing.describe("topup"),
+        requestBody: {
+          amount: "Deposit in USDC base units (6 decimals)",
+        },
+        headers: {
+          "X-API-Key": "Optional: existing key to top up",
+        },
+        response: "API key (new accounts only) and account balance",
+      },
+      {
+        method: "GET",
+        path: "/api/v1/account",
+        description: "Prepaid account balance and usage",
+        requiresPayment: false,
+        headers: {
+          "X-API-Key": "Prepaid API key",
         },
-        response: "Comprehensive safety analysis with score, warnings, recommendations",
       },
       {
         method: "GET",
@@ -558,9 +1965,11 @@ app.get("/docs", (c) => {
       },
     ],
 
-    supportedChains: Object.entries(CHAIN_NAMES).map(([id, name]) => ({
-      chainId: parseInt(id),
-      name,
+    supportedChains: chainRegistry.list().map((chain) => ({
+      chainId: chain.id,
+      name: chain.name,
+      nativeToken: chain.nativeToken.symbol,
+      explorer: chain.explorer?.url,
     })),
 
     examples: {
@@ -576,6 +1985,10 @@ app.get("/docs", (c) => {
 // ========================================
 
 app.get("/", (c) => {
+  const priceList = ANALYSIS_DEPTHS.map(
+    (depth) => `${pricing.quote("analyze", { depth }).display} per ${depth} analysis`
+  ).join(", ");
+
   const html = `
 <!DOCTYPE html>
 <html lang="en">
@@ -674,16 +2087,16 @@ app.get("/", (c) => {
 
         <div class="stats">
             <div class="stat">
-                <div class="stat-value">7</div>
+                <div class="stat-value">${CHAIN_IDS.length}</div>
                 <div class="stat-label">Supported Chains</div>
             </div>
             <div class="stat">
-                <div class="stat-value">2</div>
+                <div class="stat-value">${scoringEngine.getSources().length}</div>
                 <div class="stat-label">Data Sources</div>
             </div>
             <div class="stat">
-                <div class="stat-value">$${(DEFAULT_PRICE / 1000000).toFixed(2)}</div>
-                <div class="stat-label">Per Analysis</div>
+                <div class="stat-value">$${formatUsdc(pricing.getStartingPrice("analyze")).replace(" USDC", "")}</div>
+                <div class="stat-label">Per Analysis (from)</div>
             </div>
         </div>
 
@@ -712,7 +2125,25 @@ app.get("/", (c) => {
             <div class="endpoint">
                 <span class="method post">POST</span>
                 <a href="/api/v1/analyze">/api/v1/analyze</a>
-                <p style="margin-top: 10px; opacity: 0.8;">Analyze token safety (requires x402 payment)</p>
+                <p style="margin-top: 10px; opacity: 0.8;">Analyze token safety (requires x402 payment or a prepaid API key)</p>
+            </div>
+
+            <div class="endpoint">
+                <span class="method post">POST</span>
+                <a href="/api/v1/analyze/batch">/api/v1/analyze/batch</a>
+                <p style="margin-top: 10px; opacity: 0.8;">Analyze up to ${BATCH_MAX_ITEMS} tokens with a single payment</p>
+            </div>
+
+            <div class="endpoint">
+                <span class="method post">POST</span>
+                <a href="/api/v1/account/topup">/api/v1/account/topup</a>
+                <p style="margin-top: 10px; opacity: 0.8;">Buy prepaid credits via x402 and get an API key</p>
+            </div>
+
+            <div class="endpoint">
+                <span class="method">GET</span>
+                <a href="/api/v1/account">/api/v1/account</a>
+                <p style="margin-top: 10px; opacity: 0.8;">Prepaid balance (X-API-Key header)</p>
             </div>
 
             <div class="endpoint">
@@ -746,9 +2177,9 @@ app.get("/", (c) => {
 
         <div class="section">
             <h2>💰 Payment</h2>
-            <p><strong>Protocol:</strong> x402 on Base network</p>
-            <p style="margin-top: 10px;"><strong>Price:</strong> $${(DEFAULT_PRICE / 1000000).toFixed(2)} USDC per analysis</p>
-            <p style="margin-top: 10px;"><strong>Payment Address:</strong> <code>${PAYMENT_ADDRESS}</code></p>
+            <p><strong>Protocol:</strong> x402 (${ACCEPTED_PAYMENTS.map((payment) => `${payment.assetSymbol} on ${payment.network}`).join(", ")})</p>
+            <p style="margin-top: 10px;"><strong>Price:</strong> ${priceList}</p>
+            <p style="margin-top: 10px;"><strong>Payment Address:</strong> <code>${PRIMARY_PAYMENT.payTo}</code></p>
         </div>
 
         <div class="section" style="text-align: center; padding: 30px;">
@@ -776,9 +2207,9 @@ console.log(`\n🚀 Token Safety Check - Lucid AI Agent`);
 console.log(`📊 Version: 1.0.0`);
 console.log(`🌐 Port: ${PORT}`);
 console.log(`🔗 URL: ${SERVICE_URL}`);
-console.log(`💰 Payment: ${(DEFAULT_PRICE / 1000000).toFixed(2)} USDC per analysis`);
-console.log(`🎯 Protocol: x402 on ${NETWORK}`);
-console.log(`💳 Address: ${PAYMENT_ADDRESS}`);
+console.log(`💰 Payment: ${ANALYSIS_DEPTHS.map((depth) => `${formatUsdc(pricing.quote("analyze", { depth }).amount)} (${depth})`).join(", ")} per analysis`);
+console.log(`🎯 Protocol: x402 on ${ACCEPTED_PAYMENTS.map((payment) => `${payment.network} (${payment.assetSymbol})`).join(", ")}`);
+console.log(`💳 Address: ${PRIMARY_PAYMENT.payTo}`);
 console.log(`📡 Chains: ${Object.values(CHAIN_NAMES).join(", ")}`);
 console.log(`\n✅ Server ready at ${SERVICE_URL}\n`);
 
@@ -0,0 +1,50 @@
+import { describe, expect, test } from "bun:test";
+import { evaluateBatchChargePolicy, evaluateChargePolicy } from "./charge-policy";
+
+const options = { minConfidence: 0.6 };
+const meaningful = { sources_checked: ["honeypot.is", "onchain"], confidence: 0.85 };
+const lowConfidence = { sources_checked: ["onchain"], confidence: 0.5 };
+const noSources = { sources_checked: [], confidence: 0.5 };
+
+describe("evaluateChargePolicy", () => {
+  test("charges meaningful analyses", () => {
+    expect(evaluateChargePolicy(meaningful, options)).toEqual({ charge: true });
+  });
+
+  test("does not charge when every source failed", () => {
+    expect(evaluateChargePolicy(noSources, options).reason).toBe("no_sources");
+  });
+
+  test("does not charge below the confidence floor", () => {
+    expect(evaluateChargePolicy(lowConfidence, options).reason).toBe("low_confidence");
+  });
+});
+
+describe("evaluateBatchChargePolicy", () => {
+  test("charges only the billable items", () => {
+    const decision = evaluateBatchChargePolicy(
+      [
+        { result: meaningful, amount: 20000 },
+        { result: lowConfidence, amount: 20000 },
+        { result: null, amount: 25000 },
+        { result: meaningful, amount: 25000 },
+      ],
+      options
+    );
+
+    expect(decision).toEqual({ charge: true, amount: 45000, billableItems: 2 });
+  });
+
+  test("does not charge a batch without billable items", () => {
+    const decision = evaluateBatchChargePolicy(
+      [
+        { result: noSources, amount: 20000 },
+        { result: null, amount: 20000 },
+      ],
+      options
+    );
+
+    expect(decision.charge).toBe(false);
+    expect(decision.reason).toBe("no_billable_items");
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Charge Policy - Decides whether an analysis is worth paying for
+ *
+ * Payment is settled only after the analysis has finished. If every data
+ * source failed, or the aggregated confidence is below a configurable floor,
+ * the result is not meaningful and the client is not charged (x402 payments
+ * are left unsettled, prepaid credits are refunded).
+ *
+ * A batch is charged per billable item: only the items that produced a
+ * chargeable analysis are paid for, and the price of the others is given back.
+ */
+
+import type { SafetyResult } from "../analyzers/scoring-engine";
+
+/**
+ * Decision returned by the charge policy
+ */
+export interface ChargeDecision {
+  /** Whether the client should be charged */
+  charge: boolean;
+  /** Machine-readable reason when not charging */
+  reason?: "no_sources" | "low_confidence" | "no_billable_items" | "request_failed";
+  /** Human-readable explanation when not charging */
+  message?: string;
+  /** Amount to charge in USDC base units when only part of the quote is billable */
+  amount?: number;
+  /** Number of items charged for (batches only) */
+  billableItems?: number;
+}
+
+/**
+ * Configuration options for the charge policy
+ */
+export interface ChargePolicyOptions {
+  /** Minimum confidence (0.0-1.0) required to charge */
+  minConfidence: number;
+}
+
+/**
+ * Evaluate whether a safety result should be charged for
+ *
+ * @param result - Aggregated safety result
+ * @param options - Policy thresholds
+ * @returns Charge decision with reason when not charging
+ */
+export function evaluateChargePolicy(
+  result: Pick<SafetyResult, "sources_checked" | "confidence">,
+  options: ChargePolicyOptions
+): ChargeDecision {
+  if (result.sources_checked.length === 0) {
+    return {
+      charge: false,
+      reason: "no_sources",
+      message: "All data sources failed - analysis is not meaningful, no charge applied",
+    };
+  }
+
+  if (result.confidence < options.minConfidence) {
+    return {
+      charge: false,
+      reason: "low_confidence",
+      message: `Confidence ${(result.confidence * 100).toFixed(0)}% is below the ${(options.minConfidence * 100).toFixed(0)}% billing floor, no charge applied`,
+    };
+  }
+
+  return { charge: true };
+}
+
+/**
+ * A priced item of a batch
+ */
+export interface BatchChargeItem {
+  /** Aggregated safety result, or null if the analysis failed */
+  result: Pick<SafetyResult, "sources_checked" | "confidence"> | null;
+  /** Quoted price of the item in USDC base units */
+  amount: number;
+}
+
+/**
+ * Evaluate how much of a batch should be charged for
+ *
+ * @param items - Priced items that were analyzed (or attempted)
+ * @param options - Policy thresholds
+ * @returns Charge decision with the amount of the billable items
+ */
+export function evaluateBatchChargePolicy(
+  items: BatchChargeItem[],
+  options: ChargePolicyOptions
+): ChargeDecision {
+  const billable = items.filter(
+    (item) => item.result !== null && evaluateChargePolicy(item.result, options).charge
+  );
+
+  if (billable.length > 0) {
+    return {
+      charge: true,
+      amount: billable.reduce((sum, item) => sum + item.amount, 0),
+      billableItems: billable.length,
+    };
+  }
+
+  return {
+    charge: false,
+    reason: "no_billable_items",
+    message: "No token in the batch produced a meaningful analysis, no charge applied",
+  };
+}
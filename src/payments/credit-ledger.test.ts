@@ -0,0 +1,67 @@
+import { describe, expect, test } from "bun:test";
+import { CreditLedger, type CreditStore, MemoryCreditStore, SqliteCreditStore } from "./credit-ledger";
+
+const stores: Array<[string, () => CreditStore]> = [
+  ["MemoryCreditStore", () => new MemoryCreditStore()],
+  ["SqliteCreditStore", () => new SqliteCreditStore(":memory:")],
+];
+
+describe.each(stores)("CreditLedger with %s", (_name, createStore) => {
+  test("opens an account with the initial deposit", async () => {
+    const ledger = new CreditLedger(createStore());
+    const { apiKey, account } = await ledger.createAccount("0xABCDEF", 100000);
+
+    expect(apiKey).toStartWith("tsc_");
+    expect(account.owner).toBe("0xabcdef");
+    expect((await ledger.getAccount(apiKey))?.balance).toBe(100000);
+  });
+
+  test("debits until the balance runs out", async () => {
+    const ledger = new CreditLedger(createStore());
+    const { apiKey } = await ledger.createAccount("0xabc", 30000);
+
+    const first = await ledger.debit(apiKey, 20000);
+    expect(first.success).toBe(true);
+    expect(first.account?.balance).toBe(10000);
+    expect(first.account?.requestCount).toBe(1);
+
+    const second = await ledger.debit(apiKey, 20000);
+    expect(second.success).toBe(false);
+    expect(second.reason).toBe("insufficient_credits");
+    expect(second.account?.balance).toBe(10000);
+  });
+
+  test("rejects unknown API keys", async () => {
+    const ledger = new CreditLedger(createStore());
+
+    expect((await ledger.debit("tsc_unknown", 1)).reason).toBe("invalid_api_key");
+    expect(await ledger.deposit("tsc_unknown", 1)).toBeNull();
+  });
+
+  test("deposits and refunds restore the balance", async () => {
+    const ledger = new CreditLedger(createStore());
+    const { apiKey } = await ledger.createAccount("0xabc", 20000);
+
+    await ledger.debit(apiKey, 20000);
+    const refunded = await ledger.refund(apiKey, 20000);
+    expect(refunded?.balance).toBe(20000);
+    expect(refunded?.totalSpent).toBe(0);
+    expect(refunded?.requestCount).toBe(0);
+
+    const topped = await ledger.deposit(apiKey, 5000);
+    expect(topped?.balance).toBe(25000);
+    expect(topped?.totalDeposited).toBe(25000);
+  });
+
+  test("partial refunds keep the request counted", async () => {
+    const ledger = new CreditLedger(createStore());
+    const { apiKey } = await ledger.createAccount("0xabc", 50000);
+
+    await ledger.debit(apiKey, 40000);
+    const refunded = await ledger.refund(apiKey, 15000, true);
+
+    expect(refunded?.balance).toBe(25000);
+    expect(refunded?.totalSpent).toBe(25000);
+    expect(refunded?.requestCount).toBe(1);
+  });
+});
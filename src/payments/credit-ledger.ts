@@ -0,0 +1,356 @@
+/**
+ * Prepaid Credits - API keys with a USDC credit balance
+ *
+ * High-volume clients can deposit once through x402 and then authenticate
+ * with an API key instead of paying per request. Each paid call debits the
+ * key's balance by the route's price.
+ *
+ * Features:
+ * - API keys are generated once and only their SHA-256 hash is stored
+ * - Atomic debits (a balance can never go negative)
+ * - Refunds for requests that were debited but not worth charging for
+ * - In-memory or SQLite (bun:sqlite) storage
+ */
+
+import { Database } from "bun:sqlite";
+import { createHash, randomBytes } from "node:crypto";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+
+/**
+ * A prepaid credit account
+ */
+export interface CreditAccount {
+  /** Public account identifier (safe to log) */
+  id: string;
+  /** SHA-256 hash of the API key */
+  keyHash: string;
+  /** Address that funded the account */
+  owner: string;
+  /** Remaining balance in USDC base units */
+  balance: number;
+  /** Total deposited in USDC base units */
+  totalDeposited: number;
+  /** Total spent in USDC base units */
+  totalSpent: number;
+  /** Number of debited requests */
+  requestCount: number;
+  /** Creation time (unix ms) */
+  createdAt: number;
+  /** Last debit or deposit (unix ms) */
+  updatedAt: number;
+}
+
+/**
+ * Storage backend for credit accounts
+ */
+export interface CreditStore {
+  /** Persist a new account */
+  create(account: CreditAccount): Promise<void>;
+  /** Look up an account by key hash */
+  get(keyHash: string): Promise<CreditAccount | null>;
+  /** Add funds; returns the updated account or null if it does not exist */
+  deposit(keyHash: string, amount: number): Promise<CreditAccount | null>;
+  /** Atomically remove funds; returns null if the account is missing or underfunded */
+  debit(keyHash: string, amount: number): Promise<CreditAccount | null>;
+  /**
+   * Reverse (part of) a debit; returns the updated account or null if it does not exist
+   * (`requests` is the number of debited requests reversed, 0 for a partial refund)
+   */
+  refund(keyHash: string, amount: number, requests: number): Promise<CreditAccount | null>;
+}
+
+/**
+ * Result of debiting an API key
+ */
+export interface CreditDebitResult {
+  /** Whether the debit went through */
+  success: boolean;
+  /** "invalid_api_key" or "insufficient_credits" when unsuccessful */
+  reason?: "invalid_api_key" | "insufficient_credits";
+  /** Account state after the operation (if the key is valid) */
+  account?: CreditAccount;
+}
+
+/**
+ * Configuration options for CreditLedger
+ */
+export interface CreditLedgerOptions {
+  /** Whether to enable verbose logging */
+  verbose?: boolean;
+}
+
+/**
+ * CreditLedger - Issues API keys and tracks their balances
+ *
+ * Usage:
+ * ```typescript
+ * const ledger = new CreditLedger(new MemoryCreditStore());
+ * const { apiKey } = await ledger.createAccount("0xpayer...", 5_000000);
+ *
+ * const debit = await ledger.debit(apiKey, 20000);
+ * console.log(debit.account?.balance); // 4980000
+ * ```
+ */
+export class CreditLedger {
+  private readonly store: CreditStore;
+  private readonly verbose: boolean;
+
+  constructor(store: CreditStore, options: CreditLedgerOptions = {}) {
+    this.store = store;
+    this.verbose = options.verbose || false;
+  }
+
+  /**
+   * Open a new account funded with an initial deposit
+   *
+   * @param owner - Address that paid for the deposit
+   * @param amount - Deposit in USDC base units
+   * @returns The new API key (shown once) and the account
+   */
+  async createAccount(
+    owner: string,
+    amount: number
+  ): Promise<{ apiKey: string; account: CreditAccount }> {
+    const apiKey = `tsc_${randomBytes(24).toString("hex")}`;
+    const now = Date.now();
+
+    const account: CreditAccount = {
+      id: `acct_${randomBytes(8).toString("hex")}`,
+      keyHash: this.hashKey(apiKey),
+      owner: owner.toLowerCase(),
+      balance: amount,
+      totalDeposited: amount,
+      totalSpent: 0,
+      requestCount: 0,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.create(account);
+    this.log(`Created account ${account.id} with ${amount} credits`);
+
+    return { apiKey, account };
+  }
+
+  /**
+   * Add funds to an existing API key
+   */
+  async deposit(apiKey: string, amount: number): Promise<CreditAccount | null> {
+    const account = await this.store.deposit(this.hashKey(apiKey), amount);
+    if (account) this.log(`Deposited ${amount} into ${account.id}`);
+    return account;
+  }
+
+  /**
+   * Charge an API key for a request
+   */
+  async debit(apiKey: string, amount: number): Promise<CreditDebitResult> {
+    const keyHash = this.hashKey(apiKey);
+    const account = await this.store.debit(keyHash, amount);
+
+    if (account) {
+      this.log(`Debited ${amount} from ${account.id} (balance ${account.balance})`);
+      return { success: true, account };
+    }
+
+    const existing = await this.store.get(keyHash);
+    if (!existing) {
+      return { success: false, reason: "invalid_api_key" };
+    }
+
+    return { success: false, reason: "insufficient_credits", account: existing };
+  }
+
+  /**
+   * Give back a debit for a request that ended up not being charged
+   *
+   * @param partial - Only part of the debit is given back; the request still counts
+   */
+  async refund(apiKey: string, amount: number, partial = false): Promise<CreditAccount | null> {
+    const account = await this.store.refund(this.hashKey(apiKey), amount, partial ? 0 : 1);
+    if (account) this.log(`Refunded ${amount} to ${account.id} (balance ${account.balance})`);
+    return account;
+  }
+
+  /**
+   * Look up the account behind an API key
+   */
+  async getAccount(apiKey: string): Promise<CreditAccount | null> {
+    return this.store.get(this.hashKey(apiKey));
+  }
+
+  /**
+   * Hash an API key for storage and lookup
+   */
+  private hashKey(apiKey: string): string {
+    return createHash("sha256").update(apiKey.trim()).digest("hex");
+  }
+
+  /**
+   * Conditional logging based on verbose flag
+   */
+  private log(message: string, data?: any): void {
+    if (this.verbose) {
+      if (data) {
+        console.log(`[CreditLedger] ${message}`, data);
+      } else {
+        console.log(`[CreditLedger] ${message}`);
+      }
+    }
+  }
+}
+
+/**
+ * MemoryCreditStore - In-process store, lost on restart
+ */
+export class MemoryCreditStore implements CreditStore {
+  private readonly accounts: Map<string, CreditAccount> = new Map();
+
+  async create(account: CreditAccount): Promise<void> {
+    this.accounts.set(account.keyHash, { ...account });
+  }
+
+  async get(keyHash: string): Promise<CreditAccount | null> {
+    const account = this.accounts.get(keyHash);
+    return account ? { ...account } : null;
+  }
+
+  async deposit(keyHash: string, amount: number): Promise<CreditAccount | null> {
+    const account = this.accounts.get(keyHash);
+    if (!account) return null;
+
+    account.balance += amount;
+    account.totalDeposited += amount;
+    account.updatedAt = Date.now();
+    return { ...account };
+  }
+
+  async debit(keyHash: string, amount: number): Promise<CreditAccount | null> {
+    const account = this.accounts.get(keyHash);
+    if (!account || account.balance < amount) return null;
+
+    account.balance -= amount;
+    account.totalSpent += amount;
+    account.requestCount += 1;
+    account.updatedAt = Date.now();
+    return { ...account };
+  }
+
+  async refund(keyHash: string, amount: number, requests: number): Promise<CreditAccount | null> {
+    const account = this.accounts.get(keyHash);
+    if (!account) return null;
+
+    account.balance += amount;
+    account.totalSpent -= amount;
+    account.requestCount -= requests;
+    account.updatedAt = Date.now();
+    return { ...account };
+  }
+}
+
+/**
+ * SqliteCreditStore - Persistent store backed by bun:sqlite
+ */
+export class SqliteCreditStore implements CreditStore {
+  private readonly db: Database;
+
+  /**
+   * @param path - Database file path (":memory:" for an ephemeral database)
+   */
+  constructor(path: string) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true });
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS credit_accounts (
+        key_hash TEXT PRIMARY KEY,
+        id TEXT NOT NULL UNIQUE,
+        owner TEXT NOT NULL,
+        balance INTEGER NOT NULL,
+        total_deposited INTEGER NOT NULL,
+        total_spent INTEGER NOT NULL,
+        request_count INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  }
+
+  async create(account: CreditAccount): Promise<void> {
+    this.db.run(
+      `INSERT INTO credit_accounts
+         (key_hash, id, owner, balance, total_deposited, total_spent, request_count, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        account.keyHash,
+        account.id,
+        account.owner,
+        account.balance,
+        account.totalDeposited,
+        account.totalSpent,
+        account.requestCount,
+        account.createdAt,
+        account.updatedAt,
+      ]
+    );
+  }
+
+  async get(keyHash: string): Promise<CreditAccount | null> {
+    const row = this.db
+      .query("SELECT * FROM credit_accounts WHERE key_hash = ?")
+      .get(keyHash) as Record<string, any> | null;
+
+    if (!row) return null;
+
+    return {
+      id: row.id,
+      keyHash: row.key_hash,
+      owner: row.owner,
+      balance: row.balance,
+      totalDeposited: row.total_deposited,
+      totalSpent: row.total_spent,
+      requestCount: row.request_count,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  async deposit(keyHash: string, amount: number): Promise<CreditAccount | null> {
+    const result = this.db.run(
+      `UPDATE credit_accounts
+         SET balance = balance + ?, total_deposited = total_deposited + ?, updated_at = ?
+       WHERE key_hash = ?`,
+      [amount, amount, Date.now(), keyHash]
+    );
+
+    return result.changes === 1 ? this.get(keyHash) : null;
+  }
+
+  async debit(keyHash: string, amount: number): Promise<CreditAccount | null> {
+    // The balance guard in the WHERE clause makes check-and-debit a single atomic statement
+    const result = this.db.run(
+      `UPDATE credit_accounts
+         SET balance = balance - ?, total_spent = total_spent + ?,
+             request_count = request_count + 1, updated_at = ?
+       WHERE key_hash = ? AND balance >= ?`,
+      [amount, amount, Date.now(), keyHash, amount]
+    );
+
+    return result.changes === 1 ? this.get(keyHash) : null;
+  }
+
+  async refund(keyHash: string, amount: number, requests: number): Promise<CreditAccount | null> {
+    const result = this.db.run(
+      `UPDATE credit_accounts
+         SET balance = balance + ?, total_spent = total_spent - ?,
+             request_count = request_count - ?, updated_at = ?
+       WHERE key_hash = ?`,
+      [amount, amount, requests, Date.now(), keyHash]
+    );
+
+    return result.changes === 1 ? this.get(keyHash) : null;
+  }
+}
@@ -0,0 +1,132 @@
+import { describe, expect, test } from "bun:test";
+import { eth } from "web3";
+import { getAuthorizationDigest, verifyTransferAuthorization } from "./eip3009";
+import type { PaymentPayload, TransferAuthorization, X402Accept } from "./x402";
+
+const PRIVATE_KEY = "0x" + "11".repeat(32);
+const PAYER = eth.accounts.privateKeyToAddress(PRIVATE_KEY);
+const NOW = 1_700_000_000;
+
+const requirements: X402Accept = {
+  scheme: "exact",
+  network: "base",
+  maxAmountRequired: "20000",
+  resource: "https://example.com/api/v1/analyze",
+  description: "Token safety analysis",
+  mimeType: "application/json",
+  payTo: "0x01D11F7e1a46AbFC6092d7be484895D2d505095c",
+  maxTimeoutSeconds: 300,
+  asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+  extra: { name: "USD Coin", version: "2" },
+};
+
+const signPayment = (
+  overrides: Partial<TransferAuthorization> = {},
+  accept: X402Accept = requirements
+): PaymentPayload => {
+  const authorization: TransferAuthorization = {
+    from: PAYER,
+    to: accept.payTo,
+    value: accept.maxAmountRequired,
+    validAfter: "0",
+    validBefore: String(NOW + 600),
+    nonce: "0x" + "ab".repeat(32),
+    ...overrides,
+  };
+  const digest = getAuthorizationDigest(authorization, accept);
+
+  return {
+    x402Version: 1,
+    scheme: "exact",
+    network: accept.network,
+    payload: {
+      signature: eth.accounts.signMessageWithPrivateKey(digest, PRIVATE_KEY).signature,
+      authorization,
+    },
+  };
+};
+
+describe("verifyTransferAuthorization", () => {
+  test("accepts a correctly signed authorization", () => {
+    expect(verifyTransferAuthorization(signPayment(), requirements, NOW)).toEqual({
+      isValid: true,
+      payer: PAYER,
+    });
+  });
+
+  test("accepts overpayment", () => {
+    const payment = signPayment({ value: "30000" });
+    expect(verifyTransferAuthorization(payment, requirements, NOW).isValid).toBe(true);
+  });
+
+  test("rejects a tampered amount", () => {
+    const payment = signPayment();
+    payment.payload.authorization.value = "999999";
+    expect(verifyTransferAuthorization(payment, requirements, NOW).invalidReason).toBe(
+      "invalid_exact_evm_payload_signature"
+    );
+  });
+
+  test("rejects a signature by someone other than the payer", () => {
+    const payment = signPayment();
+    payment.payload.authorization.from = "0x000000000000000000000000000000000000dEaD";
+    expect(verifyTransferAuthorization(payment, requirements, NOW).invalidReason).toBe(
+      "invalid_exact_evm_payload_signature"
+    );
+  });
+
+  test("rejects a garbage signature", () => {
+    const payment = signPayment();
+    payment.payload.signature = "0x1234";
+    expect(verifyTransferAuthorization(payment, requirements, NOW).invalidReason).toBe(
+      "invalid_exact_evm_payload_signature"
+    );
+  });
+
+  test("rejects a signature for another token's EIP-712 domain", () => {
+    const payment = signPayment({}, { ...requirements, extra: { name: "Bridged USDC", version: "2" } });
+    expect(verifyTransferAuthorization(payment, requirements, NOW).invalidReason).toBe(
+      "invalid_exact_evm_payload_signature"
+    );
+  });
+
+  test("rejects an expired authorization", () => {
+    const payment = signPayment({ validBefore: String(NOW - 1) });
+    expect(verifyTransferAuthorization(payment, requirements, NOW).invalidReason).toBe(
+      "invalid_exact_evm_payload_authorization_valid_before"
+    );
+  });
+
+  test("rejects an authorization expiring before it can be settled", () => {
+    const payment = signPayment({ validBefore: String(NOW + 3) });
+    expect(verifyTransferAuthorization(payment, requirements, NOW).invalidReason).toBe(
+      "invalid_exact_evm_payload_authorization_valid_before"
+    );
+  });
+
+  test("rejects an authorization that is not valid yet", () => {
+    const payment = signPayment({ validAfter: String(NOW + 60) });
+    expect(verifyTransferAuthorization(payment, requirements, NOW).invalidReason).toBe(
+      "invalid_exact_evm_payload_authorization_valid_after"
+    );
+  });
+
+  test("rejects underpayment", () => {
+    const payment = signPayment({ value: "19999" });
+    expect(verifyTransferAuthorization(payment, requirements, NOW).invalidReason).toBe("insufficient_funds");
+  });
+
+  test("rejects another recipient", () => {
+    const payment = signPayment({ to: "0x000000000000000000000000000000000000dEaD" });
+    expect(verifyTransferAuthorization(payment, requirements, NOW).invalidReason).toBe(
+      "invalid_exact_evm_payload_recipient_mismatch"
+    );
+  });
+
+  test("rejects another network", () => {
+    const payment = signPayment();
+    expect(
+      verifyTransferAuthorization(payment, { ...requirements, network: "optimism" }, NOW).invalidReason
+    ).toBe("invalid_network");
+  });
+});
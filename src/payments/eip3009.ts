@@ -0,0 +1,136 @@
+/**
+ * EIP-3009 Authorization Verification
+ *
+ * Local, offline verification of x402 "exact" scheme payments. Checks that a
+ * signed `transferWithAuthorization` matches the advertised payment requirements:
+ * - Scheme and network match
+ * - Recipient is the configured `payTo` address
+ * - Amount covers `maxAmountRequired`
+ * - Authorization is inside its validity window
+ * - EIP-712 signature recovers to the `from` address
+ *
+ * This runs before the facilitator is contacted so that malformed or forged
+ * proofs are rejected without a network round trip.
+ */
+
+import { eth } from "web3";
+import {
+  X402_NETWORK_CHAIN_IDS,
+  type PaymentPayload,
+  type TransferAuthorization,
+  type VerifyResponse,
+  type X402Accept,
+} from "./x402";
+
+/**
+ * EIP-712 type definitions for transferWithAuthorization
+ */
+const TRANSFER_WITH_AUTHORIZATION_TYPES = {
+  EIP712Domain: [
+    { name: "name", type: "string" },
+    { name: "version", type: "string" },
+    { name: "chainId", type: "uint256" },
+    { name: "verifyingContract", type: "address" },
+  ],
+  TransferWithAuthorization: [
+    { name: "from", type: "address" },
+    { name: "to", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "validAfter", type: "uint256" },
+    { name: "validBefore", type: "uint256" },
+    { name: "nonce", type: "bytes32" },
+  ],
+};
+
+/**
+ * Build the EIP-712 digest a payer signs for the given requirements
+ *
+ * The token's EIP-712 domain name/version are read from `requirements.extra`
+ * (defaults match Circle's USDC: "USD Coin", version "2").
+ */
+export function getAuthorizationDigest(
+  authorization: TransferAuthorization,
+  requirements: X402Accept
+): string {
+  const chainId = X402_NETWORK_CHAIN_IDS[requirements.network];
+  if (chainId === undefined) {
+    throw new Error(`Unknown x402 network: ${requirements.network}`);
+  }
+
+  return eth.abi.getEncodedEip712Data(
+    {
+      types: TRANSFER_WITH_AUTHORIZATION_TYPES,
+      primaryType: "TransferWithAuthorization",
+      domain: {
+        name: requirements.extra?.name ?? "USD Coin",
+        version: requirements.extra?.version ?? "2",
+        chainId,
+        verifyingContract: requirements.asset,
+      },
+      message: { ...authorization },
+    },
+    true
+  );
+}
+
+/**
+ * Verify an "exact" scheme payment payload against payment requirements
+ *
+ * @param payment - Decoded payment payload from the client
+ * @param requirements - Payment requirements the payload should satisfy
+ * @param now - Current unix time in seconds (overridable for testing)
+ * @returns Verification result with `invalidReason` on failure
+ */
+export function verifyTransferAuthorization(
+  payment: PaymentPayload,
+  requirements: X402Accept,
+  now: number = Math.floor(Date.now() / 1000)
+): VerifyResponse {
+  const authorization = payment.payload.authorization;
+  const payer = authorization.from;
+
+  if (payment.scheme !== requirements.scheme) {
+    return { isValid: false, invalidReason: "unsupported_scheme", payer };
+  }
+
+  if (payment.network !== requirements.network) {
+    return { isValid: false, invalidReason: "invalid_network", payer };
+  }
+
+  if (authorization.to.toLowerCase() !== requirements.payTo.toLowerCase()) {
+    return { isValid: false, invalidReason: "invalid_exact_evm_payload_recipient_mismatch", payer };
+  }
+
+  let value: bigint;
+  try {
+    value = BigInt(authorization.value);
+  } catch {
+    return { isValid: false, invalidReason: "invalid_exact_evm_payload_authorization_value", payer };
+  }
+
+  if (value < BigInt(requirements.maxAmountRequired)) {
+    return { isValid: false, invalidReason: "insufficient_funds", payer };
+  }
+
+  if (Number(authorization.validAfter) > now) {
+    return { isValid: false, invalidReason: "invalid_exact_evm_payload_authorization_valid_after", payer };
+  }
+
+  // Leave a few seconds of headroom so the facilitator can still submit the transfer
+  if (Number(authorization.validBefore) < now + 6) {
+    return { isValid: false, invalidReason: "invalid_exact_evm_payload_authorization_valid_before", payer };
+  }
+
+  try {
+    const digest = getAuthorizationDigest(authorization, requirements);
+    const signer = eth.accounts.recover(digest, payment.payload.signature, true);
+
+    if (signer.toLowerCase() !== payer.toLowerCase()) {
+      return { isValid: false, invalidReason: "invalid_exact_evm_payload_signature", payer };
+    }
+  } catch {
+    return { isValid: false, invalidReason: "invalid_exact_evm_payload_signature", payer };
+  }
+
+  return { isValid: true, payer };
+}
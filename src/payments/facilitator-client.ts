@@ -0,0 +1,196 @@
+/**
+ * x402 Facilitator Clients
+ *
+ * The facilitator verifies payment payloads and settles them on-chain on
+ * behalf of the resource server. Two implementations are provided:
+ * - HttpFacilitatorClient: talks to a remote facilitator (`/verify`, `/settle`)
+ * - MockFacilitatorClient: verifies signatures locally and fakes settlement,
+ *   so the full payment flow can be exercised offline
+ */
+
+import { utils } from "web3";
+import { verifyTransferAuthorization } from "./eip3009";
+import type { PaymentPayload, SettleResponse, VerifyResponse, X402Accept } from "./x402";
+
+/**
+ * Common interface for facilitator implementations
+ */
+export interface FacilitatorClient {
+  /** Ask the facilitator whether a payment payload satisfies the requirements */
+  verify(payment: PaymentPayload, requirements: X402Accept): Promise<VerifyResponse>;
+  /** Ask the facilitator to execute the transfer on-chain */
+  settle(payment: PaymentPayload, requirements: X402Accept): Promise<SettleResponse>;
+}
+
+/**
+ * Configuration options for HttpFacilitatorClient
+ */
+export interface HttpFacilitatorClientOptions {
+  /** Request timeout in milliseconds */
+  timeout?: number;
+  /** Whether to enable verbose logging */
+  verbose?: boolean;
+}
+
+/**
+ * HttpFacilitatorClient - Remote facilitator over HTTP
+ *
+ * Usage:
+ * ```typescript
+ * const facilitator = new HttpFacilitatorClient("https://facilitator.daydreams.systems");
+ * const verification = await facilitator.verify(payment, requirements);
+ * ```
+ */
+export class HttpFacilitatorClient implements FacilitatorClient {
+  private readonly baseUrl: string;
+  private readonly timeout: number;
+  private readonly verbose: boolean;
+
+  constructor(baseUrl: string, options: HttpFacilitatorClientOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, "");
+    this.timeout = options.timeout || 30000;
+    this.verbose = options.verbose || false;
+  }
+
+  async verify(payment: PaymentPayload, requirements: X402Accept): Promise<VerifyResponse> {
+    try {
+      const data = await this.post("/verify", payment, requirements);
+      return {
+        isValid: Boolean(data.isValid),
+        invalidReason: data.invalidReason || undefined,
+        payer: data.payer || payment.payload.authorization.from,
+      };
+    } catch (error: any) {
+      console.error(`Facilitator verify failed: ${error.message}`);
+      return {
+        isValid: false,
+        invalidReason: `facilitator_error: ${error.message}`,
+        payer: payment.payload.authorization.from,
+      };
+    }
+  }
+
+  async settle(payment: PaymentPayload, requirements: X402Accept): Promise<SettleResponse> {
+    try {
+      const data = await this.post("/settle", payment, requirements);
+      return {
+        success: Boolean(data.success),
+        errorReason: data.errorReason || data.error || undefined,
+        transaction: String(data.transaction || data.txHash || ""),
+        network: String(data.network || data.networkId || requirements.network),
+        payer: data.payer || payment.payload.authorization.from,
+      };
+    } catch (error: any) {
+      console.error(`Facilitator settle failed: ${error.message}`);
+      return {
+        success: false,
+        errorReason: `facilitator_error: ${error.message}`,
+        transaction: "",
+        network: requirements.network,
+        payer: payment.payload.authorization.from,
+      };
+    }
+  }
+
+  /**
+   * POST a payment payload and its requirements to a facilitator endpoint
+   */
+  private async post(
+    path: string,
+    payment: PaymentPayload,
+    requirements: X402Accept
+  ): Promise<Record<string, any>> {
+    const url = `${this.baseUrl}${path}`;
+    this.log(`Requesting: ${url}`);
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+
+    try {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "User-Agent": "TokenSafetyCheck/1.0",
+        },
+        body: JSON.stringify({
+          x402Version: payment.x402Version,
+          paymentPayload: payment,
+          paymentRequirements: requirements,
+        }),
+        signal: controller.signal,
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => "Unknown error");
+        throw new Error(`Facilitator returned ${response.status}: ${errorText}`);
+      }
+
+      return (await response.json()) as Record<string, any>;
+    } catch (error: any) {
+      clearTimeout(timeoutId);
+
+      if (error.name === "AbortError") {
+        throw new Error(`Request timeout after ${this.timeout}ms`);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Conditional logging based on verbose flag
+   */
+  private log(message: string, data?: any): void {
+    if (this.verbose) {
+      if (data) {
+        console.log(`[HttpFacilitatorClient] ${message}`, data);
+      } else {
+        console.log(`[HttpFacilitatorClient] ${message}`);
+      }
+    }
+  }
+}
+
+/**
+ * MockFacilitatorClient - Offline facilitator for local development and tests
+ *
+ * Verification uses the same local EIP-3009 checks as the server. Settlement
+ * never touches a chain; it returns a deterministic pseudo transaction hash
+ * derived from the authorization nonce.
+ */
+export class MockFacilitatorClient implements FacilitatorClient {
+  /** Payments settled by this instance, in order */
+  readonly settled: Array<{ payment: PaymentPayload; settlement: SettleResponse }> = [];
+
+  async verify(payment: PaymentPayload, requirements: X402Accept): Promise<VerifyResponse> {
+    return verifyTransferAuthorization(payment, requirements);
+  }
+
+  async settle(payment: PaymentPayload, requirements: X402Accept): Promise<SettleResponse> {
+    const verification = verifyTransferAuthorization(payment, requirements);
+
+    if (!verification.isValid) {
+      return {
+        success: false,
+        errorReason: verification.invalidReason,
+        transaction: "",
+        network: requirements.network,
+        payer: verification.payer,
+      };
+    }
+
+    const authorization = payment.payload.authorization;
+    const settlement: SettleResponse = {
+      success: true,
+      transaction: utils.sha3Raw(`${authorization.from.toLowerCase()}:${authorization.nonce}`),
+      network: requirements.network,
+      payer: authorization.from,
+    };
+
+    this.settled.push({ payment, settlement });
+    return settlement;
+  }
+}
@@ -0,0 +1,146 @@
+import { describe, expect, test } from "bun:test";
+import {
+  MemoryNonceStore,
+  NonceLedger,
+  type NonceStore,
+  type RedisLikeClient,
+  RedisNonceStore,
+  SqliteNonceStore,
+} from "./nonce-ledger";
+import type { PaymentPayload, X402Accept } from "./x402";
+
+const requirements: X402Accept = {
+  scheme: "exact",
+  network: "base",
+  maxAmountRequired: "20000",
+  resource: "https://example.com/api/v1/analyze",
+  description: "Token safety analysis",
+  mimeType: "application/json",
+  payTo: "0x01D11F7e1a46AbFC6092d7be484895D2d505095c",
+  maxTimeoutSeconds: 60,
+  asset: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+};
+
+const MAX_UINT256 = (2n ** 256n - 1n).toString();
+
+const payment = (
+  nonce: string,
+  validBefore: number | string = Math.floor(Date.now() / 1000) + 600
+): PaymentPayload => ({
+  x402Version: 1,
+  scheme: "exact",
+  network: "base",
+  payload: {
+    signature: "0x",
+    authorization: {
+      from: "0x1111111111111111111111111111111111111111",
+      to: requirements.payTo,
+      value: "20000",
+      validAfter: "0",
+      validBefore: String(validBefore),
+      nonce,
+    },
+  },
+});
+
+const stores: Array<[string, () => NonceStore]> = [
+  ["MemoryNonceStore", () => new MemoryNonceStore()],
+  ["SqliteNonceStore", () => new SqliteNonceStore(":memory:")],
+];
+
+describe.each(stores)("NonceLedger with %s", (_name, createStore) => {
+  test("accepts a nonce once", async () => {
+    const ledger = new NonceLedger(createStore());
+
+    const first = await ledger.claim(payment("0x01"), requirements);
+    expect(first.accepted).toBe(true);
+    expect(first.key).toBe(
+      "base:0x833589fcd6edb6e08f4c7c32d4f71b54bda02913:0x1111111111111111111111111111111111111111:0x01"
+    );
+
+    const replay = await ledger.claim(payment("0x01"), requirements);
+    expect(replay.accepted).toBe(false);
+    expect(replay.existing?.payer).toBe("0x1111111111111111111111111111111111111111");
+    expect(replay.existing?.resource).toBe(requirements.resource);
+  });
+
+  test("keeps nonces of different authorizations apart", async () => {
+    const ledger = new NonceLedger(createStore());
+
+    expect((await ledger.claim(payment("0x01"), requirements)).accepted).toBe(true);
+    expect((await ledger.claim(payment("0x02"), requirements)).accepted).toBe(true);
+    expect(
+      (await ledger.claim(payment("0x01"), { ...requirements, asset: "0x0000000000000000000000000000000000000001" }))
+        .accepted
+    ).toBe(true);
+  });
+
+  test("accepts a nonce again after release", async () => {
+    const ledger = new NonceLedger(createStore());
+
+    await ledger.claim(payment("0x01"), requirements);
+    await ledger.release(payment("0x01"), requirements);
+
+    expect((await ledger.claim(payment("0x01"), requirements)).accepted).toBe(true);
+  });
+
+  test("forgets expired nonces", async () => {
+    const store = createStore();
+    const expired = {
+      nonce: "0x01",
+      payer: "0x1111111111111111111111111111111111111111",
+      network: "base",
+      resource: requirements.resource,
+      recordedAt: Date.now() - 120000,
+      expiresAt: Date.now() - 1,
+    };
+
+    expect(await store.claim("key", expired)).toBe(true);
+    expect(await store.get("key")).toBeNull();
+    expect(await store.claim("key", { ...expired, expiresAt: Date.now() + 60000 })).toBe(true);
+  });
+});
+
+describe("NonceLedger expiry", () => {
+  test("caps entries at the payment timeout", async () => {
+    const store = new MemoryNonceStore();
+    const ledger = new NonceLedger(store);
+    const before = Date.now();
+
+    const claim = await ledger.claim(payment("0x01", MAX_UINT256), requirements);
+    const record = await store.get(claim.key);
+
+    expect(record!.expiresAt).toBeLessThanOrEqual(Date.now() + requirements.maxTimeoutSeconds * 1000);
+    expect(record!.expiresAt).toBeGreaterThanOrEqual(before + requirements.maxTimeoutSeconds * 1000);
+  });
+
+  test("expires with the authorization when it runs out first", async () => {
+    const store = new MemoryNonceStore();
+    const ledger = new NonceLedger(store);
+    const validBefore = Math.floor(Date.now() / 1000) + 30;
+
+    const claim = await ledger.claim(payment("0x01", validBefore), requirements);
+
+    expect((await store.get(claim.key))!.expiresAt).toBe(validBefore * 1000);
+  });
+
+  test("sends Redis an integer TTL within the payment timeout", async () => {
+    const calls: string[][] = [];
+    const client: RedisLikeClient = {
+      set: async (...args) => {
+        calls.push(args);
+        return "OK";
+      },
+      get: async () => null,
+      del: async () => 1,
+    };
+    const ledger = new NonceLedger(new RedisNonceStore(client));
+
+    expect((await ledger.claim(payment("0x01", MAX_UINT256), requirements)).accepted).toBe(true);
+
+    const [, , nx, px, ttl] = calls[0]!;
+    expect([nx, px]).toEqual(["NX", "PX"]);
+    expect(ttl).toMatch(/^\d+$/);
+    expect(Number(ttl)).toBeLessThanOrEqual(requirements.maxTimeoutSeconds * 1000);
+  });
+});
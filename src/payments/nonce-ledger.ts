@@ -0,0 +1,332 @@
+/**
+ * Payment Nonce Ledger - Replay protection for x402 payment proofs
+ *
+ * Every EIP-3009 authorization carries a unique 32-byte nonce. The ledger
+ * records each nonce (per payer, asset and network) the first time it is
+ * accepted and rejects any later request presenting the same authorization.
+ *
+ * Entries expire once the payment can no longer be settled by this server:
+ * after the requirement's `maxTimeoutSeconds`, or at the authorization's
+ * `validBefore` if that comes first. Settled authorizations stay protected
+ * on-chain by the token contract's own nonce tracking.
+ *
+ * Storage backends:
+ * - MemoryNonceStore: single-process, lost on restart
+ * - SqliteNonceStore: persistent, single host (bun:sqlite)
+ * - RedisNonceStore: shared across instances (any Redis-compatible server)
+ */
+
+import { Database } from "bun:sqlite";
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import type { PaymentPayload, X402Accept } from "./x402";
+
+/**
+ * A recorded payment authorization
+ */
+export interface NonceRecord {
+  /** Authorization nonce (bytes32 hex) */
+  nonce: string;
+  /** Payer address */
+  payer: string;
+  /** x402 network identifier */
+  network: string;
+  /** Resource the payment was made for */
+  resource: string;
+  /** When the nonce was first accepted (unix ms) */
+  recordedAt: number;
+  /** When the entry may be forgotten (unix ms) */
+  expiresAt: number;
+}
+
+/**
+ * Storage backend for the nonce ledger
+ */
+export interface NonceStore {
+  /** Atomically store the record if the key is unused; returns false if already present */
+  claim(key: string, record: NonceRecord): Promise<boolean>;
+  /** Look up an unexpired record */
+  get(key: string): Promise<NonceRecord | null>;
+  /** Forget a record (e.g. when settlement failed and the nonce was never consumed) */
+  release(key: string): Promise<void>;
+}
+
+/**
+ * Result of recording a payment in the ledger
+ */
+export interface NonceClaimResult {
+  /** Whether the authorization had not been used before */
+  accepted: boolean;
+  /** Ledger key for the authorization */
+  key: string;
+  /** Existing record when the authorization is a replay */
+  existing?: NonceRecord;
+}
+
+/**
+ * Configuration options for NonceLedger
+ */
+export interface NonceLedgerOptions {
+  /** Whether to enable verbose logging */
+  verbose?: boolean;
+}
+
+/**
+ * NonceLedger - Rejects reused payment authorizations
+ *
+ * Usage:
+ * ```typescript
+ * const ledger = new NonceLedger(new MemoryNonceStore());
+ * const claim = await ledger.claim(payment, requirements);
+ *
+ * if (!claim.accepted) {
+ *   console.warn("Replayed payment from", claim.existing?.payer);
+ * }
+ * ```
+ */
+export class NonceLedger {
+  private readonly store: NonceStore;
+  private readonly verbose: boolean;
+
+  constructor(store: NonceStore, options: NonceLedgerOptions = {}) {
+    this.store = store;
+    this.verbose = options.verbose || false;
+  }
+
+  /**
+   * Record a payment authorization, rejecting it if already used
+   *
+   * @param payment - Verified payment payload
+   * @param requirements - Requirements the payment was verified against
+   * @returns Claim result; `accepted` is false for replays
+   */
+  async claim(payment: PaymentPayload, requirements: X402Accept): Promise<NonceClaimResult> {
+    const authorization = payment.payload.authorization;
+    const key = this.keyFor(payment, requirements);
+    const now = Date.now();
+
+    // Keep the entry until the payment times out, or until the authorization
+    // expires if sooner (validBefore is a uint256 and may be far in the future)
+    const timeoutAt = now + requirements.maxTimeoutSeconds * 1000;
+    const validBeforeMs = Number(authorization.validBefore) * 1000;
+    const expiresAt = Math.floor(
+      Number.isFinite(validBeforeMs) ? Math.min(timeoutAt, Math.max(now, validBeforeMs)) : timeoutAt
+    );
+
+    const record: NonceRecord = {
+      nonce: authorization.nonce.toLowerCase(),
+      payer: authorization.from.toLowerCase(),
+      network: payment.network,
+      resource: requirements.resource,
+      recordedAt: now,
+      expiresAt,
+    };
+
+    if (await this.store.claim(key, record)) {
+      this.log(`Recorded nonce ${record.nonce} from ${record.payer}`);
+      return { accepted: true, key };
+    }
+
+    const existing = (await this.store.get(key)) ?? undefined;
+    this.log(`Rejected replayed nonce ${record.nonce} from ${record.payer}`);
+    return { accepted: false, key, existing };
+  }
+
+  /**
+   * Release a claimed authorization so it can be retried
+   * (used when verification or settlement fails after the claim)
+   */
+  async release(payment: PaymentPayload, requirements: X402Accept): Promise<void> {
+    const key = this.keyFor(payment, requirements);
+    await this.store.release(key);
+    this.log(`Released nonce ${key}`);
+  }
+
+  /**
+   * Build the ledger key for an authorization
+   */
+  private keyFor(payment: PaymentPayload, requirements: X402Accept): string {
+    const authorization = payment.payload.authorization;
+    return [
+      payment.network,
+      requirements.asset,
+      authorization.from,
+      authorization.nonce,
+    ]
+      .join(":")
+      .toLowerCase();
+  }
+
+  /**
+   * Conditional logging based on verbose flag
+   */
+  private log(message: string, data?: any): void {
+    if (this.verbose) {
+      if (data) {
+        console.log(`[NonceLedger] ${message}`, data);
+      } else {
+        console.log(`[NonceLedger] ${message}`);
+      }
+    }
+  }
+}
+
+/**
+ * MemoryNonceStore - In-process store with lazy expiry
+ */
+export class MemoryNonceStore implements NonceStore {
+  private readonly records: Map<string, NonceRecord> = new Map();
+
+  async claim(key: string, record: NonceRecord): Promise<boolean> {
+    this.prune();
+    if (this.records.has(key)) return false;
+    this.records.set(key, record);
+    return true;
+  }
+
+  async get(key: string): Promise<NonceRecord | null> {
+    const record = this.records.get(key);
+    if (!record || record.expiresAt <= Date.now()) return null;
+    return record;
+  }
+
+  async release(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+
+  /**
+   * Drop expired entries
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [key, record] of this.records) {
+      if (record.expiresAt <= now) this.records.delete(key);
+    }
+  }
+}
+
+/**
+ * SqliteNonceStore - Persistent store backed by bun:sqlite
+ */
+export class SqliteNonceStore implements NonceStore {
+  private readonly db: Database;
+
+  /**
+   * @param path - Database file path (":memory:" for an ephemeral database)
+   */
+  constructor(path: string) {
+    if (path !== ":memory:") {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new Database(path, { create: true });
+    this.db.run(`
+      CREATE TABLE IF NOT EXISTS payment_nonces (
+        key TEXT PRIMARY KEY,
+        nonce TEXT NOT NULL,
+        payer TEXT NOT NULL,
+        network TEXT NOT NULL,
+        resource TEXT NOT NULL,
+        recorded_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL
+      )
+    `);
+    this.db.run("CREATE INDEX IF NOT EXISTS payment_nonces_expires_at ON payment_nonces (expires_at)");
+  }
+
+  async claim(key: string, record: NonceRecord): Promise<boolean> {
+    this.db.run("DELETE FROM payment_nonces WHERE expires_at <= ?", [Date.now()]);
+
+    const result = this.db.run(
+      `INSERT OR IGNORE INTO payment_nonces
+         (key, nonce, payer, network, resource, recorded_at, expires_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        key,
+        record.nonce,
+        record.payer,
+        record.network,
+        record.resource,
+        record.recordedAt,
+        record.expiresAt,
+      ]
+    );
+
+    return result.changes === 1;
+  }
+
+  async get(key: string): Promise<NonceRecord | null> {
+    const row = this.db
+      .query("SELECT * FROM payment_nonces WHERE key = ? AND expires_at > ?")
+      .get(key, Date.now()) as Record<string, any> | null;
+
+    if (!row) return null;
+
+    return {
+      nonce: row.nonce,
+      payer: row.payer,
+      network: row.network,
+      resource: row.resource,
+      recordedAt: row.recorded_at,
+      expiresAt: row.expires_at,
+    };
+  }
+
+  async release(key: string): Promise<void> {
+    this.db.run("DELETE FROM payment_nonces WHERE key = ?", [key]);
+  }
+}
+
+/**
+ * Minimal Redis client surface used by RedisNonceStore
+ *
+ * Satisfied by Bun's `RedisClient` and by ioredis/node-redis style clients.
+ */
+export interface RedisLikeClient {
+  set(key: string, value: string, ...options: string[]): Promise<string | null>;
+  get(key: string): Promise<string | null>;
+  del(key: string): Promise<number>;
+}
+
+/**
+ * RedisNonceStore - Shared store for multi-instance deployments
+ *
+ * Uses `SET NX PX` so claims are atomic across instances and entries
+ * expire server-side.
+ */
+export class RedisNonceStore implements NonceStore {
+  private readonly client: RedisLikeClient;
+  private readonly prefix: string;
+
+  constructor(client: RedisLikeClient, prefix = "x402:nonce:") {
+    this.client = client;
+    this.prefix = prefix;
+  }
+
+  async claim(key: string, record: NonceRecord): Promise<boolean> {
+    const ttlMs = Math.max(1, Math.floor(record.expiresAt - Date.now()));
+    const result = await this.client.set(
+      this.prefix + key,
+      JSON.stringify(record),
+      "NX",
+      "PX",
+      String(ttlMs)
+    );
+    return result === "OK";
+  }
+
+  async get(key: string): Promise<NonceRecord | null> {
+    const value = await this.client.get(this.prefix + key);
+    if (!value) return null;
+
+    try {
+      return JSON.parse(value) as NonceRecord;
+    } catch {
+      return null;
+    }
+  }
+
+  async release(key: string): Promise<void> {
+    await this.client.del(this.prefix + key);
+  }
+}
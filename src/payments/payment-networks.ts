@@ -0,0 +1,148 @@
+/**
+ * x402 Payment Networks & Assets
+ *
+ * Registry of the networks and stablecoins the service accepts payment in,
+ * plus helpers to turn configuration into a list of payment options. Each
+ * option becomes one entry in the 402 response's `accepts` array.
+ *
+ * Configuration format (PAYMENT_NETWORKS):
+ *   "base,optimism:USDC,arbitrum,polygon"
+ * Each entry is `network[:ASSET]` (asset defaults to USDC). The recipient
+ * defaults to PAYMENT_ADDRESS and can be overridden per network with
+ * `PAYMENT_ADDRESS_<NETWORK>` (e.g. PAYMENT_ADDRESS_POLYGON).
+ */
+
+import type { X402Network } from "./x402";
+
+/**
+ * An EIP-3009 capable token accepted for payment
+ */
+export interface PaymentAsset {
+  /** x402 network identifier */
+  network: X402Network;
+  /** Token symbol */
+  symbol: string;
+  /** Token contract address */
+  address: string;
+  /** Token decimals */
+  decimals: number;
+  /** EIP-712 domain name used by transferWithAuthorization */
+  eip712Name: string;
+  /** EIP-712 domain version used by transferWithAuthorization */
+  eip712Version: string;
+}
+
+/**
+ * A configured (network, asset, recipient) combination
+ */
+export interface PaymentOption {
+  /** Asset to be paid */
+  asset: PaymentAsset;
+  /** Recipient address on that network */
+  payTo: string;
+}
+
+/**
+ * Known payment assets (native Circle USDC deployments)
+ */
+export const KNOWN_PAYMENT_ASSETS: PaymentAsset[] = [
+  {
+    network: "base",
+    symbol: "USDC",
+    address: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+    decimals: 6,
+    eip712Name: "USD Coin",
+    eip712Version: "2",
+  },
+  {
+    network: "base-sepolia",
+    symbol: "USDC",
+    address: "0x036CbD53842c5426634e7929541eC2318f3dCF7e",
+    decimals: 6,
+    eip712Name: "USDC",
+    eip712Version: "2",
+  },
+  {
+    network: "optimism",
+    symbol: "USDC",
+    address: "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85",
+    decimals: 6,
+    eip712Name: "USD Coin",
+    eip712Version: "2",
+  },
+  {
+    network: "arbitrum",
+    symbol: "USDC",
+    address: "0xaf88d065e77c8cC2239327C5EDb3A432268e5831",
+    decimals: 6,
+    eip712Name: "USD Coin",
+    eip712Version: "2",
+  },
+  {
+    network: "polygon",
+    symbol: "USDC",
+    address: "0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359",
+    decimals: 6,
+    eip712Name: "USD Coin",
+    eip712Version: "2",
+  },
+];
+
+/**
+ * Resolve configured payment options
+ *
+ * @param spec - Comma-separated `network[:ASSET]` list
+ * @param defaultPayTo - Recipient used when no per-network override exists
+ * @param env - Environment to read `PAYMENT_ADDRESS_<NETWORK>` overrides from
+ * @returns Payment options in configuration order (unknown entries are skipped)
+ */
+export function resolvePaymentOptions(
+  spec: string,
+  defaultPayTo: string,
+  env: Record<string, string | undefined> = process.env
+): PaymentOption[] {
+  const options: PaymentOption[] = [];
+
+  for (const entry of spec.split(",").map((part) => part.trim()).filter(Boolean)) {
+    const [network = "", symbol = "USDC"] = entry.split(":").map((part) => part.trim());
+    const asset = KNOWN_PAYMENT_ASSETS.find(
+      (candidate) =>
+        candidate.network === network.toLowerCase() &&
+        candidate.symbol.toLowerCase() === symbol.toLowerCase()
+    );
+
+    if (!asset) {
+      console.warn(`Ignoring unknown payment network/asset: "${entry}"`);
+      continue;
+    }
+
+    const envKey = `PAYMENT_ADDRESS_${asset.network.toUpperCase().replace(/-/g, "_")}`;
+    options.push({ asset, payTo: env[envKey] || defaultPayTo });
+  }
+
+  return options;
+}
+
+/**
+ * Convert a USDC-denominated price (6 decimals) into an asset's base units
+ */
+export function toAssetAmount(usdcAmount: number, asset: PaymentAsset): string {
+  const amount = BigInt(usdcAmount);
+
+  if (asset.decimals >= 6) {
+    return (amount * 10n ** BigInt(asset.decimals - 6)).toString();
+  }
+  return (amount / 10n ** BigInt(6 - asset.decimals)).toString();
+}
+
+/**
+ * Convert an amount in an asset's base units into USDC base units (6 decimals)
+ */
+export function fromAssetAmount(assetAmount: string, asset: PaymentAsset): number {
+  const amount = BigInt(assetAmount);
+
+  if (asset.decimals >= 6) {
+    return Number(amount / 10n ** BigInt(asset.decimals - 6));
+  }
+  return Number(amount * 10n ** BigInt(6 - asset.decimals));
+}
@@ -0,0 +1,120 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { eth, utils } from "web3";
+import { getAuthorizationDigest } from "./eip3009";
+import { MockFacilitatorClient } from "./facilitator-client";
+import { MemoryNonceStore, NonceLedger } from "./nonce-ledger";
+import { PaymentVerifier } from "./payment-verifier";
+import { encodePaymentHeader, type PaymentPayload, type X402Accept } from "./x402";
+
+const PRIVATE_KEY = "0x" + "22".repeat(32);
+const PAYER = eth.accounts.privateKeyToAddress(PRIVATE_KEY);
+const PAY_TO = "0x01D11F7e1a46AbFC6092d7be484895D2d505095c";
+
+const accept = (network: X402Accept["network"], asset: string): X402Accept => ({
+  scheme: "exact",
+  network,
+  maxAmountRequired: "20000",
+  resource: "https://example.com/api/v1/analyze",
+  description: "Token safety analysis",
+  mimeType: "application/json",
+  payTo: PAY_TO,
+  maxTimeoutSeconds: 60,
+  asset,
+  extra: { name: "USD Coin", version: "2" },
+});
+
+const accepts = [
+  accept("base", "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913"),
+  accept("optimism", "0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85"),
+];
+
+const signPayment = (requirements: X402Accept, to = requirements.payTo): PaymentPayload => {
+  const authorization = {
+    from: PAYER,
+    to,
+    value: requirements.maxAmountRequired,
+    validAfter: "0",
+    validBefore: String(Math.floor(Date.now() / 1000) + 600),
+    nonce: utils.randomHex(32),
+  };
+
+  return {
+    x402Version: 1,
+    scheme: "exact",
+    network: requirements.network,
+    payload: {
+      signature: eth.accounts.signMessageWithPrivateKey(
+        getAuthorizationDigest(authorization, requirements),
+        PRIVATE_KEY
+      ).signature,
+      authorization,
+    },
+  };
+};
+
+describe("PaymentVerifier", () => {
+  let facilitator: MockFacilitatorClient;
+  let verifier: PaymentVerifier;
+
+  beforeEach(() => {
+    facilitator = new MockFacilitatorClient();
+    verifier = new PaymentVerifier(facilitator, { ledger: new NonceLedger(new MemoryNonceStore()) });
+  });
+
+  test("matches a payment to the requirements of its network", async () => {
+    const verification = await verifier.verify(encodePaymentHeader(signPayment(accepts[1])), accepts);
+
+    expect(verification.isValid).toBe(true);
+    expect(verification.payer).toBe(PAYER);
+    expect(verification.requirements).toBe(accepts[1]);
+  });
+
+  test("rejects an undecodable header", async () => {
+    expect((await verifier.verify("not-base64-json", accepts)).invalidReason).toBe("invalid_payload");
+  });
+
+  test("rejects a network that is not accepted", async () => {
+    const payment = signPayment(accept("arbitrum", "0xaf88d065e77c8cC2239327C5EDb3A432268e5831"));
+    expect((await verifier.verify(encodePaymentHeader(payment), accepts)).invalidReason).toBe(
+      "invalid_network"
+    );
+  });
+
+  test("rejects a payment to another recipient", async () => {
+    const payment = signPayment(accepts[0], "0x000000000000000000000000000000000000dEaD");
+    expect((await verifier.verify(encodePaymentHeader(payment), accepts)).isValid).toBe(false);
+  });
+
+  test("rejects a replayed authorization", async () => {
+    const header = encodePaymentHeader(signPayment(accepts[0]));
+
+    expect((await verifier.verify(header, accepts)).isValid).toBe(true);
+    const replay = await verifier.verify(header, accepts);
+
+    expect(replay.isValid).toBe(false);
+    expect(replay.invalidReason).toBe("nonce_already_used");
+    expect(replay.payer).toBe(PAYER);
+  });
+
+  test("settles a verified payment through the facilitator", async () => {
+    const header = encodePaymentHeader(signPayment(accepts[0]));
+    const verification = await verifier.verify(header, accepts);
+    const settlement = await verifier.settle(verification.payment!, verification.requirements!);
+
+    expect(settlement.success).toBe(true);
+    expect(settlement.network).toBe("base");
+    expect(facilitator.settled).toHaveLength(1);
+    // A settled authorization stays claimed
+    expect((await verifier.verify(header, accepts)).invalidReason).toBe("nonce_already_used");
+  });
+
+  test("lets a released payment be retried", async () => {
+    const header = encodePaymentHeader(signPayment(accepts[0]));
+    const verification = await verifier.verify(header, accepts);
+
+    await verifier.release(verification.payment!, verification.requirements!);
+
+    expect((await verifier.verify(header, accepts)).isValid).toBe(true);
+    expect(facilitator.settled).toHaveLength(0);
+  });
+});
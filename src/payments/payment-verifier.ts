@@ -0,0 +1,209 @@
+/**
+ * x402 Payment Verification
+ *
+ * Turns a raw payment header into a verified, settled payment:
+ * 1. Decode the base64 payment payload
+ * 2. Match it to one of the accepted (network, asset) payment requirements
+ *    and verify the EIP-3009 authorization locally (signature, recipient, amount, expiry)
+ * 3. Reject replays via the nonce ledger (if configured)
+ * 4. Confirm with the facilitator's `/verify` endpoint
+ * 5. Settle through the facilitator's `/settle` endpoint, or release the
+ *    payment unsettled if the request turns out not to be chargeable
+ *
+ * Features:
+ * - Pluggable facilitator (HTTP or offline mock)
+ * - Rejects forged and replayed proofs before any network call
+ * - Structured failure reasons for 402 responses
+ */
+
+import { verifyTransferAuthorization } from "./eip3009";
+import type { FacilitatorClient } from "./facilitator-client";
+import type { NonceLedger } from "./nonce-ledger";
+import {
+  decodePaymentHeader,
+  type PaymentPayload,
+  type SettleResponse,
+  type VerifyResponse,
+  type X402Accept,
+} from "./x402";
+
+/**
+ * Outcome of verifying a payment header
+ */
+export interface PaymentVerification {
+  /** Whether the payment satisfies the requirements */
+  isValid: boolean;
+  /** Machine-readable reason when invalid */
+  invalidReason?: string;
+  /** Payer address (if the payload could be decoded) */
+  payer?: string;
+  /** Decoded payment payload (if the header could be decoded) */
+  payment?: PaymentPayload;
+  /** The accepted requirements the payment was matched against */
+  requirements?: X402Accept;
+}
+
+/**
+ * Configuration options for PaymentVerifier
+ */
+export interface PaymentVerifierOptions {
+  /** Ledger of used authorization nonces (replay protection disabled if omitted) */
+  ledger?: NonceLedger;
+  /** Whether to enable verbose logging */
+  verbose?: boolean;
+}
+
+/**
+ * PaymentVerifier - Verifies and settles x402 payment proofs
+ *
+ * Usage:
+ * ```typescript
+ * const verifier = new PaymentVerifier(new HttpFacilitatorClient(FACILITATOR_URL));
+ * const verification = await verifier.verify(header, accepts);
+ *
+ * if (verification.isValid) {
+ *   const settlement = await verifier.settle(verification.payment!, verification.requirements!);
+ * }
+ * ```
+ */
+export class PaymentVerifier {
+  private readonly facilitator: FacilitatorClient;
+  private readonly ledger?: NonceLedger;
+  private readonly verbose: boolean;
+
+  constructor(facilitator: FacilitatorClient, options: PaymentVerifierOptions = {}) {
+    this.facilitator = facilitator;
+    this.ledger = options.ledger;
+    this.verbose = options.verbose || false;
+  }
+
+  /**
+   * Verify a payment header against the accepted payment requirements
+   *
+   * @param header - Raw `X-402-Payment-Proof` / `X-PAYMENT` header value
+   * @param accepts - Accepted requirements (one per network/asset pair)
+   * @returns Verification outcome including the matched requirements (never throws)
+   */
+  async verify(header: string, accepts: X402Accept[]): Promise<PaymentVerification> {
+    const payment = decodePaymentHeader(header);
+
+    if (!payment) {
+      this.log("Rejected undecodable payment header");
+      return { isValid: false, invalidReason: "invalid_payload" };
+    }
+
+    // Local checks first: no point asking the facilitator about a forged proof
+    const { requirements, result: local } = this.matchRequirements(payment, accepts);
+    if (!requirements || !local.isValid) {
+      this.log(`Local verification failed: ${local.invalidReason}`);
+      return { ...local, payment, requirements };
+    }
+
+    // Claim the nonce before the facilitator round trip so concurrent replays lose the race
+    if (this.ledger) {
+      const claim = await this.ledger.claim(payment, requirements);
+      if (!claim.accepted) {
+        const since = claim.existing ? ` (first used ${new Date(claim.existing.recordedAt).toISOString()})` : "";
+        this.log(`Replayed payment from ${local.payer}${since}`);
+        return {
+          isValid: false,
+          invalidReason: "nonce_already_used",
+          payer: local.payer,
+          payment,
+          requirements,
+        };
+      }
+    }
+
+    const remote = await this.facilitator.verify(payment, requirements);
+    if (!remote.isValid) {
+      await this.ledger?.release(payment, requirements);
+      this.log(`Facilitator rejected payment: ${remote.invalidReason}`);
+      return {
+        isValid: false,
+        invalidReason: remote.invalidReason || "facilitator_rejected",
+        payer: remote.payer || local.payer,
+        payment,
+        requirements,
+      };
+    }
+
+    this.log(`Payment verified from ${local.payer} on ${requirements.network}`);
+    return { isValid: true, payer: local.payer, payment, requirements };
+  }
+
+  /**
+   * Settle a previously verified payment through the facilitator
+   */
+  async settle(payment: PaymentPayload, requirements: X402Accept): Promise<SettleResponse> {
+    const settlement = await this.facilitator.settle(payment, requirements);
+
+    if (settlement.success) {
+      this.log(`Payment settled: ${settlement.transaction}`);
+    } else {
+      console.error(`Payment settlement failed: ${settlement.errorReason}`);
+      // The authorization was never consumed on-chain, so let the client retry it
+      await this.ledger?.release(payment, requirements);
+    }
+
+    return settlement;
+  }
+
+  /**
+   * Drop a verified payment without settling it
+   *
+   * The authorization is never submitted on-chain, so its nonce is released
+   * and the client may reuse the same proof for a retry.
+   */
+  async release(payment: PaymentPayload, requirements: X402Accept): Promise<void> {
+    await this.ledger?.release(payment, requirements);
+    this.log(`Payment from ${payment.payload.authorization.from} released unsettled`);
+  }
+
+  /**
+   * Find the accepted requirements a payment pays against
+   *
+   * Candidates are narrowed by network and recipient; when several assets
+   * share a network, the one whose EIP-712 domain the signature verifies
+   * against wins. Otherwise the first candidate's failure reason is reported.
+   */
+  private matchRequirements(
+    payment: PaymentPayload,
+    accepts: X402Accept[]
+  ): { requirements?: X402Accept; result: VerifyResponse } {
+    const payer = payment.payload.authorization.from;
+    const recipient = payment.payload.authorization.to.toLowerCase();
+
+    const onNetwork = accepts.filter((accept) => accept.network === payment.network);
+    if (onNetwork.length === 0) {
+      return { result: { isValid: false, invalidReason: "invalid_network", payer } };
+    }
+
+    const toRecipient = onNetwork.filter((accept) => accept.payTo.toLowerCase() === recipient);
+    const candidates = toRecipient.length > 0 ? toRecipient : onNetwork;
+
+    let firstFailure: { requirements: X402Accept; result: VerifyResponse } | undefined;
+    for (const requirements of candidates) {
+      const result = verifyTransferAuthorization(payment, requirements);
+      if (result.isValid) {
+        return { requirements, result };
+      }
+      firstFailure ??= { requirements, result };
+    }
+
+    return firstFailure!;
+  }
+
+  /**
+   * Conditional logging based on verbose flag
+   */
+  private log(message: string, data?: any): void {
+    if (this.verbose) {
+      if (data) {
+        console.log(`[PaymentVerifier] ${message}`, data);
+      } else {
+        console.log(`[PaymentVerifier] ${message}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, test } from "bun:test";
+import { formatUsdc, parseChainSurcharges, PricingTable } from "./pricing";
+
+const pricing = new PricingTable({
+  routes: {
+    analyze: {
+      type: "fixed",
+      method: "POST",
+      path: "/api/v1/analyze",
+      description: "Token safety analysis",
+      prices: { quick: 5000, full: 20000 },
+      defaultDepth: "full",
+    },
+    batch: {
+      type: "batch",
+      method: "POST",
+      path: "/api/v1/analyze/batch",
+      description: "Batch token safety analysis",
+      itemRoute: "analyze",
+      maxItems: 10,
+    },
+    credits: {
+      type: "deposit",
+      method: "POST",
+      path: "/api/v1/credits",
+      description: "Prepaid credits",
+      minimumAmount: 1000000,
+    },
+  },
+  chainSurcharges: { 1: 5000 },
+});
+
+describe("PricingTable", () => {
+  test("prices fixed routes by depth, defaulting to the route's depth", () => {
+    expect(pricing.quote("analyze").amount).toBe(20000);
+    expect(pricing.quote("analyze", { depth: "quick" }).amount).toBe(5000);
+  });
+
+  test("adds the chain surcharge", () => {
+    const quote = pricing.quote("analyze", { depth: "quick", chainId: 1 });
+
+    expect(quote.baseAmount).toBe(5000);
+    expect(quote.chainSurcharge).toBe(5000);
+    expect(quote.amount).toBe(10000);
+    expect(quote.display).toBe("0.01 USDC");
+    expect(pricing.quote("analyze", { depth: "quick", chainId: 8453 }).chainSurcharge).toBe(0);
+  });
+
+  test("sums batch items with their surcharges", () => {
+    const quote = pricing.quote("batch", { depth: "quick", chainIds: [1, 8453, 1] });
+
+    expect(quote.items).toBe(3);
+    expect(quote.baseAmount).toBe(15000);
+    expect(quote.chainSurcharge).toBe(10000);
+    expect(quote.amount).toBe(25000);
+  });
+
+  test("prices an empty batch as one item", () => {
+    expect(pricing.quote("batch").amount).toBe(20000);
+  });
+
+  test("never quotes a deposit below the minimum", () => {
+    expect(pricing.quote("credits", { amount: 10 }).amount).toBe(1000000);
+    expect(pricing.quote("credits", { amount: 2500000.7 }).amount).toBe(2500000);
+  });
+
+  test("reports the cheapest price of each route", () => {
+    expect(pricing.getStartingPrice("analyze")).toBe(5000);
+    expect(pricing.getStartingPrice("batch")).toBe(5000);
+    expect(pricing.getStartingPrice("credits")).toBe(1000000);
+  });
+
+  test("throws for unknown routes", () => {
+    expect(() => pricing.quote("missing")).toThrow('No pricing configured for route "missing"');
+  });
+});
+
+describe("formatUsdc", () => {
+  test("shows at least two decimals and drops trailing zeros", () => {
+    expect(formatUsdc(20000)).toBe("0.02 USDC");
+    expect(formatUsdc(1000000)).toBe("1.00 USDC");
+    expect(formatUsdc(1234)).toBe("0.001234 USDC");
+  });
+});
+
+describe("parseChainSurcharges", () => {
+  test("parses chainId:amount pairs and skips invalid entries", () => {
+    expect(parseChainSurcharges("1:5000, 56:0,bad,10:-1")).toEqual({ 1: 5000, 56: 0 });
+    expect(parseChainSurcharges(undefined)).toEqual({});
+  });
+});
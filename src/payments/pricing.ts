@@ -0,0 +1,309 @@
+/**
+ * Pricing Table - Single source of truth for x402 prices
+ *
+ * Prices are expressed in USDC base units (6 decimals) and resolved from:
+ * - The paid route (e.g. token analysis)
+ * - The requested analysis depth (quick on-chain check vs. full deep scan)
+ * - An optional per-chain surcharge (e.g. for expensive RPC networks)
+ *
+ * Deposit routes (e.g. prepaid credit top-ups) have no fixed price; the
+ * client chooses an amount at or above the route's minimum.
+ *
+ * Batch routes are priced as the sum of their items, each quoted against a
+ * fixed-price item route (so per-depth prices and chain surcharges apply).
+ *
+ * The 402 payment requirements, agent manifest, /docs and the HTML page all
+ * read prices from here so they can never drift apart.
+ */
+
+/**
+ * Analysis depth
+ * - quick: on-chain verification only
+ * - full: on-chain verification plus honeypot simulation and holder analysis
+ */
+export type AnalysisDepth = "quick" | "full";
+
+export const ANALYSIS_DEPTHS: readonly AnalysisDepth[] = ["quick", "full"];
+
+/**
+ * Fields shared by all paid routes
+ */
+interface RouteInfo {
+  /** HTTP method */
+  method: "GET" | "POST";
+  /** Route path */
+  path: string;
+  /** Human-readable description of what is being paid for */
+  description: string;
+}
+
+/**
+ * Fixed-price route priced per analysis depth
+ */
+export interface FixedRoutePricing extends RouteInfo {
+  type: "fixed";
+  /** Price per analysis depth in USDC base units */
+  prices: Record<AnalysisDepth, number>;
+  /** Depth used when the request does not specify one */
+  defaultDepth: AnalysisDepth;
+}
+
+/**
+ * Variable-amount route where the client chooses how much to pay
+ */
+export interface DepositRoutePricing extends RouteInfo {
+  type: "deposit";
+  /** Smallest accepted amount in USDC base units */
+  minimumAmount: number;
+}
+
+/**
+ * Multi-item route priced per item against another route
+ */
+export interface BatchRoutePricing extends RouteInfo {
+  type: "batch";
+  /** Fixed-price route each item is quoted against */
+  itemRoute: string;
+  /** Largest accepted batch */
+  maxItems: number;
+}
+
+/**
+ * Price configuration for a single paid route
+ */
+export type RoutePricing = FixedRoutePricing | DepositRoutePricing | BatchRoutePricing;
+
+/**
+ * Full pricing configuration
+ */
+export interface PricingConfig {
+  /** Paid routes keyed by route name */
+  routes: Record<string, RoutePricing>;
+  /** Extra charge per chain ID in USDC base units */
+  chainSurcharges?: Record<number, number>;
+}
+
+/**
+ * A resolved price for one request
+ */
+export interface PriceQuote {
+  /** Route name */
+  route: string;
+  /** Analysis depth priced (fixed-price routes only) */
+  depth?: AnalysisDepth;
+  /** Chain the surcharge was resolved for */
+  chainId?: number;
+  /** Number of items priced (batch routes only) */
+  items?: number;
+  /** Depth price before surcharges (summed over items for batches) */
+  baseAmount: number;
+  /** Chain surcharge */
+  chainSurcharge: number;
+  /** Total amount due in USDC base units */
+  amount: number;
+  /** Display string, e.g. "0.02 USDC" */
+  display: string;
+}
+
+/**
+ * Format USDC base units for display (at least 2 decimals, up to 6)
+ */
+export function formatUsdc(amount: number): string {
+  const [whole, fraction = ""] = (amount / 1000000).toFixed(6).split(".");
+  return `${whole}.${fraction.replace(/0+$/, "").padEnd(2, "0")} USDC`;
+}
+
+/**
+ * PricingTable - Resolves prices for paid routes
+ *
+ * Usage:
+ * ```typescript
+ * const pricing = new PricingTable({
+ *   routes: {
+ *     analyze: {
+ *       type: "fixed",
+ *       method: "POST",
+ *       path: "/api/v1/analyze",
+ *       description: "Token safety analysis",
+ *       prices: { quick: 5000, full: 20000 },
+ *       defaultDepth: "full",
+ *     },
+ *   },
+ *   chainSurcharges: { 1: 5000 },
+ * });
+ *
+ * const quote = pricing.quote("analyze", { depth: "quick", chainId: 1 });
+ * console.log(quote.display); // "0.01 USDC"
+ * ```
+ */
+export class PricingTable {
+  private readonly routes: Record<string, RoutePricing>;
+  private readonly chainSurcharges: Record<number, number>;
+
+  constructor(config: PricingConfig) {
+    this.routes = config.routes;
+    this.chainSurcharges = config.chainSurcharges || {};
+  }
+
+  /**
+   * Resolve the price of a request
+   *
+   * @param route - Route name from the pricing config
+   * @param params - Requested depth and chain, deposit amount, or the chain of
+   *   each batch item (all optional; a batch without items is priced as one item)
+   * @returns Price quote including surcharge breakdown
+   */
+  quote(
+    route: string,
+    params: {
+      depth?: AnalysisDepth;
+      chainId?: number;
+      amount?: number;
+      chainIds?: number[];
+    } = {}
+  ): PriceQuote {
+    const pricing = this.getRoute(route);
+
+    // Batches: sum of the item route's price for every item
+    if (pricing.type === "batch") {
+      const chainIds: Array<number | undefined> =
+        params.chainIds && params.chainIds.length > 0 ? params.chainIds : [undefined];
+      const itemQuotes = chainIds.map((chainId) =>
+        this.quote(pricing.itemRoute, { depth: params.depth, chainId })
+      );
+      const baseAmount = itemQuotes.reduce((sum, item) => sum + item.baseAmount, 0);
+      const chainSurcharge = itemQuotes.reduce((sum, item) => sum + item.chainSurcharge, 0);
+      const amount = baseAmount + chainSurcharge;
+
+      return {
+        route,
+        depth: itemQuotes[0]!.depth,
+        items: itemQuotes.length,
+        baseAmount,
+        chainSurcharge,
+        amount,
+        display: formatUsdc(amount),
+      };
+    }
+
+    // Deposits: whatever the client asked for, but never below the minimum
+    if (pricing.type === "deposit") {
+      const amount = Math.max(pricing.minimumAmount, Math.floor(params.amount ?? 0));
+      return {
+        route,
+        baseAmount: amount,
+        chainSurcharge: 0,
+        amount,
+        display: formatUsdc(amount),
+      };
+    }
+
+    const depth = params.depth ?? pricing.defaultDepth;
+    const baseAmount = pricing.prices[depth];
+    const chainSurcharge =
+      params.chainId !== undefined ? this.chainSurcharges[params.chainId] ?? 0 : 0;
+    const amount = baseAmount + chainSurcharge;
+
+    return {
+      route,
+      depth,
+      chainId: params.chainId,
+      baseAmount,
+      chainSurcharge,
+      amount,
+      display: formatUsdc(amount),
+    };
+  }
+
+  /**
+   * Get pricing for a route, throwing if it is not configured
+   */
+  getRoute(route: string): RoutePricing {
+    const pricing = this.routes[route];
+    if (!pricing) {
+      throw new Error(`No pricing configured for route "${route}"`);
+    }
+    return pricing;
+  }
+
+  /**
+   * List all paid routes
+   */
+  listRoutes(): Array<{ name: string } & RoutePricing> {
+    return Object.entries(this.routes).map(([name, pricing]) => ({ name, ...pricing }));
+  }
+
+  /**
+   * Cheapest price of a route (for "from X USDC" displays)
+   */
+  getStartingPrice(route: string): number {
+    const pricing = this.getRoute(route);
+
+    if (pricing.type === "batch") return this.getStartingPrice(pricing.itemRoute);
+    return pricing.type === "deposit"
+      ? pricing.minimumAmount
+      : Math.min(...Object.values(pricing.prices));
+  }
+
+  /**
+   * Describe a route's prices for manifests and docs
+   */
+  describe(route: string): Record<string, any> {
+    const pricing = this.getRoute(route);
+
+    if (pricing.type === "deposit") {
+      return {
+        currency: "USDC",
+        minimumAmount: pricing.minimumAmount,
+        minimumDisplay: formatUsdc(pricing.minimumAmount),
+      };
+    }
+
+    if (pricing.type === "batch") {
+      return {
+        ...this.describe(pricing.itemRoute),
+        perItem: true,
+        maxItems: pricing.maxItems,
+      };
+    }
+
+    return {
+      currency: "USDC",
+      defaultDepth: pricing.defaultDepth,
+      depths: Object.fromEntries(
+        ANALYSIS_DEPTHS.map((depth) => [
+          depth,
+          { amount: pricing.prices[depth], display: formatUsdc(pricing.prices[depth]) },
+        ])
+      ),
+      chainSurcharges: Object.fromEntries(
+        Object.entries(this.chainSurcharges).map(([chainId, amount]) => [
+          chainId,
+          { amount, display: formatUsdc(amount) },
+        ])
+      ),
+    };
+  }
+}
+
+/**
+ * Parse a "chainId:amount" list (e.g. "1:5000,56:0") into a surcharge map
+ */
+export function parseChainSurcharges(value: string | undefined): Record<number, number> {
+  const surcharges: Record<number, number> = {};
+  if (!value) return surcharges;
+
+  for (const entry of value.split(",")) {
+    const [chainId, amount] = entry.split(":").map((part) => part.trim());
+    const parsedChainId = Number(chainId);
+    const parsedAmount = Number(amount);
+
+    if (Number.isInteger(parsedChainId) && Number.isInteger(parsedAmount) && parsedAmount >= 0) {
+      surcharges[parsedChainId] = parsedAmount;
+    } else {
+      console.warn(`Ignoring invalid chain surcharge entry: "${entry}"`);
+    }
+  }
+
+  return surcharges;
+}
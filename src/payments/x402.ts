@@ -0,0 +1,178 @@
+/**
+ * x402 Protocol Types & Encoding
+ *
+ * Shared type definitions for the x402 payment protocol plus helpers for
+ * the base64-encoded headers exchanged between client, server and facilitator:
+ * - `X-402-Payment-Proof` / `X-PAYMENT` (client → server payment payload)
+ * - `X-PAYMENT-RESPONSE` (server → client settlement result)
+ *
+ * Only the "exact" scheme (EIP-3009 transferWithAuthorization) is supported.
+ */
+
+/**
+ * 402 response body returned when payment is missing or invalid
+ */
+export type X402Response = {
+  x402Version: number;
+  error?: string;
+  accepts?: Array<X402Accept>;
+  payer?: string;
+};
+
+/**
+ * Networks payments can be made on
+ */
+export type X402Network = "base" | "base-sepolia" | "optimism" | "arbitrum" | "polygon";
+
+/**
+ * Payment requirements advertised for a protected resource
+ */
+export type X402Accept = {
+  scheme: "exact";
+  network: X402Network;
+  maxAmountRequired: string;
+  resource: string;
+  description: string;
+  mimeType: string;
+  payTo: string;
+  maxTimeoutSeconds: number;
+  asset: string;
+  outputSchema?: {
+    input: {
+      type: "http";
+      method: "GET" | "POST";
+      bodyType?: "json" | "form-data" | "multipart-form-data" | "text" | "binary";
+      queryParams?: Record<string, FieldDef>;
+      bodyFields?: Record<string, FieldDef>;
+      headerFields?: Record<string, FieldDef>;
+    };
+    output?: Record<string, any>;
+  };
+  extra?: Record<string, any>;
+};
+
+export type FieldDef = {
+  type?: string;
+  required?: boolean | string[];
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, FieldDef>;
+};
+
+/**
+ * EIP-3009 transferWithAuthorization parameters signed by the payer
+ */
+export type TransferAuthorization = {
+  from: string;
+  to: string;
+  value: string;
+  validAfter: string;
+  validBefore: string;
+  nonce: string;
+};
+
+/**
+ * Decoded payment payload sent by the client
+ */
+export type PaymentPayload = {
+  x402Version: number;
+  scheme: "exact";
+  network: string;
+  payload: {
+    signature: string;
+    authorization: TransferAuthorization;
+  };
+};
+
+/**
+ * Result of verifying a payment payload against its requirements
+ */
+export type VerifyResponse = {
+  isValid: boolean;
+  invalidReason?: string;
+  payer?: string;
+};
+
+/**
+ * Result of settling a verified payment on-chain
+ */
+export type SettleResponse = {
+  success: boolean;
+  errorReason?: string;
+  transaction: string;
+  network: string;
+  payer?: string;
+};
+
+/**
+ * EVM chain IDs for x402 network identifiers (used as the EIP-712 domain chainId)
+ */
+export const X402_NETWORK_CHAIN_IDS: Record<X402Network, number> = {
+  base: 8453,
+  "base-sepolia": 84532,
+  optimism: 10,
+  arbitrum: 42161,
+  polygon: 137,
+};
+
+/**
+ * Decode a payment header into a payment payload
+ *
+ * Accepts base64-encoded JSON (per x402 spec) as well as raw JSON.
+ * Returns null if the header cannot be decoded into a well-formed payload.
+ */
+export function decodePaymentHeader(header: string): PaymentPayload | null {
+  try {
+    const trimmed = header.trim();
+    const json = trimmed.startsWith("{")
+      ? trimmed
+      : Buffer.from(trimmed, "base64").toString("utf8");
+    const decoded = JSON.parse(json);
+
+    const authorization = decoded?.payload?.authorization;
+    if (
+      typeof decoded?.scheme !== "string" ||
+      typeof decoded?.network !== "string" ||
+      typeof decoded?.payload?.signature !== "string" ||
+      !authorization ||
+      ["from", "to", "value", "validAfter", "validBefore", "nonce"].some(
+        (field) => authorization[field] === undefined || authorization[field] === null
+      )
+    ) {
+      return null;
+    }
+
+    return {
+      x402Version: Number(decoded.x402Version ?? 1),
+      scheme: decoded.scheme,
+      network: decoded.network,
+      payload: {
+        signature: decoded.payload.signature,
+        authorization: {
+          from: String(authorization.from),
+          to: String(authorization.to),
+          value: String(authorization.value),
+          validAfter: String(authorization.validAfter),
+          validBefore: String(authorization.validBefore),
+          nonce: String(authorization.nonce),
+        },
+      },
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Encode a payment payload as a base64 header value
+ */
+export function encodePaymentHeader(payment: PaymentPayload): string {
+  return Buffer.from(JSON.stringify(payment), "utf8").toString("base64");
+}
+
+/**
+ * Encode a settlement result for the `X-PAYMENT-RESPONSE` header
+ */
+export function encodePaymentResponse(settlement: SettleResponse): string {
+  return Buffer.from(JSON.stringify(settlement), "utf8").toString("base64");
+}
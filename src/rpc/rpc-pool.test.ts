@@ -0,0 +1,177 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { RpcPool } from "./rpc-pool";
+
+const A = "https://a.example/key-a";
+const B = "https://b.example";
+
+type Reply = { status?: number; body?: unknown; delayMs?: number };
+
+const realFetch = globalThis.fetch;
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Replace fetch with per-endpoint replies and record the URLs called
+ */
+const stubFetch = (replies: Record<string, () => Reply>) => {
+  const calls: string[] = [];
+  globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+    const url = String(input);
+    calls.push(url);
+    const { status = 200, body, delayMs = 0 } = replies[url]!();
+    if (delayMs) await sleep(delayMs);
+    const payload = JSON.parse(String(init?.body));
+    return new Response(JSON.stringify(body ?? { jsonrpc: "2.0", id: payload.id, result: url }), { status });
+  }) as typeof fetch;
+  return calls;
+};
+
+const ok = (): Reply => ({});
+const payload = { jsonrpc: "2.0", id: 1, method: "eth_blockNumber", params: [] };
+
+describe("RpcPool", () => {
+  afterEach(() => {
+    globalThis.fetch = realFetch;
+  });
+
+  test("fails over to the next endpoint on HTTP errors", async () => {
+    const calls = stubFetch({ [A]: () => ({ status: 503 }), [B]: ok });
+    const pool = new RpcPool([{ url: A }, { url: B }]);
+
+    const response = (await pool.request(payload)) as { result: string };
+
+    expect(response.result).toBe(B);
+    expect(calls).toEqual([A, B]);
+    expect(pool.getHealth()[0]).toMatchObject({ requests: 1, failures: 1, consecutive_failures: 1 });
+  });
+
+  test("throws the last error when every endpoint fails", async () => {
+    stubFetch({ [A]: () => ({ status: 500 }), [B]: () => ({ status: 502 }) });
+    const pool = new RpcPool([{ url: A }, { url: B }]);
+
+    await expect(pool.request(payload)).rejects.toThrow("HTTP 502");
+  });
+
+  test("treats throttling responses as failures", async () => {
+    const calls = stubFetch({
+      [A]: () => ({ body: [{ jsonrpc: "2.0", id: 1, error: { code: -32005, message: "limit exceeded" } }] }),
+      [B]: () => ({ body: { jsonrpc: "2.0", id: 1, error: { code: -32000, message: "Too Many Requests" } } }),
+    });
+    const pool = new RpcPool([{ url: A }, { url: B }]);
+
+    await expect(pool.request([payload])).rejects.toThrow("Rate limited by endpoint");
+    expect(calls).toEqual([A, B]);
+    expect(pool.getHealth().map((health) => health.failures)).toEqual([1, 1]);
+  });
+
+  test("passes ordinary JSON-RPC errors through", async () => {
+    const error = { code: 3, message: "execution reverted" };
+    stubFetch({ [A]: () => ({ body: { jsonrpc: "2.0", id: 1, error } }), [B]: ok });
+    const pool = new RpcPool([{ url: A }, { url: B }]);
+
+    expect(await pool.request(payload)).toMatchObject({ error });
+    expect(pool.getHealth()[0]!.failures).toBe(0);
+  });
+
+  test("ejects an endpoint after maxFailures and retries it after the cool-down", async () => {
+    let aDown = true;
+    const calls = stubFetch({ [A]: () => (aDown ? { status: 500 } : {}), [B]: ok });
+    const pool = new RpcPool([{ url: A }, { url: B }], { maxFailures: 2, ejectSeconds: 0.05 });
+
+    // Every request starts on A until it is ejected after the second
+    for (let i = 0; i < 3; i++) await pool.request(payload);
+    expect(calls.filter((url) => url === A)).toHaveLength(2);
+
+    const [ejected] = pool.getHealth();
+    expect(ejected!.healthy).toBe(false);
+    expect(ejected!.ejected_until).toBeDefined();
+    expect(ejected!.consecutive_failures).toBe(0);
+
+    calls.length = 0;
+    await pool.request(payload);
+    await pool.request(payload);
+    expect(calls).toEqual([B, B]);
+
+    aDown = false;
+    await sleep(60);
+    expect(pool.getHealth()[0]!.healthy).toBe(true);
+
+    calls.length = 0;
+    await pool.request(payload);
+    await pool.request(payload);
+    expect(calls).toContain(A);
+  });
+
+  test("uses the endpoint that recovers first when every endpoint is ejected", async () => {
+    const calls = stubFetch({ [A]: () => ({ status: 500 }), [B]: () => ({ status: 500 }) });
+    const pool = new RpcPool([{ url: A }, { url: B }], { maxFailures: 1, ejectSeconds: 60 });
+
+    await expect(pool.request(payload)).rejects.toThrow();
+    expect(pool.getHealth().every((health) => !health.healthy)).toBe(true);
+
+    calls.length = 0;
+    await expect(pool.request(payload)).rejects.toThrow();
+    expect(calls).toEqual([A, B]);
+  });
+
+  test("waits for the token bucket once the rate limit is used up", async () => {
+    stubFetch({ [A]: ok });
+    const pool = new RpcPool([{ url: A, rateLimit: 10 }]);
+
+    // The bucket holds 10 tokens; the 11th and 12th requests wait 100ms and 200ms
+    const started = Date.now();
+    await Promise.all(Array.from({ length: 12 }, () => pool.request(payload)));
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(190);
+  });
+
+  test("prefers endpoints with rate limit budget left", async () => {
+    const calls = stubFetch({ [A]: ok, [B]: ok });
+    const pool = new RpcPool([{ url: A, rateLimit: 1 }, { url: B }]);
+
+    for (let i = 0; i < 4; i++) await pool.request(payload);
+
+    expect(calls).toEqual([A, B, B, B]);
+  });
+
+  test("sends more requests to faster endpoints with the latency strategy", async () => {
+    const calls = stubFetch({ [A]: ok, [B]: () => ({ delayMs: 40 }) });
+    const pool = new RpcPool([{ url: A }, { url: B }], { strategy: "latency" });
+
+    // Each endpoint is measured once before weighting starts
+    for (let i = 0; i < 60; i++) await pool.request(payload);
+
+    expect(calls.slice(0, 2).sort()).toEqual([A, B]);
+    expect(calls.filter((url) => url === A).length).toBeGreaterThan(45);
+    expect(pool.getHealth()[1]!.latency_ms).toBeGreaterThanOrEqual(30);
+  });
+
+  test("reports health with endpoint paths redacted", async () => {
+    stubFetch({ [A]: ok, [B]: ok });
+    const pool = new RpcPool([{ url: A, rateLimit: 5 }, { url: B }], { rateLimit: 20 });
+
+    await pool.request(payload);
+
+    expect(pool.getHealth()).toEqual([
+      {
+        url: "https://a.example/***",
+        healthy: true,
+        ejected_until: undefined,
+        requests: 1,
+        failures: 0,
+        consecutive_failures: 0,
+        latency_ms: expect.any(Number),
+        rate_limit: 5,
+      },
+      {
+        url: "https://b.example",
+        healthy: true,
+        ejected_until: undefined,
+        requests: 0,
+        failures: 0,
+        consecutive_failures: 0,
+        latency_ms: undefined,
+        rate_limit: 20,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,359 @@
+/**
+ * RPC Pool - Several JSON-RPC endpoints of one chain behind a single provider
+ *
+ * Public RPCs throttle and go down without notice. The pool spreads requests
+ * over all configured endpoints of a chain, retries a failed request on the
+ * next endpoint and sidelines endpoints that keep failing. It implements the
+ * EIP-1193 `request` method, so it can be passed to `new Web3(...)` in place
+ * of a URL.
+ *
+ * Features:
+ * - Round-robin or latency-weighted endpoint selection
+ * - Failover to the next endpoint on network errors, HTTP errors and throttling
+ * - Ejection of endpoints after consecutive failures, for a cool-down period
+ * - Per-endpoint rate limit (token bucket)
+ * - Per-endpoint health stats (API keys in URLs are redacted)
+ */
+
+/**
+ * How the pool picks an endpoint for a request
+ */
+export type RpcStrategy = "round_robin" | "latency";
+
+/**
+ * RPC provider accepted by the analyzers: a single URL or a pool
+ */
+export type RpcProvider = string | RpcPool;
+
+/**
+ * One endpoint of a pool
+ */
+export interface RpcEndpointConfig {
+  /** JSON-RPC URL */
+  url: string;
+  /** Maximum requests per second (overrides the pool default; 0 = unlimited) */
+  rateLimit?: number;
+}
+
+/**
+ * Configuration options for RpcPool
+ */
+export interface RpcPoolOptions {
+  /** Endpoint selection strategy (default "round_robin") */
+  strategy?: RpcStrategy;
+  /** Default maximum requests per second per endpoint (default 0 = unlimited) */
+  rateLimit?: number;
+  /** Consecutive failures before an endpoint is ejected (default 3) */
+  maxFailures?: number;
+  /** How long an ejected endpoint is skipped, in seconds (default 30) */
+  ejectSeconds?: number;
+  /** Request timeout in milliseconds (default 15000) */
+  timeout?: number;
+  /** Whether to enable verbose logging */
+  verbose?: boolean;
+}
+
+/**
+ * Health of one endpoint, as reported by /health
+ */
+export interface RpcEndpointHealth {
+  /** Endpoint URL with its path and query redacted */
+  url: string;
+  /** Whether the endpoint currently receives requests */
+  healthy: boolean;
+  /** When an ejected endpoint is retried (ISO 8601) */
+  ejected_until?: string;
+  /** Requests sent */
+  requests: number;
+  /** Requests that failed (network, HTTP or throttling errors) */
+  failures: number;
+  /** Failures since the last success */
+  consecutive_failures: number;
+  /** Moving average of response times in milliseconds */
+  latency_ms?: number;
+  /** Maximum requests per second (0 = unlimited) */
+  rate_limit: number;
+}
+
+interface EndpointState {
+  url: string;
+  rateLimit: number;
+  tokens: number;
+  refilledAt: number;
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  latencyMs?: number;
+  ejectedUntil: number;
+}
+
+/**
+ * Parse a comma-separated endpoint list
+ *
+ * Each entry is a URL, optionally followed by `|<requests per second>`:
+ * `https://eth.llamarpc.com|10, https://rpc.ankr.com/eth`
+ *
+ * @param value - Comma-separated endpoints
+ * @returns Endpoint configs (empty entries are skipped)
+ */
+export function parseRpcEndpoints(value: string): RpcEndpointConfig[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [url, rateLimit] = entry.split("|").map((part) => part.trim());
+      const parsed = rateLimit ? parseFloat(rateLimit) : NaN;
+      return Number.isFinite(parsed) ? { url: url!, rateLimit: parsed } : { url: url! };
+    });
+}
+
+/**
+ * Hide the path and query of an endpoint URL (where providers put API keys)
+ */
+function redactUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    return parsed.pathname.length > 1 || parsed.search ? `${parsed.origin}/***` : parsed.origin;
+  } catch {
+    return "***";
+  }
+}
+
+/**
+ * RpcPool - Failover, load balancing and rate limiting over several endpoints
+ *
+ * Usage:
+ * ```typescript
+ * const pool = new RpcPool(parseRpcEndpoints(process.env.ETHEREUM_RPC_URL!), {
+ *   strategy: "latency",
+ *   rateLimit: 10,
+ * });
+ *
+ * const web3 = new Web3(pool);
+ * console.log(pool.getHealth());
+ * ```
+ */
+export class RpcPool {
+  private readonly endpoints: EndpointState[];
+  private readonly strategy: RpcStrategy;
+  private readonly maxFailures: number;
+  private readonly ejectMs: number;
+  private readonly timeout: number;
+  private readonly verbose: boolean;
+  private cursor = 0;
+
+  constructor(endpoints: RpcEndpointConfig[], options: RpcPoolOptions = {}) {
+    if (endpoints.length === 0) {
+      throw new Error("RpcPool needs at least one endpoint");
+    }
+
+    this.strategy = options.strategy || "round_robin";
+    this.maxFailures = options.maxFailures || 3;
+    this.ejectMs = (options.ejectSeconds ?? 30) * 1000;
+    this.timeout = options.timeout || 15000;
+    this.verbose = options.verbose || false;
+
+    const now = Date.now();
+    this.endpoints = endpoints.map(({ url, rateLimit }) => {
+      const limit = Math.max(0, rateLimit ?? options.rateLimit ?? 0);
+      return {
+        url,
+        rateLimit: limit,
+        tokens: limit,
+        refilledAt: now,
+        requests: 0,
+        failures: 0,
+        consecutiveFailures: 0,
+        ejectedUntil: 0,
+      };
+    });
+  }
+
+  /**
+   * Send a JSON-RPC payload (EIP-1193), failing over to other endpoints
+   *
+   * @param payload - JSON-RPC request or batch
+   * @returns The JSON-RPC response of the first endpoint that answers
+   */
+  async request(payload: unknown): Promise<unknown> {
+    const tried = new Set<EndpointState>();
+    let lastError: Error | undefined;
+
+    for (let endpoint = this.select(tried); endpoint; endpoint = this.select(tried)) {
+      tried.add(endpoint);
+      await this.acquire(endpoint);
+
+      const started = Date.now();
+      endpoint.requests++;
+
+      try {
+        const response = await fetch(endpoint.url, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(payload),
+          signal: AbortSignal.timeout(this.timeout),
+        });
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        const body = await response.json();
+        if (this.isThrottled(body)) {
+          throw new Error("Rate limited by endpoint");
+        }
+
+        this.recordSuccess(endpoint, Date.now() - started);
+        return body;
+      } catch (error: any) {
+        lastError = error instanceof Error ? error : new Error(String(error));
+        this.recordFailure(endpoint, lastError);
+      }
+    }
+
+    throw lastError ?? new Error("No RPC endpoint available");
+  }
+
+  /**
+   * Per-endpoint health
+   */
+  getHealth(): RpcEndpointHealth[] {
+    const now = Date.now();
+    return this.endpoints.map((endpoint) => ({
+      url: redactUrl(endpoint.url),
+      healthy: endpoint.ejectedUntil <= now,
+      ejected_until: endpoint.ejectedUntil > now ? new Date(endpoint.ejectedUntil).toISOString() : undefined,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      consecutive_failures: endpoint.consecutiveFailures,
+      latency_ms: endpoint.latencyMs === undefined ? undefined : Math.round(endpoint.latencyMs),
+      rate_limit: endpoint.rateLimit,
+    }));
+  }
+
+  /**
+   * Pick the next endpoint not tried yet for this request
+   *
+   * Ejected endpoints are skipped unless every remaining endpoint is ejected,
+   * in which case the one that recovers first is used. Endpoints with rate
+   * limit budget left are preferred over ones that would make us wait.
+   */
+  private select(tried: Set<EndpointState>): EndpointState | undefined {
+    const now = Date.now();
+    const remaining = this.endpoints.filter((endpoint) => !tried.has(endpoint));
+    if (remaining.length === 0) return undefined;
+
+    const live = remaining.filter((endpoint) => endpoint.ejectedUntil <= now);
+    if (live.length === 0) {
+      return remaining.reduce((first, endpoint) => (endpoint.ejectedUntil < first.ejectedUntil ? endpoint : first));
+    }
+
+    const ready = live.filter((endpoint) => this.refill(endpoint, now) >= 1);
+    const candidates = ready.length > 0 ? ready : live;
+
+    if (this.strategy === "latency") {
+      return this.pickByLatency(candidates);
+    }
+
+    for (let i = 0; i < this.endpoints.length; i++) {
+      const endpoint = this.endpoints[(this.cursor + i) % this.endpoints.length]!;
+      if (candidates.includes(endpoint)) {
+        this.cursor = (this.cursor + i + 1) % this.endpoints.length;
+        return endpoint;
+      }
+    }
+
+    return candidates[0];
+  }
+
+  /**
+   * Weighted random pick: faster endpoints get proportionally more requests
+   */
+  private pickByLatency(candidates: EndpointState[]): EndpointState {
+    // Unmeasured endpoints are tried first so every endpoint gets a latency
+    const unmeasured = candidates.find((endpoint) => endpoint.latencyMs === undefined);
+    if (unmeasured) return unmeasured;
+
+    const weights = candidates.map((endpoint) => 1 / Math.max(endpoint.latencyMs!, 1));
+    let roll = Math.random() * weights.reduce((sum, weight) => sum + weight, 0);
+
+    for (let i = 0; i < candidates.length; i++) {
+      roll -= weights[i]!;
+      if (roll <= 0) return candidates[i]!;
+    }
+
+    return candidates[candidates.length - 1]!;
+  }
+
+  /**
+   * Top up an endpoint's token bucket and return the tokens available
+   */
+  private refill(endpoint: EndpointState, now: number): number {
+    if (endpoint.rateLimit === 0) return Infinity;
+
+    const elapsed = (now - endpoint.refilledAt) / 1000;
+    endpoint.tokens = Math.min(endpoint.rateLimit, endpoint.tokens + elapsed * endpoint.rateLimit);
+    endpoint.refilledAt = now;
+    return endpoint.tokens;
+  }
+
+  /**
+   * Take a token from an endpoint's bucket, waiting for one if necessary
+   */
+  private async acquire(endpoint: EndpointState): Promise<void> {
+    if (endpoint.rateLimit === 0) return;
+
+    const available = this.refill(endpoint, Date.now());
+    endpoint.tokens--;
+
+    if (available < 1) {
+      // The token is taken ahead of time; wait until it would have been refilled
+      await new Promise((resolve) => setTimeout(resolve, ((1 - available) / endpoint.rateLimit) * 1000));
+    }
+  }
+
+  /**
+   * Whether a JSON-RPC response says the endpoint is throttling us
+   */
+  private isThrottled(body: unknown): boolean {
+    const responses = Array.isArray(body) ? body : [body];
+    return responses.some((response: any) => {
+      const error = response?.error;
+      if (!error) return false;
+      return error.code === -32005 || /rate limit|too many requests|request limit/i.test(String(error.message));
+    });
+  }
+
+  /**
+   * Record a successful request
+   */
+  private recordSuccess(endpoint: EndpointState, latencyMs: number): void {
+    endpoint.consecutiveFailures = 0;
+    endpoint.latencyMs = endpoint.latencyMs === undefined ? latencyMs : endpoint.latencyMs * 0.8 + latencyMs * 0.2;
+  }
+
+  /**
+   * Record a failed request and eject the endpoint after repeated failures
+   */
+  private recordFailure(endpoint: EndpointState, error: Error): void {
+    endpoint.failures++;
+    endpoint.consecutiveFailures++;
+    this.log(`${redactUrl(endpoint.url)} failed: ${error.message}`);
+
+    if (endpoint.consecutiveFailures >= this.maxFailures) {
+      endpoint.ejectedUntil = Date.now() + this.ejectMs;
+      endpoint.consecutiveFailures = 0;
+      console.warn(`⚠ RPC endpoint ${redactUrl(endpoint.url)} ejected for ${this.ejectMs / 1000}s`);
+    }
+  }
+
+  /**
+   * Log message if verbose mode enabled
+   */
+  private log(message: string): void {
+    if (this.verbose) {
+      console.log(`[RpcPool] ${message}`);
+    }
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Stub Provider - In-memory JSON-RPC provider for tests
+ *
+ * Answers EIP-1193 `request` payloads from a handler function, so analyzers
+ * and batchers can be tested against fixed tables instead of a live node.
+ * Each test keeps only its tables and the handler that serves them.
+ *
+ * Features:
+ * - The handler returns a request's result; throwing turns into a JSON-RPC error
+ * - Batch payloads answered request by request, optionally reversed or rejected
+ * - Every payload received can be recorded
+ */
+
+import type { RpcPool } from "./rpc-pool";
+
+/**
+ * A single JSON-RPC request as the handler sees it
+ */
+export interface JsonRpcRequest {
+  jsonrpc: string;
+  id: number | string | null;
+  method: string;
+  params?: any[];
+}
+
+/**
+ * Answers one request with its result (or throws to answer with an error)
+ */
+export type StubHandler = (request: JsonRpcRequest) => unknown;
+
+/**
+ * Error a handler throws to answer with a specific JSON-RPC error code
+ *
+ * Other errors are answered with code -32000.
+ */
+export class StubRpcError extends Error {
+  constructor(
+    readonly code: number,
+    message: string
+  ) {
+    super(message);
+    this.name = "StubRpcError";
+  }
+}
+
+/**
+ * Configuration options for stubProvider
+ */
+export interface StubProviderOptions {
+  /** Receives every payload, single requests and batches alike */
+  payloads?: unknown[];
+  /**
+   * How batch payloads are answered (default true): in order, reversed (the way
+   * some endpoints reorder them) or rejected with a single error response
+   */
+  batches?: boolean | "reversed";
+}
+
+/**
+ * Create a provider that answers requests from a handler
+ *
+ * The provider is typed as an RpcPool so it can be passed wherever analyzers
+ * take an RpcProvider, or to `new Web3(...)`.
+ *
+ * @param handler - Answers single requests
+ * @param options - Payload recording and batch behaviour
+ * @returns An EIP-1193 provider
+ *
+ * @example
+ * ```typescript
+ * const provider = stubProvider((request) => {
+ *   if (request.method === "eth_blockNumber") return "0x100";
+ *   throw new StubRpcError(-32601, `Unexpected ${request.method}`);
+ * });
+ * const analyzer = new LiquidityAnalyzer({ 1: provider });
+ * ```
+ */
+export function stubProvider(handler: StubHandler, options: StubProviderOptions = {}): RpcPool {
+  const { payloads, batches = true } = options;
+
+  const answer = async (request: JsonRpcRequest) => {
+    try {
+      return { jsonrpc: "2.0", id: request.id, result: await handler(request) };
+    } catch (error: any) {
+      const code = error instanceof StubRpcError ? error.code : -32000;
+      return { jsonrpc: "2.0", id: request.id, error: { code, message: error.message } };
+    }
+  };
+
+  const provider = {
+    request: async (payload: JsonRpcRequest | JsonRpcRequest[]) => {
+      payloads?.push(payload);
+
+      if (!Array.isArray(payload)) return answer(payload);
+      if (!batches) return { jsonrpc: "2.0", id: null, error: { code: -32600, message: "batch not supported" } };
+
+      const responses = await Promise.all(payload.map(answer));
+      return batches === "reversed" ? responses.reverse() : responses;
+    },
+  };
+
+  return provider as unknown as RpcPool;
+}